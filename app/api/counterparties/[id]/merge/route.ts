@@ -0,0 +1,64 @@
+/**
+ * 合并往来单位 API 路由
+ * POST /api/counterparties/[id]/merge
+ * body: { targetId: string }
+ * 将当前单位合并到目标单位，报表按目标单位统计
+ * 需要权限: canManageSettings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { requirePermission } from "@/lib/permission";
+import { mergeCounterparty } from "@/lib/services/counterparties";
+
+/**
+ * POST 合并往来单位
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canManageSettings");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!body.targetId || typeof body.targetId !== "string") {
+      return NextResponse.json(
+        { error: "缺少目标往来单位 ID" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    let target;
+    try {
+      target = await mergeCounterparty(id, body.targetId);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: "合并往来单位失败", message: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: target.toJSON(),
+    });
+  } catch (error: any) {
+    console.error("Merge counterparty error:", error);
+    return NextResponse.json(
+      {
+        error: "合并往来单位失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
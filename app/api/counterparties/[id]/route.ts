@@ -0,0 +1,134 @@
+/**
+ * 往来单位详情 API 路由
+ * GET /api/counterparties/[id] - 获取往来单位详情（含已合并到该单位的记录）
+ * PUT /api/counterparties/[id] - 修改规范名称、别名或取消合并
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Counterparty } from "@/models";
+import { requirePermission } from "@/lib/permission";
+
+/**
+ * GET 获取往来单位详情
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewReports");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id } = await params;
+
+    await connectToDatabase();
+
+    const counterparty = await Counterparty.findById(id);
+    if (!counterparty) {
+      return NextResponse.json(
+        { error: "往来单位不存在" },
+        { status: 404 }
+      );
+    }
+
+    const merged = await Counterparty.find({ mergedInto: counterparty.taxId }).sort({
+      lastSeenAt: -1,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...counterparty.toJSON(),
+        merged: merged.map((item) => item.toJSON()),
+      },
+    });
+  } catch (error: any) {
+    console.error("Get counterparty error:", error);
+    return NextResponse.json(
+      {
+        error: "获取往来单位失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT 更新往来单位
+ * body: { name?: string, aliases?: string[], mergedInto?: null }
+ * 修改名称后不再被发票中的名称覆盖；mergedInto 为 null 时取消合并
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canManageSettings");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    await connectToDatabase();
+
+    const counterparty = await Counterparty.findById(id);
+    if (!counterparty) {
+      return NextResponse.json(
+        { error: "往来单位不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name) {
+        return NextResponse.json(
+          { error: "名称不能为空" },
+          { status: 400 }
+        );
+      }
+      counterparty.name = name;
+      counterparty.nameLocked = true;
+    }
+
+    if (body.aliases !== undefined) {
+      if (!Array.isArray(body.aliases) || body.aliases.some((alias: unknown) => typeof alias !== "string")) {
+        return NextResponse.json(
+          { error: "别名必须为字符串数组" },
+          { status: 400 }
+        );
+      }
+      counterparty.aliases = [
+        ...new Set<string>(body.aliases.map((alias: string) => alias.trim()).filter(Boolean)),
+      ];
+    }
+
+    if (body.mergedInto === null) {
+      counterparty.mergedInto = undefined;
+    }
+
+    await counterparty.save();
+
+    return NextResponse.json({
+      success: true,
+      data: counterparty.toJSON(),
+    });
+  } catch (error: any) {
+    console.error("Update counterparty error:", error);
+    return NextResponse.json(
+      {
+        error: "更新往来单位失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
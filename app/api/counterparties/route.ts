@@ -0,0 +1,80 @@
+/**
+ * 往来单位列表 API 路由
+ * GET /api/counterparties?search=&role=seller
+ * 需要权限: canViewReports
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Counterparty, CounterpartyRole } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { normalizeTaxId } from "@/lib/services/taxIdValidation";
+
+/**
+ * GET 获取往来单位列表（支持按名称、别名、税号搜索，按角色筛选）
+ * 默认不返回已合并到其他单位的记录，includeMerged=true 时返回
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewReports");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const search = searchParams.get("search")?.trim();
+    const role = searchParams.get("role") as CounterpartyRole | null;
+    const includeMerged = searchParams.get("includeMerged") === "true";
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    await connectToDatabase();
+
+    const query: any = {};
+    if (role === "seller" || role === "buyer") {
+      query.roles = role;
+    }
+    if (!includeMerged) {
+      query.mergedInto = { $exists: false };
+    }
+    if (search) {
+      const pattern = search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.$or = [
+        { name: { $regex: pattern, $options: "i" } },
+        { aliases: { $regex: pattern, $options: "i" } },
+        { taxId: normalizeTaxId(search) },
+      ];
+    }
+
+    const [counterparties, total] = await Promise.all([
+      Counterparty.find(query)
+        .sort({ lastSeenAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Counterparty.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        counterparties: counterparties.map((item) => item.toJSON()),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error("Counterparties API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取往来单位列表失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * 往来单位同步 API 路由
+ * POST /api/counterparties/sync
+ * 从已完成的发票文档重新登记往来单位（用于补录启用该功能前的历史发票）
+ * 需要权限: canManageSettings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document, Counterparty } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { syncInvoiceCounterparties } from "@/lib/services/counterparties";
+
+/**
+ * POST 同步往来单位
+ */
+export async function POST(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canManageSettings");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    await connectToDatabase();
+
+    const cursor = Document.find({
+      documentType: "invoice",
+      status: "completed",
+      "parsedData.invoice": { $exists: true },
+    })
+      .select("documentType uploadDate parsedData.invoice")
+      .sort({ uploadDate: 1 })
+      .cursor();
+
+    let scanned = 0;
+    for await (const document of cursor) {
+      await syncInvoiceCounterparties(document);
+      scanned++;
+    }
+
+    const total = await Counterparty.countDocuments({});
+
+    return NextResponse.json({
+      success: true,
+      data: { scanned, total },
+      message: `已扫描 ${scanned} 张发票，共 ${total} 个往来单位`,
+    });
+  } catch (error: any) {
+    console.error("Counterparty sync error:", error);
+    return NextResponse.json(
+      {
+        error: "同步往来单位失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
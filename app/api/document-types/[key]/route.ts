@@ -0,0 +1,187 @@
+/**
+ * 自定义文档类型详情 API 路由
+ * GET /api/document-types/[key] - 获取类型定义及由其生成的解析提示词
+ * PUT /api/document-types/[key] - 修改名称、说明、字段定义、附加说明或启用状态（key 不可修改）
+ * DELETE /api/document-types/[key] - 删除类型（已有文档使用时只能停用）
+ * 修改和删除需要权限: canManageSettings
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { CustomDocumentType, Document } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import {
+  buildExtractionPrompt,
+  validateTypeDefinition,
+} from "@/lib/services/customDocumentTypes";
+
+/**
+ * GET 获取自定义文档类型
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { key } = await params;
+
+    await connectToDatabase();
+
+    const type = await CustomDocumentType.findByKey(key);
+    if (!type) {
+      return NextResponse.json(
+        { error: "文档类型不存在" },
+        { status: 404 }
+      );
+    }
+
+    const documentCount = await Document.countDocuments({ documentType: "custom", customType: key });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...type.toJSON(),
+        documentCount,
+        prompt: buildExtractionPrompt(type),
+      },
+    });
+  } catch (error: any) {
+    console.error("Get document type error:", error);
+    return NextResponse.json(
+      {
+        error: "获取文档类型失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT 修改自定义文档类型
+ * 修改字段定义不影响已解析的文档，重新处理后按新定义解析
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canManageSettings");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { key } = await params;
+    const body = await request.json();
+
+    if (body.key !== undefined && body.key !== key) {
+      return NextResponse.json(
+        { error: "参数错误", message: "key 不可修改" },
+        { status: 400 }
+      );
+    }
+
+    const { definition, error } = validateTypeDefinition(body, false);
+    if (!definition) {
+      return NextResponse.json(
+        { error: "参数错误", message: error },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const type = await CustomDocumentType.findByKey(key);
+    if (!type) {
+      return NextResponse.json(
+        { error: "文档类型不存在" },
+        { status: 404 }
+      );
+    }
+
+    type.set({ ...definition, updatedBy: permissionResult.user.id });
+    if (definition.jsonSchema) {
+      type.markModified("jsonSchema");
+    }
+    await type.save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...type.toJSON(),
+        prompt: buildExtractionPrompt(type),
+      },
+    });
+  } catch (error: any) {
+    console.error("Update document type error:", error);
+    return NextResponse.json(
+      {
+        error: "更新文档类型失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE 删除自定义文档类型
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canManageSettings");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { key } = await params;
+
+    await connectToDatabase();
+
+    const type = await CustomDocumentType.findByKey(key);
+    if (!type) {
+      return NextResponse.json(
+        { error: "文档类型不存在" },
+        { status: 404 }
+      );
+    }
+
+    const documentCount = await Document.countDocuments({ documentType: "custom", customType: key });
+    if (documentCount > 0) {
+      return NextResponse.json(
+        {
+          error: "文档类型正在使用",
+          message: `已有 ${documentCount} 个文档使用该类型，请改为停用`,
+        },
+        { status: 409 }
+      );
+    }
+
+    await type.deleteOne();
+
+    return NextResponse.json({
+      success: true,
+      message: "文档类型已删除",
+    });
+  } catch (error: any) {
+    console.error("Delete document type error:", error);
+    return NextResponse.json(
+      {
+        error: "删除文档类型失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * 自定义文档类型 API 路由
+ * GET /api/document-types?enabled=true - 获取自定义文档类型列表（含各类型的文档数）
+ * POST /api/document-types - 创建自定义文档类型（需要权限: canManageSettings）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { CustomDocumentType, Document } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { validateTypeDefinition } from "@/lib/services/customDocumentTypes";
+
+/**
+ * GET 获取自定义文档类型列表
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const enabledOnly = request.nextUrl.searchParams.get("enabled") === "true";
+
+    await connectToDatabase();
+
+    const [types, counts] = await Promise.all([
+      CustomDocumentType.find(enabledOnly ? { enabled: true } : {}).sort({ name: 1 }),
+      Document.aggregate([
+        { $match: { documentType: "custom" } },
+        { $group: { _id: "$customType", count: { $sum: 1 } } },
+      ]),
+    ]);
+    const countByKey = new Map(counts.map((item: any) => [item._id, item.count]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        types: types.map((type) => ({
+          ...type.toJSON(),
+          documentCount: countByKey.get(type.key) || 0,
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error("Document types API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取文档类型失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST 创建自定义文档类型
+ * body: { key, name, description?, jsonSchema, instructions?, enabled? }
+ */
+export async function POST(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canManageSettings");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const body = await request.json();
+    const { definition, error } = validateTypeDefinition(body, true);
+    if (!definition) {
+      return NextResponse.json(
+        { error: "参数错误", message: error },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const existing = await CustomDocumentType.findByKey(definition.key!);
+    if (existing) {
+      return NextResponse.json(
+        { error: "文档类型已存在", message: `key ${definition.key} 已被使用` },
+        { status: 409 }
+      );
+    }
+
+    const type = await CustomDocumentType.create({
+      ...definition,
+      createdBy: permissionResult.user.id,
+      updatedBy: permissionResult.user.id,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: type.toJSON(),
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Create document type error:", error);
+    return NextResponse.json(
+      {
+        error: "创建文档类型失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * 单个文档处理事件 API 路由（Server-Sent Events）
+ * GET /api/documents/[id]/events
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permission";
+import {
+  createDocumentEventStream,
+  findInvalidDocumentId,
+  EVENT_STREAM_HEADERS,
+} from "@/lib/services/documentEvents";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET 订阅文档处理阶段变化
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  const { id } = await params;
+
+  if (findInvalidDocumentId([id])) {
+    return NextResponse.json(
+      { error: "参数错误", message: `无效的文档ID: ${id}` },
+      { status: 400 }
+    );
+  }
+
+  const stream = createDocumentEventStream({
+    documentIds: [id],
+    lastEventId: request.headers.get("last-event-id"),
+    signal: request.signal,
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
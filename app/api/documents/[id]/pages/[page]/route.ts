@@ -0,0 +1,114 @@
+/**
+ * PDF 页面预览 API 路由
+ * GET /api/documents/[id]/pages/[page] - 将 PDF 文档的指定页（从 1 开始）转换为 PNG 返回，
+ * 供详情页叠加显示 OCR 版面区域
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { resolveStoredFilePath } from "@/lib/storage/fileStorage";
+import { rasterizePdf } from "@/lib/services/pdfRaster";
+
+/**
+ * 预览分辨率（版面区域按页面尺寸比例定位，与 OCR 时的分辨率无关）
+ */
+const PREVIEW_DPI = 100;
+
+/**
+ * GET 获取 PDF 页面图片
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; page: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id, page: pageParam } = await params;
+    const page = parseInt(pageParam, 10);
+    if (!Number.isInteger(page) || page < 1) {
+      return NextResponse.json(
+        { error: "页码无效" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const document = await Document.findById(id)
+      .select("fileName fileUrl fileType filePath ocrResult.numPages")
+      .lean();
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (document.fileType !== "application/pdf") {
+      return NextResponse.json(
+        { error: "仅 PDF 文档支持按页预览" },
+        { status: 400 }
+      );
+    }
+
+    const numPages = document.ocrResult?.numPages;
+    if (numPages && page > numPages) {
+      return NextResponse.json(
+        { error: "页面不存在", message: `文档共 ${numPages} 页` },
+        { status: 404 }
+      );
+    }
+
+    const filePath = resolveStoredFilePath(document.filePath, document.fileUrl);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: "文件不存在" },
+        { status: 404 }
+      );
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "preview-"));
+    try {
+      const images = await rasterizePdf(filePath, workDir, {
+        dpi: PREVIEW_DPI,
+        firstPage: page,
+        lastPage: page,
+      });
+      if (images.length === 0) {
+        return NextResponse.json(
+          { error: "页面不存在" },
+          { status: 404 }
+        );
+      }
+
+      const image = await fs.readFile(images[0]);
+      return new NextResponse(image, {
+        headers: {
+          "Content-Type": "image/png",
+          "Cache-Control": "private, max-age=3600",
+        },
+      });
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  } catch (error: any) {
+    console.error("Document page preview API error:", error);
+    return NextResponse.json(
+      {
+        error: "页面预览失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * 人工审核 API 路由
+ * POST /api/documents/[id]/review - 审核通过待审核文档，可同时提交修改后的 parsedData
+ * 需要权限: canReprocessDocuments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { completeReview } from "@/lib/services/reviewQueue";
+
+/**
+ * POST 完成审核
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canReprocessDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (
+      body.parsedData !== undefined &&
+      (!body.parsedData || typeof body.parsedData !== "object" || Array.isArray(body.parsedData))
+    ) {
+      return NextResponse.json(
+        { error: "参数错误", message: "parsedData 必须是对象" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const document = await Document.findById(id);
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (document.status !== "needs_review") {
+      return NextResponse.json(
+        { error: "文档不在待审核状态" },
+        { status: 409 }
+      );
+    }
+
+    const reviewed = await completeReview(
+      document,
+      { id: permissionResult.user.id, name: permissionResult.user.name },
+      {
+        parsedData: body.parsedData,
+        comment: typeof body.comment === "string" ? body.comment.trim() || undefined : undefined,
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: reviewed._id,
+        fileName: reviewed.fileName,
+        documentType: reviewed.documentType,
+        status: reviewed.status,
+        parsedData: reviewed.parsedData,
+        duplicateOf: reviewed.duplicateOf,
+        validation: reviewed.validation,
+        review: reviewed.review,
+        updatedAt: reviewed.updatedAt,
+      },
+    });
+  } catch (error: any) {
+    console.error("Document review API error:", error);
+    return NextResponse.json(
+      {
+        error: "审核失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
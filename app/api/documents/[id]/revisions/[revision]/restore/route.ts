@@ -0,0 +1,151 @@
+/**
+ * 恢复解析结果版本 API 路由
+ * POST /api/documents/[id]/revisions/[revision]/restore - 将解析结果恢复为指定版本
+ * 恢复本身保存为新版本，历史版本不会被删除
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document, AuditLog, ParsedDataRevision } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { checkDuplicateInvoice, recheckDuplicatesOf } from "@/lib/services/invoiceDuplicates";
+import { validateDocument } from "@/lib/services/invoiceValidation";
+import { syncInvoiceCounterparties } from "@/lib/services/counterparties";
+import { updateFieldConfidence } from "@/lib/services/fieldConfidence";
+import { ensureBaselineRevision, recordRevision } from "@/lib/services/parsedDataRevisions";
+import { getEnabledType } from "@/lib/services/customDocumentTypes";
+
+/**
+ * POST 恢复版本
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  // 权限检查（与修改解析结果一致）
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id, revision: revisionParam } = await params;
+    const revisionNumber = /^\d+$/.test(revisionParam) ? parseInt(revisionParam, 10) : 0;
+    if (revisionNumber < 1) {
+      return NextResponse.json(
+        { error: "参数错误", message: "版本号必须为正整数" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason.trim() || undefined : undefined;
+
+    await connectToDatabase();
+
+    const document = await Document.findById(id);
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (document.status === "processing") {
+      return NextResponse.json(
+        { error: "文档正在处理中，请稍后再试" },
+        { status: 409 }
+      );
+    }
+
+    const revision = await ParsedDataRevision.findOne({ documentId: id, revision: revisionNumber }).lean();
+    if (!revision) {
+      return NextResponse.json(
+        { error: "版本不存在" },
+        { status: 404 }
+      );
+    }
+
+    // 自定义类型的版本须对应已启用的自定义类型（与修改文档类型的要求一致）
+    // 早期版本未记录 customType 时沿用文档当前的自定义类型
+    const customType =
+      revision.documentType === "custom" ? revision.customType || document.customType : undefined;
+    if (revision.documentType === "custom") {
+      try {
+        await getEnabledType(customType);
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: "无法恢复该版本", message: error.message },
+          { status: 409 }
+        );
+      }
+    }
+
+    // 恢复前确保当前解析结果已有版本记录
+    await ensureBaselineRevision(document);
+
+    const updatedDocument = await Document.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          parsedData: revision.parsedData,
+          documentType: revision.documentType,
+          ...(customType && { customType }),
+          // 待审核的文档需通过审核接口完成
+          status: document.status === "needs_review" ? "needs_review" : "completed",
+          "metadata.aiParsedAt": new Date(),
+        },
+        ...(!customType && { $unset: { customType: "" } }),
+      },
+      { new: true }
+    );
+
+    const restored = await recordRevision(updatedDocument, "restore", {
+      user: permissionResult.user,
+      reason,
+      restoredFrom: revision.revision,
+    });
+
+    await AuditLog.log(
+      id,
+      document.fileName,
+      "restore",
+      { restoredFrom: revision.revision, revision: restored.revision, reason },
+      permissionResult.user.id
+    );
+
+    // 与人工修改相同：重新校验、检查重复并登记往来单位
+    await validateDocument(updatedDocument);
+    await updateFieldConfidence(updatedDocument);
+    await checkDuplicateInvoice(updatedDocument);
+    await recheckDuplicatesOf(id);
+    await syncInvoiceCounterparties(updatedDocument);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: updatedDocument!._id,
+        fileName: updatedDocument!.fileName,
+        documentType: updatedDocument!.documentType,
+        customType: updatedDocument!.customType,
+        status: updatedDocument!.status,
+        parsedData: updatedDocument!.parsedData,
+        duplicateOf: updatedDocument!.duplicateOf,
+        validation: updatedDocument!.validation,
+        verification: updatedDocument!.verification,
+        revision: restored.revision,
+        restoredFrom: revision.revision,
+        updatedAt: updatedDocument!.updatedAt,
+      },
+    });
+  } catch (error: any) {
+    console.error("Document restore API error:", error);
+    return NextResponse.json(
+      {
+        error: "恢复版本失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
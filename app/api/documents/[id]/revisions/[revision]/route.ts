@@ -0,0 +1,105 @@
+/**
+ * 解析结果版本详情 API 路由
+ * GET /api/documents/[id]/revisions/[revision]?compareTo=2 - 获取版本快照及字段差异
+ * 默认与当前解析结果比较，指定 compareTo 时与该版本比较
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document, ParsedDataRevision } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { diffParsedData } from "@/lib/services/parsedDataRevisions";
+
+/**
+ * 解析版本号参数，非正整数返回 null
+ */
+function parseRevisionNumber(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const revision = parseInt(value, 10);
+  return revision > 0 ? revision : null;
+}
+
+/**
+ * GET 版本详情
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id, revision: revisionParam } = await params;
+    const revisionNumber = parseRevisionNumber(revisionParam);
+    const compareParam = request.nextUrl.searchParams.get("compareTo");
+    const compareTo = compareParam === null ? null : parseRevisionNumber(compareParam);
+    if (!revisionNumber || (compareParam !== null && !compareTo)) {
+      return NextResponse.json(
+        { error: "参数错误", message: "版本号必须为正整数" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const document = await Document.findById(id).select("parsedData documentType");
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    const revision = await ParsedDataRevision.findOne({ documentId: id, revision: revisionNumber }).lean();
+    if (!revision) {
+      return NextResponse.json(
+        { error: "版本不存在" },
+        { status: 404 }
+      );
+    }
+
+    let base: any = document.parsedData;
+    if (compareTo) {
+      const other = await ParsedDataRevision.findOne({ documentId: id, revision: compareTo }).lean();
+      if (!other) {
+        return NextResponse.json(
+          { error: "对比版本不存在" },
+          { status: 404 }
+        );
+      }
+      base = other.parsedData;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: revision._id.toString(),
+        revision: revision.revision,
+        source: revision.source,
+        documentType: revision.documentType,
+        parsedData: revision.parsedData,
+        userId: revision.userId,
+        userName: revision.userName,
+        reason: revision.reason,
+        restoredFrom: revision.restoredFrom,
+        createdAt: revision.createdAt,
+        compareTo: compareTo ?? "current",
+        // 从对比对象（当前结果或 compareTo 版本）到该版本的差异
+        changes: diffParsedData(base, revision.parsedData),
+      },
+    });
+  } catch (error: any) {
+    console.error("Document revision API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取版本详情失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * 解析结果版本历史 API 路由
+ * GET /api/documents/[id]/revisions - 获取全部版本及每个版本相对上一版本的字段差异
+ * 同时返回机器解析准确率（最近一次 AI / 结构化解析结果与当前结果的差异）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document, ParsedDataRevision } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { computeParseAccuracy, diffParsedData } from "@/lib/services/parsedDataRevisions";
+
+/**
+ * GET 版本历史
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { id } = await params;
+
+    await connectToDatabase();
+
+    const document = await Document.findById(id).select("parsedData documentType");
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await ParsedDataRevision.getHistory(id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        // 按版本号倒序，最新版本在前
+        revisions: revisions
+          .map((revision: any, index: number) => ({
+            id: revision._id.toString(),
+            revision: revision.revision,
+            source: revision.source,
+            documentType: revision.documentType,
+            userId: revision.userId,
+            userName: revision.userName,
+            reason: revision.reason,
+            restoredFrom: revision.restoredFrom,
+            createdAt: revision.createdAt,
+            changes: diffParsedData(
+              index > 0 ? revisions[index - 1].parsedData : {},
+              revision.parsedData
+            ),
+          }))
+          .reverse(),
+        accuracy: computeParseAccuracy(revisions, document.parsedData),
+      },
+    });
+  } catch (error: any) {
+    console.error("Document revisions API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取版本历史失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
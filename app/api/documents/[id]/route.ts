@@ -1,14 +1,22 @@
 /**
  * 文档详情 API 路由
  * GET /api/documents/[id] - 获取文档详情
- * PUT /api/documents/[id] - 更新文档
+ * PUT /api/documents/[id] - 更新文档（修改 parsedData 时保存版本，可附 reason 说明修改原因；
+ *   documentType 为 custom 时需指定 customType）
  * DELETE /api/documents/[id] - 删除文档
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/mongodb";
-import { Document, AuditLog } from "@/models";
+import { Document, AuditLog, CustomDocumentType } from "@/models";
 import { requirePermission } from "@/lib/permission";
+import { checkDuplicateInvoice, recheckDuplicatesOf } from "@/lib/services/invoiceDuplicates";
+import { validateDocument } from "@/lib/services/invoiceValidation";
+import { markEditedFieldSources } from "@/lib/services/fieldSources";
+import { syncInvoiceCounterparties } from "@/lib/services/counterparties";
+import { updateFieldConfidence } from "@/lib/services/fieldConfidence";
+import { getEnabledType } from "@/lib/services/customDocumentTypes";
+import { ensureBaselineRevision, recordRevision } from "@/lib/services/parsedDataRevisions";
 
 /**
  * 路由参数处理
@@ -47,6 +55,13 @@ export async function GET(
     // 记录查看日志
     await AuditLog.log(id, document.fileName, "view");
 
+    // 自定义类型的字段定义，供页面展示字段名称
+    const customTypeDefinition = document.customType
+      ? await CustomDocumentType.findOne({ key: document.customType })
+          .select("key name jsonSchema enabled")
+          .lean()
+      : null;
+
     return NextResponse.json({
       success: true,
       data: {
@@ -55,11 +70,17 @@ export async function GET(
         fileUrl: document.fileUrl,
         fileType: document.fileType,
         documentType: document.documentType,
+        customType: document.customType,
+        customTypeDefinition,
         status: document.status,
         uploadDate: document.uploadDate,
         ocrResult: document.ocrResult,
         parsedData: document.parsedData,
         metadata: document.metadata,
+        duplicateOf: document.duplicateOf,
+        validation: document.validation,
+        verification: document.verification,
+        review: document.review,
         error: document.error,
         createdAt: document.createdAt,
         updatedAt: document.updatedAt,
@@ -115,9 +136,46 @@ export async function PUT(
       }
     }
 
-    // 如果更新了解析数据，标记为已完成
+    // 自定义类型：documentType 为 custom 时须对应已启用的自定义类型，改为其他类型时清除 customType
+    const unset: Record<string, 1> = {};
+    if (body.documentType !== undefined || body.customType !== undefined) {
+      const documentType = body.documentType ?? document.documentType;
+      if (documentType === "custom") {
+        const customType = body.customType ?? document.customType;
+        try {
+          await getEnabledType(customType);
+        } catch (error: any) {
+          return NextResponse.json(
+            { error: "参数错误", message: error.message },
+            { status: 400 }
+          );
+        }
+        updates.documentType = "custom";
+        updates.customType = customType;
+      } else if (body.customType) {
+        return NextResponse.json(
+          { error: "参数错误", message: "customType 仅在 documentType 为 custom 时有效" },
+          { status: 400 }
+        );
+      } else if (document.customType) {
+        unset.customType = 1;
+      }
+    }
+
+    // 修改前确保原解析结果已有版本记录
+    if (updates.parsedData || updates.documentType) {
+      await ensureBaselineRevision(document);
+    }
+
+    // 如果更新了解析数据，标记为已完成（待审核的文档需通过审核接口完成）
     if (updates.parsedData) {
-      updates.status = "completed";
+      // 修改过的字段来源记为 manual，未提交二维码解码结果时保留原值
+      updates.parsedData = {
+        ...updates.parsedData,
+        invoiceQr: updates.parsedData.invoiceQr ?? document.parsedData?.invoiceQr,
+        fieldSources: markEditedFieldSources(document.parsedData, updates.parsedData),
+      };
+      updates.status = document.status === "needs_review" ? "needs_review" : "completed";
       updates.metadata = {
         ...document.metadata,
         aiParsedAt: new Date(),
@@ -126,26 +184,49 @@ export async function PUT(
 
     const updatedDocument = await Document.findByIdAndUpdate(
       id,
-      { $set: updates },
+      { $set: updates, ...(Object.keys(unset).length > 0 && { $unset: unset }) },
       { new: true }
     );
 
+    // 保存人工修改版本
+    const revision =
+      updates.parsedData || updates.documentType
+        ? await recordRevision(updatedDocument, "manual", {
+            user: permissionResult.user,
+            reason: typeof body.reason === "string" ? body.reason.trim() || undefined : undefined,
+          })
+        : undefined;
+
     // 记录更新日志
     await AuditLog.log(
       id,
       document.fileName,
       "update",
-      { updates }
+      { updates, ...(revision && { revision: revision.revision }) },
+      permissionResult.user.id
     );
 
+    // 发票信息变更后重新检查是否重复，并登记往来单位
+    if (updates.parsedData || updates.documentType) {
+      await validateDocument(updatedDocument);
+      await updateFieldConfidence(updatedDocument);
+      await checkDuplicateInvoice(updatedDocument);
+      await recheckDuplicatesOf(id);
+      await syncInvoiceCounterparties(updatedDocument);
+    }
+
     return NextResponse.json({
       success: true,
       data: {
         id: updatedDocument!._id,
         fileName: updatedDocument!.fileName,
         documentType: updatedDocument!.documentType,
+        customType: updatedDocument!.customType,
         status: updatedDocument!.status,
         parsedData: updatedDocument!.parsedData,
+        duplicateOf: updatedDocument!.duplicateOf,
+        validation: updatedDocument!.validation,
+        verification: updatedDocument!.verification,
         updatedAt: updatedDocument!.updatedAt,
       },
     });
@@ -197,6 +278,9 @@ export async function DELETE(
     // 删除文档
     await Document.findByIdAndDelete(id);
 
+    // 重新关联以该文档为原始文档的疑似重复文档
+    await recheckDuplicatesOf(id);
+
     // TODO: 删除物理文件
     // await deleteFile(document.fileName);
 
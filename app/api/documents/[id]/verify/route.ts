@@ -0,0 +1,92 @@
+/**
+ * 发票查验 API 路由
+ * POST /api/documents/[id]/verify - 调用查验服务核验发票真伪
+ * 需要权限: canReprocessDocuments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { isVerificationEnabled } from "@/lib/services/verificationProvider";
+import { buildVerificationRequest, verifyDocument } from "@/lib/services/invoiceVerification";
+
+/**
+ * POST 查验发票
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canReprocessDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  if (!isVerificationEnabled()) {
+    return NextResponse.json(
+      { error: "未启用发票查验服务" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+
+    await connectToDatabase();
+
+    const document = await Document.findById(id);
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (document.documentType !== "invoice" || !document.parsedData?.invoice) {
+      return NextResponse.json(
+        { error: "只能查验已解析的发票" },
+        { status: 400 }
+      );
+    }
+
+    const { request: verificationRequest, missing } = buildVerificationRequest(
+      document.parsedData.invoice
+    );
+    if (!verificationRequest) {
+      return NextResponse.json(
+        { error: "发票信息不完整，无法查验", missing },
+        { status: 400 }
+      );
+    }
+
+    const verification = await verifyDocument(
+      document,
+      verificationRequest,
+      permissionResult.user.id
+    );
+
+    // 查验服务调用失败时结果仍已保存，便于排查
+    if (verification.status === "error") {
+      return NextResponse.json(
+        { error: "发票查验失败", message: verification.message, data: verification },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: verification,
+    });
+  } catch (error: any) {
+    console.error("Invoice verification API error:", error);
+    return NextResponse.json(
+      {
+        error: "发票查验失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * 文档处理事件流 API 路由（Server-Sent Events）
+ * GET /api/documents/events
+ * GET /api/documents/events?ids=id1,id2 - 只订阅指定文档（如一批上传的文档）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permission";
+import {
+  createDocumentEventStream,
+  findInvalidDocumentId,
+  EVENT_STREAM_HEADERS,
+} from "@/lib/services/documentEvents";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET 订阅所有文档（或指定文档）的处理阶段变化
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  const ids = request.nextUrl.searchParams.get("ids");
+  const documentIds = ids
+    ? ids.split(",").map((id) => id.trim()).filter(Boolean)
+    : undefined;
+
+  const invalidId = findInvalidDocumentId(documentIds);
+  if (invalidId) {
+    return NextResponse.json(
+      { error: "参数错误", message: `无效的文档ID: ${invalidId}` },
+      { status: 400 }
+    );
+  }
+
+  const stream = createDocumentEventStream({
+    documentIds,
+    lastEventId: request.headers.get("last-event-id"),
+    signal: request.signal,
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
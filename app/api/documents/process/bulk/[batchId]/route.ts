@@ -0,0 +1,81 @@
+/**
+ * 批次进度 API 路由
+ * GET /api/documents/process/bulk/[batchId]
+ * 需要权限: canReprocessDocuments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectToDatabase } from "@/lib/mongodb";
+import { ProcessingBatch, ProcessingJob } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { getBatchProgress } from "@/lib/services/jobQueue";
+
+/**
+ * GET 获取批次进度（含失败任务明细）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canReprocessDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const { batchId } = await params;
+
+    if (!Types.ObjectId.isValid(batchId)) {
+      return NextResponse.json(
+        { error: "批次不存在" },
+        { status: 404 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const batch = await ProcessingBatch.findById(batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: "批次不存在" },
+        { status: 404 }
+      );
+    }
+
+    const [progress, failedJobs] = await Promise.all([
+      getBatchProgress(batchId),
+      ProcessingJob.find({ batchId, status: { $in: ["failed", "dead_letter"] } })
+        .select("documentId fileName status lastError attempts")
+        .sort({ updatedAt: -1 })
+        .limit(100)
+        .lean(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...batch.toJSON(),
+        progress,
+        failedJobs: failedJobs.map((job: any) => ({
+          id: job._id,
+          documentId: job.documentId,
+          fileName: job.fileName,
+          status: job.status,
+          attempts: job.attempts,
+          lastError: job.lastError,
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error("Batch progress API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取批次进度失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
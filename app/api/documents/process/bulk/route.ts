@@ -0,0 +1,179 @@
+/**
+ * 批量重新处理 API 路由
+ * POST /api/documents/process/bulk - 按筛选条件批量创建处理任务
+ * GET /api/documents/process/bulk - 获取批次列表
+ * 需要权限: canReprocessDocuments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document, ProcessingBatch } from "@/models";
+import { env } from "@/lib/env";
+import { requirePermission } from "@/lib/permission";
+import {
+  parseDocumentFilters,
+  buildDocumentQuery,
+  validateDocumentFilters,
+} from "@/lib/documentQuery";
+import { validateProcessOptions } from "@/lib/services/documentProcessor";
+import { enqueueBatch, getBatchProgress } from "@/lib/services/jobQueue";
+
+/**
+ * 批次列表默认和最大条数
+ */
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * POST 批量重新处理
+ */
+export async function POST(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canReprocessDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const body = await request.json();
+    const { filters = {}, dryRun = false } = body;
+    const requested = parseInt(body.concurrency ?? env.bulkDefaultConcurrency, 10);
+
+    if (isNaN(requested) || requested < 1) {
+      return NextResponse.json(
+        { error: "concurrency 必须为正整数" },
+        { status: 400 }
+      );
+    }
+
+    // 超过上限时按上限执行，避免单个批次占满 OCR / LLM 服务
+    const concurrency = Math.min(requested, env.bulkMaxConcurrency);
+
+    const { options, error: optionsError } = validateProcessOptions(body);
+    if (optionsError) {
+      return NextResponse.json(
+        { error: optionsError },
+        { status: 400 }
+      );
+    }
+
+    const filtersError = validateDocumentFilters(filters);
+    if (filtersError) {
+      return NextResponse.json(
+        { error: filtersError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const query = buildDocumentQuery(parseDocumentFilters(filters));
+
+    // 跳过 OCR 时只处理已有 OCR 结果的文档
+    if (options?.stages && !options.stages.includes("ocr")) {
+      query["ocrResult.mdResults"] = { $exists: true, $ne: null };
+    }
+
+    const matched = await Document.countDocuments(query);
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        data: { matched },
+      });
+    }
+
+    if (matched === 0) {
+      return NextResponse.json(
+        { error: "没有符合条件的文档" },
+        { status: 400 }
+      );
+    }
+
+    if (matched > env.bulkMaxDocuments) {
+      return NextResponse.json(
+        {
+          error: "符合条件的文档数超过单批上限，请缩小筛选范围",
+          matched,
+          maxDocuments: env.bulkMaxDocuments,
+        },
+        { status: 400 }
+      );
+    }
+
+    const batch = await enqueueBatch(query, {
+      ...options,
+      filters,
+      concurrency,
+      requestedBy: permissionResult.user.id,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          batchId: batch._id,
+          matched: batch.matched,
+          enqueued: batch.enqueued,
+          skipped: batch.skipped,
+          concurrency: batch.concurrency,
+        },
+        message: `已创建 ${batch.enqueued} 个处理任务`,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Bulk process API error:", error);
+    return NextResponse.json(
+      {
+        error: "批量处理失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET 获取批次列表
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canReprocessDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const limit = Math.min(
+      Math.max(parseInt(request.nextUrl.searchParams.get("limit") || "", 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    await connectToDatabase();
+
+    const batches = await ProcessingBatch.find().sort({ createdAt: -1 }).limit(limit);
+    const progress = await Promise.all(
+      batches.map((batch) => getBatchProgress(batch._id.toString()))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        batches: batches.map((batch, index) => ({
+          ...batch.toJSON(),
+          progress: progress[index],
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error("Bulk batches API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取批次列表失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
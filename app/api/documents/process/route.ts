@@ -1,119 +1,39 @@
 /**
  * 文档处理 API 路由
- * POST /api/documents/process
- * 执行完整的 OCR + AI 解析流程
+ * POST /api/documents/process - 创建 OCR + AI 解析任务（可指定步骤）
+ * GET /api/documents/process?id= - 获取处理状态（含任务状态）
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/mongodb";
-import { Document, AuditLog } from "@/models";
-import { ocrFromUrl } from "@/lib/services/glmOcr";
-import { smartParse, parseByType, detectDocumentType } from "@/lib/services/glmParser";
-import { DocumentType } from "@/types/document";
+import { Document, ProcessingJob } from "@/models";
+import { enqueueDocument } from "@/lib/services/jobQueue";
+import { validateProcessOptions } from "@/lib/services/documentProcessor";
 import { requirePermission } from "@/lib/permission";
 
 /**
- * 处理单个文档
+ * 任务状态摘要
  */
-async function processDocument(
-  documentId: string
-): Promise<{ success: boolean; message?: string; error?: string }> {
-  try {
-    // 连接数据库
-    await connectToDatabase();
-
-    // 获取文档
-    const document = await Document.findById(documentId);
-    if (!document) {
-      return { success: false, error: "文档不存在" };
-    }
-
-    // 记录开始处理
-    await AuditLog.log(
-      documentId,
-      document.fileName,
-      "reparse",
-      { stage: "started" }
-    );
-
-    // 步骤 1: OCR 识别
-    let ocrResult;
-    try {
-      ocrResult = await ocrFromUrl(document.fileUrl);
-      await document.updateOcrResult({
-        mdResults: ocrResult.mdResults,
-        layoutDetails: ocrResult.layoutDetails,
-        numPages: ocrResult.numPages,
-      });
-      await AuditLog.log(
-        documentId,
-        document.fileName,
-        "reparse",
-        { stage: "ocr_completed", numPages: ocrResult.numPages }
-      );
-    } catch (error: any) {
-      await document.updateStatus("failed", {
-        message: error.message,
-        stage: "ocr",
-      });
-      await AuditLog.log(
-        documentId,
-        document.fileName,
-        "reparse",
-        { stage: "ocr_failed", error: error.message }
-      );
-      return { success: false, error: `OCR 失败: ${error.message}` };
-    }
-
-    // 步骤 2: AI 解析
-    let parsedData;
-    let detectedType: DocumentType = document.documentType;
-
-    try {
-      // 如果未指定类型或为 "other"，先自动识别
-      if (document.documentType === "other") {
-        const detection = await detectDocumentType(ocrResult.mdResults);
-        detectedType = detection.type;
-      }
-
-      // 根据类型解析
-      const result = await parseByType(ocrResult.mdResults, detectedType);
-      parsedData = { [detectedType]: result };
-
-      await document.updateParsedData(parsedData, detectedType);
-      await AuditLog.log(
-        documentId,
-        document.fileName,
-        "reparse",
-        { stage: "ai_parse_completed", documentType: detectedType }
-      );
-    } catch (error: any) {
-      await document.updateStatus("failed", {
-        message: error.message,
-        stage: "ai_parse",
-      });
-      await AuditLog.log(
-        documentId,
-        document.fileName,
-        "reparse",
-        { stage: "ai_parse_failed", error: error.message }
-      );
-      return { success: false, error: `AI 解析失败: ${error.message}` };
-    }
-
-    return {
-      success: true,
-      message: `处理成功，识别为: ${detectedType}`,
-    };
-  } catch (error: any) {
-    console.error("Document processing error:", error);
-    return {
-      success: false,
-      error: error.message || "处理失败",
-    };
-  }
+function formatJob(job: any) {
+  if (!job) return null;
+
+  return {
+    id: job._id,
+    status: job.status,
+    options: job.options,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAt: job.runAt,
+    leaseExpiresAt: job.leaseExpiresAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    lastError: job.lastError,
+    attemptHistory: job.attemptHistory,
+    createdAt: job.createdAt,
+  };
 }
 
+
 /**
  * POST 处理文档
  */
@@ -135,15 +55,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 异步处理文档
-    processDocument(documentId).catch((error) => {
-      console.error("Background processing error:", error);
+    const { options, error: optionsError } = validateProcessOptions(body);
+    if (optionsError) {
+      return NextResponse.json(
+        { error: optionsError },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const document = await Document.findById(documentId);
+    if (!document) {
+      return NextResponse.json(
+        { error: "文档不存在" },
+        { status: 404 }
+      );
+    }
+
+    // 跳过 OCR 时需要已保存的 OCR 结果
+    if (options?.stages && !options.stages.includes("ocr") && !document.ocrResult?.mdResults) {
+      return NextResponse.json(
+        { error: "文档没有已保存的 OCR 结果，请包含 ocr 步骤" },
+        { status: 400 }
+      );
+    }
+
+    // 创建处理任务（由后台 worker 执行）
+    const { job, created } = await enqueueDocument(documentId, {
+      ...options,
+      requestedBy: permissionResult.user.id,
     });
 
     return NextResponse.json({
       success: true,
-      message: "文档处理已开始",
+      message: created ? "文档处理已开始" : "文档已在处理队列中",
       documentId,
+      job: formatJob(job),
     });
   } catch (error: any) {
     console.error("Process API error:", error);
@@ -180,7 +128,10 @@ export async function GET(request: NextRequest) {
 
     await connectToDatabase();
 
-    const document = await Document.findById(documentId);
+    const [document, job] = await Promise.all([
+      Document.findById(documentId),
+      ProcessingJob.getLatestForDocument(documentId),
+    ]);
 
     if (!document) {
       return NextResponse.json(
@@ -194,10 +145,12 @@ export async function GET(request: NextRequest) {
       fileName: document.fileName,
       status: document.status,
       documentType: document.documentType,
+      customType: document.customType,
       uploadDate: document.uploadDate,
       ocrProcessedAt: document.metadata.ocrProcessedAt,
       aiParsedAt: document.metadata.aiParsedAt,
       error: document.error,
+      job: formatJob(job),
     });
   } catch (error: any) {
     console.error("Get status API error:", error);
@@ -6,9 +6,11 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/mongodb";
-import { Document, DocumentType, DocumentStatus, AuditLog } from "@/models";
+import { Document, AuditLog } from "@/models";
 import { DocumentQuery } from "@/types/document";
 import { requirePermission } from "@/lib/permission";
+import { parseDocumentFilters, buildDocumentQuery } from "@/lib/documentQuery";
+import { recheckDuplicatesOf } from "@/lib/services/invoiceDuplicates";
 
 /**
  * 解析查询参数
@@ -17,15 +19,7 @@ function parseQueryParams(request: NextRequest): DocumentQuery & { page: number;
   const searchParams = request.nextUrl.searchParams;
 
   return {
-    documentType: searchParams.get("documentType") as DocumentType | undefined,
-    status: searchParams.get("status") as DocumentStatus | undefined,
-    startDate: searchParams.get("startDate")
-      ? new Date(searchParams.get("startDate")!)
-      : undefined,
-    endDate: searchParams.get("endDate")
-      ? new Date(searchParams.get("endDate")!)
-      : undefined,
-    search: searchParams.get("search") || undefined,
+    ...parseDocumentFilters(Object.fromEntries(searchParams)),
     page: parseInt(searchParams.get("page") || "1", 10),
     limit: parseInt(searchParams.get("limit") || "20", 10),
     sortBy: (searchParams.get("sortBy") as "uploadDate" | "fileName" | "documentType" | "status") || "uploadDate",
@@ -33,51 +27,6 @@ function parseQueryParams(request: NextRequest): DocumentQuery & { page: number;
   };
 }
 
-/**
- * 构建查询条件
- */
-function buildQuery(params: DocumentQuery): any {
-  const query: any = {};
-
-  // 文档类型筛选
-  if (params.documentType) {
-    const types = Array.isArray(params.documentType)
-      ? params.documentType
-      : [params.documentType];
-    query.documentType = { $in: types };
-  }
-
-  // 状态筛选
-  if (params.status) {
-    query.status = params.status;
-  }
-
-  // 日期范围筛选
-  if (params.startDate || params.endDate) {
-    query.uploadDate = {};
-    if (params.startDate) {
-      query.uploadDate.$gte = params.startDate;
-    }
-    if (params.endDate) {
-      query.uploadDate.$lte = params.endDate;
-    }
-  }
-
-  // 搜索关键词
-  if (params.search) {
-    query.$or = [
-      { fileName: { $regex: params.search, $options: "i" } },
-      { "ocrResult.mdResults": { $regex: params.search, $options: "i" } },
-      { "parsedData.invoice.invoiceNo": { $regex: params.search, $options: "i" } },
-      { "parsedData.invoice.sellerName": { $regex: params.search, $options: "i" } },
-      { "parsedData.invoice.buyerName": { $regex: params.search, $options: "i" } },
-      { "parsedData.resume.name": { $regex: params.search, $options: "i" } },
-    ];
-  }
-
-  return query;
-}
-
 /**
  * GET 获取文档列表
  */
@@ -95,7 +44,7 @@ export async function GET(request: NextRequest) {
     await connectToDatabase();
 
     // 构建查询
-    const query = buildQuery(params);
+    const query = buildDocumentQuery(params);
 
     // 构建排序
     const sort: any = {};
@@ -151,9 +100,13 @@ export async function GET(request: NextRequest) {
           fileUrl: doc.fileUrl,
           fileType: doc.fileType,
           documentType: doc.documentType,
+          customType: doc.customType,
           status: doc.status,
           uploadDate: doc.uploadDate,
           metadata: doc.metadata,
+          duplicateOf: doc.duplicateOf,
+          validation: doc.validation,
+          verification: doc.verification,
           // 包含部分解析数据用于预览
           preview: {
             invoice: doc.parsedData?.invoice
@@ -232,6 +185,11 @@ export async function DELETE(request: NextRequest) {
     // 删除文档
     const result = await Document.deleteMany({ _id: { $in: ids } });
 
+    // 重新关联被删除文档的疑似重复文档
+    for (const doc of documents) {
+      await recheckDuplicatesOf(doc._id.toString());
+    }
+
     // 记录审计日志
     for (const doc of documents) {
       await AuditLog.log(
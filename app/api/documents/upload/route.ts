@@ -1,6 +1,7 @@
 /**
  * 文档上传 API 路由
  * POST /api/documents/upload
+ * 表单字段：file、documentType（可选）、customType（documentType 为 custom 时必填）、bypassCache
  * 需要权限: canUpload
  */
 
@@ -10,8 +11,9 @@ import { Document, AuditLog } from "@/models";
 import { env } from "@/lib/env";
 import { saveFile } from "@/lib/storage/fileStorage";
 import { requirePermission } from "@/lib/permission";
-import { ocrFromUrl } from "@/lib/services/glmOcr";
-import { parseByType, detectDocumentType } from "@/lib/services/glmParser";
+import { enqueueDocument } from "@/lib/services/jobQueue";
+import { normalizeUploadMimeType } from "@/lib/services/eInvoiceParser";
+import { getEnabledType } from "@/lib/services/customDocumentTypes";
 
 /**
  * 验证文件类型
@@ -27,67 +29,6 @@ function validateFileSize(size: number): boolean {
   return size <= env.maxFileSize;
 }
 
-/**
- * 异步处理文档
- */
-async function processDocumentAsync(documentId: string) {
-  try {
-    const document = await Document.findById(documentId);
-    if (!document) return;
-
-    // 步骤 1: OCR 识别
-    let ocrResult;
-    try {
-      // 直接使用 fileUrl 进行 OCR
-      ocrResult = await ocrFromUrl(document.fileUrl);
-      await document.updateOcrResult({
-        mdResults: ocrResult.mdResults,
-        layoutDetails: ocrResult.layoutDetails,
-        numPages: ocrResult.numPages,
-      });
-    } catch (error: any) {
-      await document.updateStatus("failed", {
-        message: error.message,
-        stage: "ocr",
-      });
-      await AuditLog.log(
-        documentId,
-        document.fileName,
-        "reparse",
-        { stage: "ocr_failed", error: error.message }
-      );
-      return;
-    }
-
-    // 步骤 2: AI 解析
-    try {
-      console.log("OCR Result:", ocrResult);
-      const detectedType = document.documentType === "other"
-        ? (await detectDocumentType(ocrResult.mdResults)).type
-        : document.documentType;
-
-      const result = await parseByType(ocrResult.mdResults, detectedType);
-      const parsedData = { [detectedType]: result };
-
-      await document.updateParsedData(parsedData, detectedType);
-    } catch (error: any) {
-      await document.updateStatus("failed", {
-        message: error.message,
-        stage: "ai_parse",
-      });
-      await AuditLog.log(
-        documentId,
-        document.fileName,
-        "reparse",
-        { stage: "ai_parse_failed", error: error.message }
-      );
-      return;
-    }
-  } catch (error: any) {
-    console.error("Document processing error:", error);
-  }
-}
-
 /**
  * POST 处理文件上传
  */
@@ -106,6 +47,8 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get("file") as File;
     const documentType = formData.get("documentType") as string;
+    const customType = (formData.get("customType") as string) || undefined;
+    const bypassCache = formData.get("bypassCache") === "true";
 
     // 验证文件
     if (!file) {
@@ -115,8 +58,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 验证文件类型
-    if (!validateFileType(file.type)) {
+    // 自定义文档类型须已启用
+    if (documentType === "custom") {
+      try {
+        await getEnabledType(customType);
+      } catch (error: any) {
+        return NextResponse.json(
+          { error: "参数错误", message: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 验证文件类型（OFD 等浏览器无法识别的类型按扩展名补全）
+    const fileType = normalizeUploadMimeType(file.name, file.type);
+    if (!validateFileType(fileType)) {
       return NextResponse.json(
         {
           error: "不支持的文件类型",
@@ -143,17 +99,19 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(bytes);
 
     // 保存文件
-    const uploadedFile = await saveFile(buffer, file.name, file.type);
+    const uploadedFile = await saveFile(buffer, file.name, fileType);
 
     // 创建文档记录
     const document = await Document.create({
       fileName: file.name,
       fileUrl: uploadedFile.url,
-      fileType: file.type,
+      fileType,
       documentType: documentType || "other",
+      customType: documentType === "custom" ? customType : undefined,
       uploadDate: new Date(),
       status: "processing",
       filePath: uploadedFile.path, // 直接存储文件路径
+      fileHash: uploadedFile.sha256,
       metadata: {
         fileSize: file.size,
       },
@@ -164,12 +122,13 @@ export async function POST(request: NextRequest) {
       document._id.toString(),
       file.name,
       "upload",
-      { fileSize: file.size, fileType: file.type }
+      { fileSize: file.size, fileType }
     );
 
-    // 自动触发处理（异步，不阻塞响应）
-    processDocumentAsync(document._id.toString()).catch((error) => {
-      console.error("Background processing error:", error);
+    // 创建处理任务（由后台 worker 执行，不阻塞响应）
+    const { job } = await enqueueDocument(document._id.toString(), {
+      requestedBy: permissionResult.user.id,
+      bypassCache,
     });
 
     return NextResponse.json(
@@ -181,9 +140,11 @@ export async function POST(request: NextRequest) {
           fileUrl: document.fileUrl,
           fileType: document.fileType,
           documentType: document.documentType,
+          customType: document.customType,
           status: document.status,
           uploadDate: document.uploadDate,
         },
+        jobId: job._id,
         message: "文件上传成功，正在处理...",
       },
       { status: 201 }
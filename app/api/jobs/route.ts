@@ -0,0 +1,69 @@
+/**
+ * 处理任务列表 API 路由
+ * GET /api/jobs?status=dead_letter
+ * 需要权限: canReprocessDocuments
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { ProcessingJob, JobStatus } from "@/models";
+import { requirePermission } from "@/lib/permission";
+
+/**
+ * GET 获取任务列表（支持按状态、文档筛选）
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canReprocessDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status") as JobStatus | null;
+    const documentId = searchParams.get("documentId");
+    const page = parseInt(searchParams.get("page") || "1", 10);
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+
+    await connectToDatabase();
+
+    const query: any = {};
+    if (status) {
+      query.status = status;
+    }
+    if (documentId) {
+      query.documentId = documentId;
+    }
+
+    const [jobs, total] = await Promise.all([
+      ProcessingJob.find(query)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ProcessingJob.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobs: jobs.map((job) => job.toJSON()),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error("Jobs API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取任务列表失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
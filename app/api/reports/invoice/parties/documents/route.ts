@@ -0,0 +1,100 @@
+/**
+ * 往来单位发票明细 API 路由
+ * GET /api/reports/invoice/parties/documents?role=seller&key=id:91110000600037341L&page=1
+ * 下钻查看往来单位分析中某一分组（key 取自分析结果）在当前筛选条件下的发票
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { CounterpartyRole } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { parseInvoiceReportFilters } from "@/lib/reportQuery";
+import { findPartyDocuments } from "@/lib/services/partyAnalytics";
+
+/**
+ * 每页条数默认值与上限
+ */
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET 往来单位发票明细
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewReports");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const { filters, error } = parseInvoiceReportFilters(searchParams);
+    if (!filters) {
+      return NextResponse.json(
+        { error: "参数错误", message: error },
+        { status: 400 }
+      );
+    }
+
+    const role = (searchParams.get("role") || "seller") as CounterpartyRole;
+    if (role !== "seller" && role !== "buyer") {
+      return NextResponse.json(
+        { error: "参数错误", message: "role 可选 seller、buyer" },
+        { status: 400 }
+      );
+    }
+
+    const key = searchParams.get("key");
+    if (!key) {
+      return NextResponse.json(
+        { error: "缺少分组 key" },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    await connectToDatabase();
+
+    const { documents, total } = await findPartyDocuments(filters, role, key, page, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documents: documents.map((doc: any) => ({
+          id: doc._id,
+          fileName: doc.fileName,
+          uploadDate: doc.uploadDate,
+          invoiceNo: doc.parsedData?.invoice?.invoiceNo,
+          invoiceDate: doc.parsedData?.invoice?.invoiceDate,
+          amount: doc.parsedData?.invoice?.amount,
+          taxAmount: doc.parsedData?.invoice?.taxAmount,
+          sellerName: doc.parsedData?.invoice?.sellerName,
+          buyerName: doc.parsedData?.invoice?.buyerName,
+          duplicateOf: doc.duplicateOf,
+          verificationStatus: doc.verification?.status,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error("Party documents API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取往来单位发票失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
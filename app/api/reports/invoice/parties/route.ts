@@ -0,0 +1,95 @@
+/**
+ * 往来单位金额分析 API 路由
+ * GET /api/reports/invoice/parties?role=seller&top=10&compare=previous&startDate=2024-01-01&endDate=2024-03-31
+ * 按销售方或购买方（归并到往来单位）汇总发票金额和税额，支持 Top N 和环比 / 同比
+ * 日期筛选参数与发票报表一致（basis、startDate、endDate、includeDuplicates）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { CounterpartyRole } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import { parseInvoiceReportFilters } from "@/lib/reportQuery";
+import { analyzeParties, ComparisonMode } from "@/lib/services/partyAnalytics";
+
+/**
+ * Top N 默认值与上限
+ */
+const DEFAULT_TOP = 10;
+const MAX_TOP = 100;
+
+/**
+ * GET 往来单位金额分析
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewReports");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const { filters, error } = parseInvoiceReportFilters(searchParams);
+    if (!filters) {
+      return NextResponse.json(
+        { error: "参数错误", message: error },
+        { status: 400 }
+      );
+    }
+
+    const role = (searchParams.get("role") || "seller") as CounterpartyRole;
+    if (role !== "seller" && role !== "buyer") {
+      return NextResponse.json(
+        { error: "参数错误", message: "role 可选 seller、buyer" },
+        { status: 400 }
+      );
+    }
+
+    const compare = (searchParams.get("compare") || undefined) as ComparisonMode | undefined;
+    if (compare && compare !== "previous" && compare !== "year") {
+      return NextResponse.json(
+        { error: "参数错误", message: "compare 可选 previous（环比）、year（同比）" },
+        { status: 400 }
+      );
+    }
+    if (compare && !(filters.startDate && filters.endDate)) {
+      return NextResponse.json(
+        { error: "参数错误", message: "对比分析需要同时指定开始日期和结束日期" },
+        { status: 400 }
+      );
+    }
+
+    const top = Math.min(
+      Math.max(parseInt(searchParams.get("top") || String(DEFAULT_TOP), 10) || DEFAULT_TOP, 1),
+      MAX_TOP
+    );
+
+    await connectToDatabase();
+
+    const analysis = await analyzeParties(filters, role, top, compare);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        basis: filters.basis,
+        includeDuplicates: filters.includeDuplicates,
+        period: {
+          start: filters.startDate,
+          end: filters.endDate,
+        },
+        top,
+        ...analysis,
+      },
+    });
+  } catch (error: any) {
+    console.error("Party analytics API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取往来单位分析失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
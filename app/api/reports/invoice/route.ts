@@ -2,13 +2,23 @@
  * 发票报表 API 路由
  * GET /api/reports/invoice
  * 专门用于发票金额统计分析
+ * 默认不统计疑似重复发票，includeDuplicates=true 时包含
+ * basis 指定日期口径（invoice 开票日期 / upload 上传日期 / processed 处理日期），
+ * 日期筛选、发票列表排序和月度趋势均按该口径，日期按北京时间解析
+ * byVendor 按往来单位（销售方税号，已合并的按合并后单位）汇总金额，而非原始销售方名称
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/mongodb";
 import { Document } from "@/models";
 import { requirePermission } from "@/lib/permission";
-import { startOfDay, endOfDay, startOfMonth, endOfMonth, format } from "date-fns";
+import { groupByCounterparty } from "@/lib/services/counterparties";
+import {
+  parseInvoiceReportFilters,
+  buildInvoiceReportMatch,
+  reportMonthExpression,
+  REPORT_DATE_FIELDS,
+} from "@/lib/reportQuery";
 
 /**
  * GET 发票报表数据
@@ -21,32 +31,25 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const startDate = searchParams.get("startDate");
-    const endDate = searchParams.get("endDate");
+    const { filters, error } = parseInvoiceReportFilters(request.nextUrl.searchParams);
+    if (!filters) {
+      return NextResponse.json(
+        { error: "参数错误", message: error },
+        { status: 400 }
+      );
+    }
 
     await connectToDatabase();
 
     // 构建查询条件
     const matchQuery: any = {
-      documentType: "invoice",
-      status: "completed",
+      ...buildInvoiceReportMatch(filters),
       "parsedData.invoice.amount": { $exists: true, $ne: null },
     };
-
-    // 添加日期范围
-    if (startDate || endDate) {
-      matchQuery["parsedData.invoice.invoiceDate"] = {};
-      if (startDate) {
-        matchQuery["parsedData.invoice.invoiceDate"].$gte = startDate;
-      }
-      if (endDate) {
-        matchQuery["parsedData.invoice.invoiceDate"].$lte = endDate;
-      }
-    }
+    const dateField = REPORT_DATE_FIELDS[filters.basis];
 
     // 获取统计和发票列表
-    const [statsResult, invoices] = await Promise.all([
+    const [statsResult, invoices, duplicateCount, sellerRows] = await Promise.all([
       // 统计数据
       Document.aggregate([
         { $match: matchQuery },
@@ -63,12 +66,41 @@ export async function GET(request: NextRequest) {
       ]),
       // 发票列表
       Document.find(matchQuery)
-        .select("parsedData.invoice")
-        .sort({ "parsedData.invoice.invoiceDate": -1 })
+        .select("parsedData.invoice duplicateOf uploadDate metadata.aiParsedAt")
+        .sort({ [dateField]: -1 })
         .limit(100)
         .lean(),
+      // 疑似重复发票数量
+      Document.countDocuments({ ...matchQuery, duplicateOf: { $exists: true } }),
+      // 按原始销售方税号和名称聚合
+      Document.aggregate([
+        { $match: matchQuery },
+        {
+          $group: {
+            _id: {
+              taxId: "$parsedData.invoice.sellerTaxId",
+              name: "$parsedData.invoice.sellerName",
+            },
+            count: { $sum: 1 },
+            amount: { $sum: "$parsedData.invoice.amount" },
+            taxAmount: { $sum: "$parsedData.invoice.taxAmount" },
+          },
+        },
+      ]),
     ]);
 
+    // 归并到往来单位
+    const byVendor = await groupByCounterparty(
+      sellerRows.map((row: any) => ({
+        taxId: row._id.taxId,
+        name: row._id.name,
+        count: row.count,
+        amount: row.amount,
+        taxAmount: row.taxAmount,
+      })),
+      "未知销售方"
+    );
+
     const stats = statsResult[0] || {
       count: 0,
       totalAmount: 0,
@@ -79,26 +111,28 @@ export async function GET(request: NextRequest) {
 
     // 处理发票列表
     const invoiceList = invoices.map((doc) => ({
+      id: doc._id,
       invoiceNo: doc.parsedData?.invoice?.invoiceNo,
       invoiceCode: doc.parsedData?.invoice?.invoiceCode,
       invoiceDate: doc.parsedData?.invoice?.invoiceDate,
       amount: doc.parsedData?.invoice?.amount,
       taxAmount: doc.parsedData?.invoice?.taxAmount,
       sellerName: doc.parsedData?.invoice?.sellerName,
+      sellerTaxId: doc.parsedData?.invoice?.sellerTaxId,
       buyerName: doc.parsedData?.invoice?.buyerName,
+      duplicateOf: doc.duplicateOf,
+      uploadDate: doc.uploadDate,
+      processedAt: doc.metadata?.aiParsedAt,
     }));
 
-    // 获取月度趋势
+    // 获取月度趋势（按日期口径的北京时间月份分组）
     const monthlyTrend = await Document.aggregate([
       {
-        $match: matchQuery,
+        $match: { ...matchQuery, [dateField]: { ...matchQuery[dateField], $ne: null } },
       },
       {
         $group: {
-          _id: {
-            year: { $year: "$uploadDate" },
-            month: { $month: "$uploadDate" },
-          },
+          _id: reportMonthExpression(filters.basis),
           amount: {
             $sum: "$parsedData.invoice.amount",
           },
@@ -106,15 +140,12 @@ export async function GET(request: NextRequest) {
         },
       },
       {
-        $sort: {
-          "_id.year": 1,
-          "_id.month": 1,
-        },
+        $sort: { _id: 1 },
       },
     ]);
 
     const formattedTrend = monthlyTrend.map((item: any) => ({
-      month: `${item._id.year}-${String(item._id.month).padStart(2, "0")}`,
+      month: item._id,
       amount: item.amount,
       count: item.count,
     }));
@@ -127,7 +158,15 @@ export async function GET(request: NextRequest) {
         avgAmount: stats.avgAmount,
         minAmount: stats.minAmount,
         maxAmount: stats.maxAmount,
+        duplicateCount,
+        includeDuplicates: filters.includeDuplicates,
+        basis: filters.basis,
+        period: {
+          start: filters.startDate,
+          end: filters.endDate,
+        },
         monthlyTrend: formattedTrend,
+        byVendor,
         invoices: invoiceList,
       },
     });
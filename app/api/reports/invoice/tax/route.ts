@@ -0,0 +1,173 @@
+/**
+ * 发票税额汇总 API 路由
+ * GET /api/reports/invoice/tax?startDate=2024-01-01&endDate=2024-01-31&format=json
+ * 按税率、发票种类（专票 / 普票）和开票月份汇总进项税额，区分可抵扣与不可抵扣
+ * 日期筛选与发票报表一致（basis 指定日期口径，默认开票日期），按月汇总始终按开票月份
+ * format=csv / xlsx 时下载文件（需要导出权限）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document } from "@/models";
+import { requirePermission } from "@/lib/permission";
+import {
+  summarizeInvoiceTax,
+  formatTaxRate,
+  INVOICE_KIND_LABELS,
+  TaxSummary,
+  TaxTotals,
+} from "@/lib/services/invoiceTax";
+import { buildCsv, buildXlsx, CellValue } from "@/lib/spreadsheet";
+import {
+  parseInvoiceReportFilters,
+  buildInvoiceReportMatch,
+  reportPeriodLabel,
+} from "@/lib/reportQuery";
+export const dynamic = "force-dynamic";
+
+const TOTAL_HEADERS = ["发票数", "金额（不含税）", "税额", "价税合计"];
+
+function totalCells(totals: TaxTotals): CellValue[] {
+  return [totals.count, totals.amountWithoutTax, totals.taxAmount, totals.amount];
+}
+
+function formatMonth(month: string): string {
+  return month === "unknown" ? "未知" : month;
+}
+
+/**
+ * 明细表：月份 × 发票种类 × 税率 × 是否可抵扣
+ */
+function detailSheet(summary: TaxSummary) {
+  return {
+    name: "汇总明细",
+    headers: ["开票月份", "发票种类", "税率", "是否可抵扣", ...TOTAL_HEADERS],
+    rows: summary.rows.map((row) => [
+      formatMonth(row.month),
+      INVOICE_KIND_LABELS[row.kind],
+      formatTaxRate(row.taxRate),
+      row.deductible ? "可抵扣" : "不可抵扣",
+      ...totalCells(row),
+    ]),
+  };
+}
+
+/**
+ * GET 发票税额汇总
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewReports");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format") || "json";
+
+  if (!["json", "csv", "xlsx"].includes(format)) {
+    return NextResponse.json(
+      { error: "不支持的格式", message: "format 可选 json、csv、xlsx" },
+      { status: 400 }
+    );
+  }
+
+  if (format !== "json") {
+    const exportPermission = await requirePermission(request, "canExportDocuments");
+    if (exportPermission instanceof NextResponse) {
+      return exportPermission;
+    }
+  }
+
+  try {
+    const { filters, error } = parseInvoiceReportFilters(searchParams);
+    if (!filters) {
+      return NextResponse.json(
+        { error: "参数错误", message: error },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const documents = await Document.find(buildInvoiceReportMatch(filters))
+      .select("parsedData.invoice parsedData.invoiceQr.invoiceType verification.status")
+      .lean();
+
+    const summary = summarizeInvoiceTax(
+      documents.map((doc: any) => ({
+        id: doc._id.toString(),
+        invoice: doc.parsedData.invoice,
+        qrInvoiceType: doc.parsedData.invoiceQr?.invoiceType,
+        verificationStatus: doc.verification?.status,
+      }))
+    );
+
+    const period = reportPeriodLabel(filters);
+
+    if (format === "csv") {
+      const sheet = detailSheet(summary);
+      return new NextResponse(buildCsv(sheet.headers, sheet.rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="invoice-tax-${period}.csv"`,
+        },
+      });
+    }
+
+    if (format === "xlsx") {
+      const workbook = buildXlsx([
+        detailSheet(summary),
+        {
+          name: "按税率",
+          headers: ["税率", ...TOTAL_HEADERS],
+          rows: summary.byTaxRate.map((item) => [formatTaxRate(item.taxRate), ...totalCells(item)]),
+        },
+        {
+          name: "按发票种类",
+          headers: ["发票种类", ...TOTAL_HEADERS],
+          rows: summary.byKind.map((item) => [INVOICE_KIND_LABELS[item.kind], ...totalCells(item)]),
+        },
+        {
+          name: "按月份",
+          headers: ["开票月份", ...TOTAL_HEADERS],
+          rows: summary.byMonth.map((item) => [formatMonth(item.month), ...totalCells(item)]),
+        },
+        {
+          name: "抵扣汇总",
+          headers: ["类别", ...TOTAL_HEADERS],
+          rows: [
+            ["可抵扣", ...totalCells(summary.deductible)],
+            ["不可抵扣", ...totalCells(summary.nonDeductible)],
+            ["合计", ...totalCells(summary.total)],
+          ],
+        },
+      ]);
+
+      return new NextResponse(Buffer.from(workbook), {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="invoice-tax-${period}.xlsx"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        includeDuplicates: filters.includeDuplicates,
+        basis: filters.basis,
+        ...summary,
+      },
+    });
+  } catch (error: any) {
+    console.error("Invoice tax report API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取税额汇总失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -20,6 +20,7 @@ const DEFAULT_DATA = {
     byStatus: {
       completed: 0,
       processing: 0,
+      needs_review: 0,
       failed: 0,
     },
   },
@@ -113,6 +114,8 @@ async function getInvoiceStats(startDate: Date, endDate: Date) {
           documentType: "invoice",
           status: "completed",
           "parsedData.invoice.amount": { $exists: true, $ne: null },
+          // 疑似重复发票不计入金额
+          duplicateOf: { $exists: false },
         },
       },
       {
@@ -260,9 +263,10 @@ async function getOverviewStats(startDate: Date, endDate: Date) {
       }),
     ]);
 
-    const [completedCount, processingCount, failedCount] = await Promise.all([
+    const [completedCount, processingCount, needsReviewCount, failedCount] = await Promise.all([
       Document.countDocuments({ status: "completed" }),
       Document.countDocuments({ status: "processing" }),
+      Document.countDocuments({ status: "needs_review" }),
       Document.countDocuments({ status: "failed" }),
     ]);
 
@@ -274,6 +278,7 @@ async function getOverviewStats(startDate: Date, endDate: Date) {
       byStatus: {
         completed: completedCount,
         processing: processingCount,
+        needs_review: needsReviewCount,
         failed: failedCount,
       },
     };
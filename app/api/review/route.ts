@@ -0,0 +1,144 @@
+/**
+ * 人工审核队列 API 路由
+ * GET /api/review?status=pending&reason=ocr_confidence&documentType=invoice&page=1
+ * 列出待审核（needs_review）或已审核的文档，附当前审核阈值和待审核原因统计
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/mongodb";
+import { Document } from "@/models";
+import { DOCUMENT_TYPES, REVIEW_REASON_CODES, ReviewReasonCode } from "@/types/document";
+import { requirePermission } from "@/lib/permission";
+import { reviewThresholds } from "@/lib/services/reviewQueue";
+
+/**
+ * 队列筛选：pending 待审核；approved / corrected 按审核结论；reviewed 全部已审核
+ */
+const QUEUE_STATUSES = ["pending", "approved", "corrected", "reviewed"];
+
+/**
+ * 每页条数默认值与上限
+ */
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET 审核队列
+ */
+export async function GET(request: NextRequest) {
+  // 权限检查
+  const permissionResult = await requirePermission(request, "canViewDocuments");
+  if (permissionResult instanceof NextResponse) {
+    return permissionResult;
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status") || "pending";
+    const reason = searchParams.get("reason") as ReviewReasonCode | null;
+    const documentType = searchParams.get("documentType");
+
+    if (!QUEUE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "参数错误", message: `status 可选 ${QUEUE_STATUSES.join("、")}` },
+        { status: 400 }
+      );
+    }
+    if (reason && !REVIEW_REASON_CODES.includes(reason)) {
+      return NextResponse.json(
+        { error: "参数错误", message: `reason 可选 ${REVIEW_REASON_CODES.join("、")}` },
+        { status: 400 }
+      );
+    }
+    if (documentType && !DOCUMENT_TYPES.includes(documentType as any)) {
+      return NextResponse.json(
+        { error: "参数错误", message: "不支持的文档类型" },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    await connectToDatabase();
+
+    const query: any =
+      status === "pending"
+        ? { status: "needs_review" }
+        : {
+            "review.status":
+              status === "reviewed" ? { $in: ["approved", "corrected"] } : status,
+          };
+    if (reason) {
+      query["review.reasons.code"] = reason;
+    }
+    if (documentType) {
+      query.documentType = documentType;
+    }
+
+    // 待审核按标记时间先后处理，已审核按审核时间倒序
+    const sort: any =
+      status === "pending" ? { "review.flaggedAt": 1 } : { "review.reviewedAt": -1 };
+
+    const [documents, total, reasonCounts] = await Promise.all([
+      Document.find(query)
+        .select(
+          "fileName fileUrl fileType documentType status uploadDate metadata parsedData validation review duplicateOf"
+        )
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Document.countDocuments(query),
+      Document.aggregate([
+        { $match: { status: "needs_review" } },
+        { $unwind: "$review.reasons" },
+        { $group: { _id: "$review.reasons.code", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documents: documents.map((doc: any) => ({
+          id: doc._id,
+          fileName: doc.fileName,
+          fileUrl: doc.fileUrl,
+          fileType: doc.fileType,
+          documentType: doc.documentType,
+          status: doc.status,
+          uploadDate: doc.uploadDate,
+          confidence: doc.metadata?.confidence,
+          detection: doc.metadata?.detection,
+          source: doc.metadata?.source,
+          parsedData: doc.parsedData,
+          validation: doc.validation,
+          review: doc.review,
+          duplicateOf: doc.duplicateOf,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        pendingByReason: Object.fromEntries(
+          reasonCounts.map((item: any) => [item._id, item.count])
+        ),
+        thresholds: reviewThresholds(),
+      },
+    });
+  } catch (error: any) {
+    console.error("Review queue API error:", error);
+    return NextResponse.json(
+      {
+        error: "获取审核队列失败",
+        message: error.message,
+      },
+      { status: 500 }
+    );
+  }
+}
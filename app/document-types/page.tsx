@@ -0,0 +1,387 @@
+/**
+ * 自定义文档类型管理页面（需要 canManageSettings）
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, FileCog, Plus, Edit, Trash2, Save, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/lib/auth-context";
+import { CustomFieldSchema } from "@/types/document";
+
+/**
+ * 新建类型时的 Schema 示例
+ */
+const SCHEMA_TEMPLATE = JSON.stringify(
+  {
+    type: "object",
+    properties: {
+      contractNo: { type: "string", title: "合同编号" },
+      partyA: { type: "string", title: "甲方" },
+      partyB: { type: "string", title: "乙方" },
+      amount: { type: "number", title: "合同金额" },
+      signDate: { type: "string", format: "date", title: "签订日期" },
+    },
+    required: ["contractNo", "amount"],
+  },
+  null,
+  2
+);
+
+/**
+ * 空白表单
+ */
+const EMPTY_FORM = {
+  key: "",
+  name: "",
+  description: "",
+  jsonSchema: SCHEMA_TEMPLATE,
+  instructions: "",
+  enabled: true,
+};
+
+/**
+ * 类型列表项
+ */
+interface DocumentTypeItem {
+  id: string;
+  key: string;
+  name: string;
+  description?: string;
+  jsonSchema: CustomFieldSchema;
+  instructions?: string;
+  enabled: boolean;
+  // 使用该类型的文档数
+  documentCount: number;
+}
+
+/**
+ * 自定义文档类型管理页面
+ */
+export default function DocumentTypesPage() {
+  const { user, hasPermission } = useAuth();
+  const [types, setTypes] = useState<DocumentTypeItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  // 正在编辑的类型 key，null 表示新建
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [prompt, setPrompt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // 检查权限
+  useEffect(() => {
+    if (user && !hasPermission("canManageSettings")) {
+      window.location.href = "/";
+    }
+  }, [user, hasPermission]);
+
+  /**
+   * 获取类型列表
+   */
+  const fetchTypes = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/document-types");
+      const data = await res.json();
+      if (data.success) {
+        setTypes(data.data.types);
+      }
+    } catch (error) {
+      console.error("Failed to fetch document types:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchTypes();
+    }
+  }, [user]);
+
+  /**
+   * 新建类型
+   */
+  const startCreate = () => {
+    setEditingKey(null);
+    setForm(EMPTY_FORM);
+    setPrompt("");
+    setError("");
+  };
+
+  /**
+   * 编辑类型（同时加载生成的提示词）
+   */
+  const startEdit = async (key: string) => {
+    setError("");
+    try {
+      const res = await fetch(`/api/document-types/${key}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.message || data.error || "获取文档类型失败");
+        return;
+      }
+      const type = data.data;
+      setEditingKey(type.key);
+      setForm({
+        key: type.key,
+        name: type.name,
+        description: type.description || "",
+        jsonSchema: JSON.stringify(type.jsonSchema, null, 2),
+        instructions: type.instructions || "",
+        enabled: type.enabled,
+      });
+      setPrompt(type.prompt);
+    } catch (error) {
+      console.error("Failed to fetch document type:", error);
+    }
+  };
+
+  /**
+   * 保存类型（jsonSchema 以字符串提交，由服务端解析和校验）
+   */
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+
+    const { key, ...definition } = form;
+    try {
+      const res = await fetch(editingKey ? `/api/document-types/${editingKey}` : "/api/document-types", {
+        method: editingKey ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(editingKey ? definition : form),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.message || data.error || "保存失败");
+        return;
+      }
+
+      await fetchTypes();
+      await startEdit(editingKey || key);
+    } catch (error) {
+      console.error("Failed to save document type:", error);
+      setError("保存失败");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * 删除类型（已有文档使用的类型只能停用）
+   */
+  const handleDelete = async (type: DocumentTypeItem) => {
+    if (!confirm(`确定要删除文档类型 "${type.name}" 吗？`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/document-types/${type.key}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.message || data.error || "删除失败");
+        return;
+      }
+      if (editingKey === type.key) {
+        startCreate();
+      }
+      fetchTypes();
+    } catch (error) {
+      console.error("Failed to delete document type:", error);
+      alert("删除失败");
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {/* 顶部导航栏 */}
+      <header className="border-b bg-white sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="p-2 bg-primary rounded-lg">
+                <FileCog className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold">自定义文档类型</h1>
+                <p className="text-sm text-muted-foreground">定义字段 Schema，AI 按定义提取结构化数据</p>
+              </div>
+            </div>
+            <Button onClick={startCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              新建类型
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 grid gap-6 lg:grid-cols-3">
+        {/* 类型列表 */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg">类型列表</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="py-8 text-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mx-auto" />
+              </div>
+            ) : types.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">暂无自定义文档类型</p>
+            ) : (
+              <div className="space-y-2">
+                {types.map((type) => (
+                  <div
+                    key={type.key}
+                    className={`flex items-center justify-between p-3 rounded-lg border ${
+                      editingKey === type.key ? "border-primary bg-primary/5" : "border-gray-200"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{type.name}</span>
+                        {!type.enabled && <Badge variant="secondary">已停用</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {type.key} · {type.documentCount} 个文档
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="icon" onClick={() => startEdit(type.key)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(type)}
+                        disabled={type.documentCount > 0}
+                        title={type.documentCount > 0 ? "已有文档使用该类型，只能停用" : "删除"}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* 类型定义表单 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{editingKey ? `编辑：${form.name}` : "新建类型"}</CardTitle>
+              <CardDescription>
+                jsonSchema 支持 string、number、integer、boolean、object、array，
+                可使用 title、description、examples、enum、format（date / date-time）、pattern、minimum、maximum、required
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Key</label>
+                    <Input
+                      value={form.key}
+                      onChange={(e) => setForm({ ...form, key: e.target.value })}
+                      placeholder="如 contract"
+                      className="font-mono"
+                      disabled={!!editingKey}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">名称</label>
+                    <Input
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="如 采购合同"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">说明</label>
+                  <Input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="用于类型自动识别，描述该类文档的特征"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">字段 Schema（JSON）</label>
+                  <textarea
+                    value={form.jsonSchema}
+                    onChange={(e) => setForm({ ...form, jsonSchema: e.target.value })}
+                    rows={16}
+                    spellCheck={false}
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">补充提取说明</label>
+                  <textarea
+                    value={form.instructions}
+                    onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+                    rows={3}
+                    placeholder="如：金额以合同总价为准，不含税费"
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.enabled}
+                    onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                  />
+                  启用（停用后不能再上传该类型，已有文档不受影响）
+                </label>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <Button type="submit" disabled={saving}>
+                  {saving ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  {editingKey ? "保存修改" : "创建类型"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* 生成的解析提示词 */}
+          {prompt && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">解析提示词</CardTitle>
+                <CardDescription>根据当前定义生成，解析该类型文档时发送给 AI</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <pre className="whitespace-pre-wrap rounded-md bg-gray-50 p-4 text-xs">{prompt}</pre>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
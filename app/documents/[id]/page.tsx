@@ -24,11 +24,115 @@ import {
   Mail,
   MapPin,
   Image as ImageIcon,
+  ShieldCheck,
+  History,
+  RotateCcw,
+  ClipboardCheck,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
-import { formatDateTime, formatCurrency } from "@/lib/utils";
+import { Badge, BadgeProps } from "@/components/ui/badge";
+import { LayoutViewer } from "@/components/LayoutViewer";
+import { formatDate, formatDateTime, formatCurrency } from "@/lib/utils";
+import {
+  CustomFieldSchema,
+  FieldConfidence,
+  FieldRegion,
+  InvoiceQrData,
+  ReviewReason,
+  ValidationWarning,
+} from "@/types/document";
+import type { FieldChange, ParseAccuracy } from "@/lib/services/parsedDataRevisions";
+
+/**
+ * 校验警告严重程度映射
+ */
+const SEVERITY_LABELS: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  high: { label: "严重", variant: "destructive" },
+  medium: { label: "警告", variant: "warning" },
+  low: { label: "提示", variant: "secondary" },
+};
+
+/**
+ * 发票查验状态映射
+ */
+const VERIFICATION_LABELS: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  genuine: { label: "查验一致", variant: "success" },
+  mismatch: { label: "信息不符", variant: "destructive" },
+  not_found: { label: "查无此票", variant: "destructive" },
+  voided: { label: "已作废/红冲", variant: "destructive" },
+  error: { label: "查验失败", variant: "warning" },
+};
+
+/**
+ * 字段来源映射（AI 解析为默认来源，不显示）
+ */
+const FIELD_SOURCE_LABELS: Record<string, string> = {
+  qr: "二维码",
+  xml: "XML",
+  ofd: "OFD",
+  manual: "人工",
+};
+
+/**
+ * 低于该值的字段显示置信度标记
+ */
+const LOW_FIELD_CONFIDENCE = 80;
+
+/**
+ * 字段置信度标记
+ */
+function FieldConfidenceFlag({ confidence }: { confidence?: FieldConfidence }) {
+  if (typeof confidence?.score !== "number" || confidence.score >= LOW_FIELD_CONFIDENCE) {
+    return null;
+  }
+
+  return (
+    <Badge
+      variant={confidence.score < 50 ? "destructive" : "warning"}
+      className="ml-2"
+      title={
+        confidence.regions?.length
+          ? `字段置信度，来源：第 ${confidence.regions[0].page} 页`
+          : "字段置信度，未在版面中定位到该值"
+      }
+    >
+      置信度 {confidence.score}
+    </Badge>
+  );
+}
+
+/**
+ * 解析结果版本来源映射
+ */
+const REVISION_SOURCE_LABELS: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  ai: { label: "AI 解析", variant: "secondary" },
+  structured: { label: "结构化数据", variant: "secondary" },
+  manual: { label: "人工修改", variant: "warning" },
+  restore: { label: "恢复版本", variant: "outline" },
+};
+
+/**
+ * 版本历史中的单个版本（含相对上一版本的字段差异）
+ */
+interface RevisionEntry {
+  id: string;
+  revision: number;
+  source: string;
+  userName?: string;
+  reason?: string;
+  restoredFrom?: number;
+  createdAt: string;
+  changes: FieldChange[];
+}
+
+/**
+ * 版本差异中的字段值展示
+ */
+function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null) return "（空）";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
 
 /**
  * 下载文件
@@ -50,10 +154,55 @@ async function downloadFile(url: string, filename: string) {
   }
 }
 
+/**
+ * 税号校验标记
+ */
+function TaxIdFlag({ warning }: { warning?: ValidationWarning }) {
+  if (!warning) return null;
+
+  return (
+    <span className="ml-2 inline-flex items-center gap-1">
+      <Badge variant="destructive">
+        {warning.code === "tax_id_checksum" ? "校验码错误" : "格式错误"}
+      </Badge>
+      {!!warning.suggestions?.length && (
+        <span className="text-xs text-muted-foreground">
+          可能为 {warning.suggestions.join(" / ")}
+        </span>
+      )}
+    </span>
+  );
+}
+
 /**
  * 发票详情组件
  */
-function InvoiceDetail({ data }: { data: any }) {
+function InvoiceDetail({
+  data,
+  warnings = [],
+  sources = {},
+  confidences = {},
+  qr,
+  onHoverRegions,
+}: {
+  data: any;
+  warnings?: ValidationWarning[];
+  sources?: Record<string, string>;
+  confidences?: Record<string, FieldConfidence>;
+  qr?: InvoiceQrData;
+  onHoverRegions?: (regions: FieldRegion[]) => void;
+}) {
+  // 字段级校验标记
+  const fieldWarning = (field: string) => warnings.find((warning) => warning.field === field);
+  const source = (field: string) => sources[`invoice.${field}`];
+  const confidence = (field: string) => confidences[`invoice.${field}`];
+  // 悬停字段时在原图上高亮其来源区域
+  const hoverProps = (...fields: string[]) => ({
+    onMouseEnter: () =>
+      onHoverRegions?.(fields.flatMap((field) => confidence(field)?.regions || [])),
+    onMouseLeave: () => onHoverRegions?.([]),
+  });
+
   return (
     <div className="space-y-4">
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -61,23 +210,69 @@ function InvoiceDetail({ data }: { data: any }) {
           label="发票号码"
           value={data.invoiceNo}
           icon={FileText}
+          source={source("invoiceNo")}
+          confidence={confidence("invoiceNo")}
+          onHoverRegions={onHoverRegions}
         />
         <DetailItem
           label="发票代码"
           value={data.invoiceCode}
+          source={source("invoiceCode")}
+          confidence={confidence("invoiceCode")}
+          onHoverRegions={onHoverRegions}
         />
         <DetailItem
           label="开票日期"
           value={data.invoiceDate}
           icon={Calendar}
+          source={source("invoiceDate")}
+          confidence={confidence("invoiceDate")}
+          onHoverRegions={onHoverRegions}
         />
         <DetailItem
           label="价税合计"
           value={data.amount ? formatCurrency(data.amount) : "-"}
           icon={DollarSign}
+          source={source("amount")}
+          confidence={confidence("amount")}
+          onHoverRegions={onHoverRegions}
+        />
+        <DetailItem
+          label="不含税金额"
+          value={data.amountWithoutTax ? formatCurrency(data.amountWithoutTax) : null}
+          source={source("amountWithoutTax")}
+          confidence={confidence("amountWithoutTax")}
+          onHoverRegions={onHoverRegions}
+        />
+        <DetailItem
+          label="校验码"
+          value={data.checkCode}
+          source={source("checkCode")}
+          confidence={confidence("checkCode")}
+          onHoverRegions={onHoverRegions}
+        />
+        <DetailItem
+          label="发票种类"
+          value={data.invoiceType}
+          source={source("invoiceType")}
+          confidence={confidence("invoiceType")}
+          onHoverRegions={onHoverRegions}
         />
       </div>
 
+      {!!qr?.conflicts?.length && (
+        <div className="p-3 rounded-lg border border-yellow-300 bg-yellow-50 text-sm text-yellow-800">
+          <p className="font-medium">以下字段 AI 解析结果与发票二维码不一致，已采用二维码中的值：</p>
+          <ul className="mt-1 list-disc pl-5">
+            {qr.conflicts.map((conflict) => (
+              <li key={conflict.field}>
+                {conflict.field}：解析为 {String(conflict.parsed)}，二维码为 {String(conflict.qr)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Card>
           <CardHeader>
@@ -87,13 +282,16 @@ function InvoiceDetail({ data }: { data: any }) {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-2 text-sm">
-            <div>
+            <div {...hoverProps("sellerName")}>
               <span className="text-muted-foreground">名称：</span>
               {data.sellerName || "-"}
+              <FieldConfidenceFlag confidence={confidence("sellerName")} />
             </div>
-            <div>
+            <div {...hoverProps("sellerTaxId")}>
               <span className="text-muted-foreground">税号：</span>
               {data.sellerTaxId || "-"}
+              <FieldConfidenceFlag confidence={confidence("sellerTaxId")} />
+              <TaxIdFlag warning={fieldWarning("sellerTaxId")} />
             </div>
           </CardContent>
         </Card>
@@ -106,13 +304,16 @@ function InvoiceDetail({ data }: { data: any }) {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-2 text-sm">
-            <div>
+            <div {...hoverProps("buyerName")}>
               <span className="text-muted-foreground">名称：</span>
               {data.buyerName || "-"}
+              <FieldConfidenceFlag confidence={confidence("buyerName")} />
             </div>
-            <div>
+            <div {...hoverProps("buyerTaxId")}>
               <span className="text-muted-foreground">税号：</span>
               {data.buyerTaxId || "-"}
+              <FieldConfidenceFlag confidence={confidence("buyerTaxId")} />
+              <TaxIdFlag warning={fieldWarning("buyerTaxId")} />
             </div>
           </CardContent>
         </Card>
@@ -136,7 +337,15 @@ function InvoiceDetail({ data }: { data: any }) {
                 </thead>
                 <tbody>
                   {data.items.map((item: any, index: number) => (
-                    <tr key={index} className="border-b">
+                    <tr
+                      key={index}
+                      className="border-b hover:bg-gray-50"
+                      {...hoverProps(
+                        ...["name", "quantity", "unitPrice", "amount"].map(
+                          (field) => `items.${index}.${field}`
+                        )
+                      )}
+                    >
                       <td className="py-2">{item.name || "-"}</td>
                       <td className="text-right py-2">{item.quantity || "-"}</td>
                       <td className="text-right py-2">
@@ -276,6 +485,114 @@ function CertificateDetail({ data }: { data: any }) {
   );
 }
 
+/**
+ * 自定义类型字段值的显示文本
+ */
+function customFieldText(schema: Partial<CustomFieldSchema> | undefined, value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (schema?.format === "date" && typeof value === "string") return formatDate(value);
+  if (schema?.format === "date-time" && typeof value === "string") return formatDateTime(value);
+  if (typeof value === "boolean") return value ? "是" : "否";
+  return String(value);
+}
+
+/**
+ * 自定义类型详情组件
+ * 按类型定义的 JSON Schema 展示字段（字段名显示为 title），嵌套对象和对象数组分组展示
+ */
+function CustomDetail({
+  data,
+  schema,
+  path = "custom",
+  confidences = {},
+  onHoverRegions,
+}: {
+  data?: Record<string, unknown>;
+  schema?: Partial<CustomFieldSchema>;
+  path?: string;
+  confidences?: Record<string, FieldConfidence>;
+  onHoverRegions?: (regions: FieldRegion[]) => void;
+}) {
+  // 类型定义已删除时按解析结果的键展示
+  const properties: Record<string, Partial<CustomFieldSchema>> =
+    schema?.properties ||
+    Object.fromEntries(Object.keys(data || {}).map((field) => [field, {}]));
+
+  const scalars: React.ReactNode[] = [];
+  const groups: React.ReactNode[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(properties)) {
+    const value = data?.[field];
+    const label = fieldSchema.title || field;
+    const fieldPath = `${path}.${field}`;
+    if (value === undefined || value === null) continue;
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue;
+      const itemSchema = fieldSchema.items;
+      if (value.some((item) => item && typeof item === "object")) {
+        groups.push(
+          <div key={field} className="space-y-2">
+            <p className="text-sm font-medium">{label}</p>
+            {value.map((item, index) => (
+              <div key={index} className="border-l-2 border-primary pl-4">
+                <CustomDetail
+                  data={item as Record<string, unknown>}
+                  schema={itemSchema}
+                  path={`${fieldPath}.${index}`}
+                  confidences={confidences}
+                  onHoverRegions={onHoverRegions}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      } else {
+        scalars.push(
+          <DetailItem
+            key={field}
+            label={label}
+            value={value.map((item) => customFieldText(itemSchema, item)).filter(Boolean).join("、")}
+            className="md:col-span-2"
+          />
+        );
+      }
+    } else if (typeof value === "object") {
+      groups.push(
+        <div key={field} className="space-y-2">
+          <p className="text-sm font-medium">{label}</p>
+          <div className="border-l-2 border-primary pl-4">
+            <CustomDetail
+              data={value as Record<string, unknown>}
+              schema={fieldSchema}
+              path={fieldPath}
+              confidences={confidences}
+              onHoverRegions={onHoverRegions}
+            />
+          </div>
+        </div>
+      );
+    } else {
+      scalars.push(
+        <DetailItem
+          key={field}
+          label={label}
+          value={customFieldText(fieldSchema, value)}
+          confidence={confidences[fieldPath]}
+          onHoverRegions={onHoverRegions}
+        />
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {scalars.length > 0 && <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{scalars}</div>}
+      {groups}
+    </div>
+  );
+}
+
 /**
  * 详情项组件
  */
@@ -284,23 +601,179 @@ function DetailItem({
   value,
   icon: Icon,
   className = "",
+  source,
+  confidence,
+  onHoverRegions,
 }: {
   label: string;
   value?: string | null;
   icon?: any;
   className?: string;
+  source?: string;
+  confidence?: FieldConfidence;
+  onHoverRegions?: (regions: FieldRegion[]) => void;
 }) {
   if (!value) return null;
 
   return (
-    <div className={`flex items-center space-x-2 text-sm ${className}`}>
+    <div
+      className={`flex items-center space-x-2 text-sm ${className}`}
+      onMouseEnter={() => onHoverRegions?.(confidence?.regions || [])}
+      onMouseLeave={() => onHoverRegions?.([])}
+    >
       {Icon && <Icon className="h-4 w-4 text-muted-foreground" />}
       <span className="text-muted-foreground">{label}：</span>
       <span className="font-medium">{value}</span>
+      {source && FIELD_SOURCE_LABELS[source] && (
+        <Badge variant="outline" title="数据来源">{FIELD_SOURCE_LABELS[source]}</Badge>
+      )}
+      <FieldConfidenceFlag confidence={confidence} />
     </div>
   );
 }
 
+/**
+ * 修改历史组件
+ * 列出解析结果的全部版本及字段变化，可恢复到任一历史版本
+ */
+function RevisionHistory({
+  documentId,
+  updatedAt,
+  onRestored,
+}: {
+  documentId: string;
+  updatedAt?: string;
+  onRestored: () => void;
+}) {
+  const [revisions, setRevisions] = useState<RevisionEntry[]>([]);
+  const [accuracy, setAccuracy] = useState<ParseAccuracy | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchRevisions = async () => {
+    try {
+      const res = await fetch(`/api/documents/${documentId}/revisions`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setRevisions(data.data.revisions);
+      setAccuracy(data.data.accuracy);
+    } catch (error) {
+      console.error("Failed to fetch revisions:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [documentId, updatedAt]);
+
+  /**
+   * 恢复到指定版本
+   */
+  const handleRestore = async (revision: number) => {
+    const reason = prompt(`确定要恢复到版本 ${revision} 吗？可填写恢复原因：`);
+    if (reason === null) return;
+
+    setRestoring(revision);
+    setError("");
+    try {
+      const res = await fetch(`/api/documents/${documentId}/revisions/${revision}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.message || data.error || "恢复失败");
+        return;
+      }
+      onRestored();
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      setError("恢复失败");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (revisions.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <History className="h-4 w-4 mr-2" />
+          修改历史（{revisions.length}）
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {accuracy && (
+          <p className="text-muted-foreground">
+            相对版本 {accuracy.baselineRevision}（
+            {REVISION_SOURCE_LABELS[accuracy.baselineSource]?.label || accuracy.baselineSource}
+            ）：{accuracy.fields} 个字段中修改 {accuracy.corrected} 个，补充 {accuracy.added} 个，
+            准确率 {(accuracy.accuracy * 100).toFixed(1)}%
+          </p>
+        )}
+        {error && <p className="text-red-600">{error}</p>}
+        <ul className="space-y-3">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="border rounded-lg p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">版本 {revision.revision}</span>
+                <Badge variant={REVISION_SOURCE_LABELS[revision.source]?.variant || "outline"}>
+                  {REVISION_SOURCE_LABELS[revision.source]?.label || revision.source}
+                </Badge>
+                {revision.restoredFrom && (
+                  <span className="text-muted-foreground">恢复自版本 {revision.restoredFrom}</span>
+                )}
+                <span className="text-muted-foreground">
+                  {formatDateTime(revision.createdAt)}
+                  {revision.userName && ` · ${revision.userName}`}
+                </span>
+                {index > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => handleRestore(revision.revision)}
+                    disabled={restoring !== null}
+                  >
+                    {restoring === revision.revision ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    恢复
+                  </Button>
+                )}
+              </div>
+              {revision.reason && <p className="mt-1">原因：{revision.reason}</p>}
+              {index < revisions.length - 1 && revision.changes.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {revision.changes.map((change) => (
+                    <li key={change.path} className="font-mono break-all">
+                      <span className="text-muted-foreground">{change.path}：</span>
+                      {change.type !== "added" && (
+                        <span className="line-through text-red-600">
+                          {formatChangeValue(change.before)}
+                        </span>
+                      )}
+                      {change.type === "changed" && " → "}
+                      {change.type !== "removed" && (
+                        <span className="text-green-700">{formatChangeValue(change.after)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
 /**
  * 文档详情页面
  */
@@ -310,12 +783,16 @@ export default function DocumentDetailPage() {
   const [document, setDocument] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [reprocessing, setReprocessing] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState("");
+  // 原图上高亮的字段来源区域
+  const [highlights, setHighlights] = useState<FieldRegion[]>([]);
 
   /**
    * 获取文档详情
    */
-  const fetchDocument = async () => {
-    setLoading(true);
+  const fetchDocument = async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
       const res = await fetch(`/api/documents/${params.id}`);
       if (!res.ok) {
@@ -337,24 +814,39 @@ export default function DocumentDetailPage() {
     }
   }, [params.id]);
 
+  // 订阅处理阶段事件，阶段变化时刷新详情
+  useEffect(() => {
+    if (!params.id) return;
+
+    const source = new EventSource(`/api/documents/${params.id}/events`);
+    source.addEventListener("stage", (e) => {
+      const event = JSON.parse((e as MessageEvent).data);
+      fetchDocument(true);
+      if (event.status && event.status !== "processing") {
+        setReprocessing(false);
+      }
+    });
+
+    return () => source.close();
+  }, [params.id]);
+
   /**
    * 重新处理文档
    */
-  const handleReprocess = async () => {
+  const handleReprocess = async (stages?: string[]) => {
     setReprocessing(true);
     try {
       const res = await fetch("/api/documents/process", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ documentId: params.id }),
+        body: JSON.stringify({ documentId: params.id, stages }),
       });
 
       if (res.ok) {
-        // 等待一段时间后刷新
-        setTimeout(() => {
-          fetchDocument();
-          setReprocessing(false);
-        }, 5000);
+        // 处理结果通过事件流推送
+        fetchDocument(true);
+      } else {
+        setReprocessing(false);
       }
     } catch (error) {
       console.error("Failed to reprocess:", error);
@@ -362,6 +854,31 @@ export default function DocumentDetailPage() {
     }
   };
 
+  /**
+   * 查验发票
+   */
+  const handleVerify = async () => {
+    setVerifying(true);
+    setVerifyError("");
+    try {
+      const res = await fetch(`/api/documents/${params.id}/verify`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setVerifyError(
+          data.missing?.length > 0
+            ? `${data.error}：缺少${data.missing.join("、")}`
+            : data.message || data.error || "查验失败"
+        );
+      }
+      fetchDocument(true);
+    } catch (error) {
+      console.error("Failed to verify:", error);
+      setVerifyError("查验失败");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   /**
    * 删除文档
    */
@@ -464,12 +981,32 @@ export default function DocumentDetailPage() {
             <div className="flex items-center space-x-2">
               <Button
                 variant="outline"
-                onClick={handleReprocess}
+                onClick={() => handleReprocess()}
                 disabled={reprocessing}
               >
                 <RefreshCw className={`h-4 w-4 mr-2 ${reprocessing ? "animate-spin" : ""}`} />
                 重新识别
               </Button>
+              {document.ocrResult?.mdResults && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleReprocess(["parse"])}
+                  disabled={reprocessing}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  仅重新解析
+                </Button>
+              )}
+              {document.documentType === "invoice" && document.parsedData?.invoice && (
+                <Button variant="outline" onClick={handleVerify} disabled={verifying}>
+                  {verifying ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                  )}
+                  查验发票
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={() => handleExport(document)}
@@ -496,13 +1033,16 @@ export default function DocumentDetailPage() {
                   <p className="text-sm text-muted-foreground">状态</p>
                   <p className="text-lg font-semibold mt-1">
                     {document.status === "completed" ? "已完成" :
-                     document.status === "processing" ? "处理中" : "失败"}
+                     document.status === "processing" ? "处理中" :
+                     document.status === "needs_review" ? "待审核" : "失败"}
                   </p>
                 </div>
                 {document.status === "completed" ? (
                   <Check className="h-8 w-8 text-green-500" />
                 ) : document.status === "processing" ? (
                   <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />
+                ) : document.status === "needs_review" ? (
+                  <ClipboardCheck className="h-8 w-8 text-yellow-500" />
                 ) : (
                   <AlertCircle className="h-8 w-8 text-red-500" />
                 )}
@@ -517,6 +1057,11 @@ export default function DocumentDetailPage() {
                 <p className="text-lg font-semibold mt-1">
                   {document.fileType}
                 </p>
+                {(document.metadata.source === "xml" || document.metadata.source === "ofd") && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    数电票 {document.metadata.source.toUpperCase()}，直接读取发票数据
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -545,14 +1090,120 @@ export default function DocumentDetailPage() {
                       handwritten: "手写笔记",
                       financial_report: "财务报表",
                       other: "其他",
-                    } as Record<string, string>)[document.documentType]
-                  }
+                    } as Record<string, string>)[document.documentType] ||
+                    document.customTypeDefinition?.name ||
+                    document.customType}
                 </p>
               </div>
             </CardContent>
           </Card>
         </div>
 
+        {/* 人工审核 */}
+        {document.review && (
+          <div
+            className={`mb-6 flex items-start gap-3 p-4 rounded-lg border ${
+              document.review.status === "pending"
+                ? "border-yellow-300 bg-yellow-50 text-yellow-800"
+                : "border-green-300 bg-green-50 text-green-800"
+            }`}
+          >
+            <ClipboardCheck className="h-5 w-5 shrink-0 mt-0.5" />
+            <div className="text-sm space-y-1 flex-1">
+              {document.review.status === "pending" ? (
+                <p>
+                  待人工审核，审核通过前不计入报表。
+                  <Link href="/review" className="font-medium underline ml-1">
+                    前往审核
+                  </Link>
+                </p>
+              ) : (
+                <p>
+                  {document.review.status === "corrected" ? "已修改并审核通过" : "已审核通过"}：
+                  {document.review.reviewerName || document.review.reviewedBy} ·{" "}
+                  {formatDateTime(document.review.reviewedAt)}
+                  {document.review.comment && ` · ${document.review.comment}`}
+                </p>
+              )}
+              {document.review.reasons?.map((reason: ReviewReason) => (
+                <p key={reason.code} className="text-xs">{reason.message}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 疑似重复提示 */}
+        {document.duplicateOf && (
+          <div className="mb-6 flex items-center gap-3 p-4 rounded-lg border border-yellow-300 bg-yellow-50 text-yellow-800">
+            <AlertCircle className="h-5 w-5 shrink-0" />
+            <p className="text-sm">
+              疑似重复发票：
+              {document.duplicateOf.matchedBy === "code_no"
+                ? "发票代码和发票号码"
+                : "销售方税号、发票号码和金额"}
+              与{" "}
+              <Link
+                href={`/documents/${document.duplicateOf.documentId}`}
+                className="font-medium underline"
+              >
+                {document.duplicateOf.fileName || "原始文档"}
+              </Link>{" "}
+              相同，默认不计入发票报表。
+            </p>
+          </div>
+        )}
+
+        {/* 发票查验 */}
+        {(document.verification || verifyError) && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                发票查验
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {document.verification && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={VERIFICATION_LABELS[document.verification.status]?.variant || "outline"}>
+                    {VERIFICATION_LABELS[document.verification.status]?.label ||
+                      document.verification.status}
+                  </Badge>
+                  {document.verification.message && <span>{document.verification.message}</span>}
+                  <span className="text-muted-foreground">
+                    {formatDateTime(document.verification.verifiedAt)} · {document.verification.provider}
+                  </span>
+                </div>
+              )}
+              {verifyError && <p className="text-red-600">{verifyError}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 校验警告 */}
+        {document.validation?.warnings?.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center">
+                <AlertCircle className="h-4 w-4 mr-2 text-yellow-600" />
+                校验警告（{document.validation.warnings.length}）
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                {document.validation.warnings.map((warning: ValidationWarning, index: number) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <Badge variant={SEVERITY_LABELS[warning.severity]?.variant || "outline"}>
+                      {SEVERITY_LABELS[warning.severity]?.label || warning.severity}
+                    </Badge>
+                    <span>{warning.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {/* 结构化数据 */}
         {parsedData ? (
           <Card>
@@ -560,9 +1211,26 @@ export default function DocumentDetailPage() {
               <CardTitle>识别结果</CardTitle>
             </CardHeader>
             <CardContent>
-              {document.documentType === "invoice" && <InvoiceDetail data={parsedData} />}
+              {document.documentType === "invoice" && (
+                <InvoiceDetail
+                  data={parsedData}
+                  warnings={document.validation?.warnings}
+                  sources={document.parsedData?.fieldSources}
+                  confidences={document.parsedData?.fieldConfidence}
+                  qr={document.parsedData?.invoiceQr}
+                  onHoverRegions={setHighlights}
+                />
+              )}
               {document.documentType === "resume" && <ResumeDetail data={parsedData} />}
               {document.documentType === "certificate" && <CertificateDetail data={parsedData} />}
+              {document.documentType === "custom" && (
+                <CustomDetail
+                  data={parsedData}
+                  schema={document.customTypeDefinition?.jsonSchema}
+                  confidences={document.parsedData?.fieldConfidence}
+                  onHoverRegions={setHighlights}
+                />
+              )}
               {document.documentType === "handwritten" && (
                 <div className="prose max-w-none">
                   <p className="whitespace-pre-wrap">{parsedData.content}</p>
@@ -582,7 +1250,7 @@ export default function DocumentDetailPage() {
                 <>
                   <AlertCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                   <p className="text-muted-foreground mb-4">暂无识别结果</p>
-                  <Button onClick={handleReprocess}>
+                  <Button onClick={() => handleReprocess()}>
                     <RefreshCw className="h-4 w-4 mr-2" />
                     重新识别
                   </Button>
@@ -592,6 +1260,48 @@ export default function DocumentDetailPage() {
           </Card>
         )}
 
+        {/* 原图预览 */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center justify-between">
+              <span className="flex items-center">
+                <ImageIcon className="h-4 w-4 mr-2" />
+                原图预览
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadFile(document.fileUrl, document.fileName)}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                下载原图
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {/* 悬停识别结果中的字段时高亮其在原图中的位置 */}
+            <LayoutViewer
+              documentId={document.id}
+              fileUrl={document.fileUrl}
+              fileType={document.fileType}
+              fileName={document.fileName}
+              layoutDetails={document.ocrResult?.layoutDetails}
+              pages={document.ocrResult?.pages}
+              numPages={document.ocrResult?.numPages}
+              highlights={highlights}
+            />
+          </CardContent>
+        </Card>
+
+        {/* 修改历史 */}
+        {document.parsedData && (
+          <RevisionHistory
+            documentId={document.id}
+            updatedAt={document.updatedAt}
+            onRestored={() => fetchDocument(true)}
+          />
+        )}
+
         {/* 原始 OCR 结果（可展开） */}
         {document.ocrResult && (
           <Card className="mt-6">
@@ -607,35 +1317,6 @@ export default function DocumentDetailPage() {
             </CardContent>
           </Card>
         )}
-
-        {/* 原图预览 */}
-        <Card className="mt-6">
-          <CardHeader>
-            <CardTitle className="text-base flex items-center">
-              <ImageIcon className="h-4 w-4 mr-2" />
-              原图预览
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="group relative inline-block w-full">
-              <img
-                src={document.fileUrl}
-                alt={document.fileName}
-                className="w-full h-auto rounded-lg border border-gray-200"
-              />
-              {/* 悬停时显示的下载按钮 */}
-              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center rounded-lg">
-                <Button
-                  onClick={() => downloadFile(document.fileUrl, document.fileName)}
-                  className="bg-white text-gray-900 hover:bg-gray-100"
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  下载原图
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
       </div>
     </main>
   );
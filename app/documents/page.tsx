@@ -18,13 +18,15 @@ import {
   ChevronRight,
   Loader2,
   ArrowLeft,
+  RefreshCw,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
+import { Badge, BadgeProps } from "@/components/ui/badge";
 import { Select } from "@/components/ui/select";
 import { formatDateTime, formatCurrency } from "@/lib/utils";
+import { ValidationWarning } from "@/types/document";
 
 /**
  * 文档类型映射
@@ -35,18 +37,36 @@ const DOCUMENT_TYPE_LABELS: Record<string, string> = {
   resume: "简历",
   handwritten: "手写笔记",
   financial_report: "财务报表",
+  custom: "自定义",
   other: "其他",
 };
 
+/**
+ * 自定义文档类型在筛选选项中的前缀（选项值为 custom:<key>）
+ */
+const CUSTOM_TYPE_PREFIX = "custom:";
+
 /**
  * 状态映射
  */
 const STATUS_LABELS: Record<string, { label: string; variant: string }> = {
   processing: { label: "处理中", variant: "warning" },
   completed: { label: "已完成", variant: "success" },
+  needs_review: { label: "待审核", variant: "warning" },
   failed: { label: "失败", variant: "destructive" },
 };
 
+/**
+ * 发票查验状态映射
+ */
+const VERIFICATION_LABELS: Record<string, { label: string; variant: BadgeProps["variant"] }> = {
+  genuine: { label: "查验一致", variant: "success" },
+  mismatch: { label: "信息不符", variant: "destructive" },
+  not_found: { label: "查无此票", variant: "destructive" },
+  voided: { label: "已作废/红冲", variant: "destructive" },
+  error: { label: "查验失败", variant: "warning" },
+};
+
 /**
  * 文档列表页面
  */
@@ -55,17 +75,42 @@ export default function DocumentsPage() {
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [documentType, setDocumentType] = useState("");
+  const [customTypes, setCustomTypes] = useState<Array<{ key: string; name: string }>>([]);
   const [status, setStatus] = useState("");
+  const [duplicate, setDuplicate] = useState("");
+  const [validation, setValidation] = useState("");
+  const [verification, setVerification] = useState("");
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
+  /**
+   * 类型筛选参数（自定义类型为 documentType=custom&customType=<key>）
+   */
+  const typeFilter = (): Record<string, string> => {
+    if (!documentType) return {};
+    if (documentType.startsWith(CUSTOM_TYPE_PREFIX)) {
+      return { documentType: "custom", customType: documentType.slice(CUSTOM_TYPE_PREFIX.length) };
+    }
+    return { documentType };
+  };
+
+  /**
+   * 文档类型名称（自定义类型显示其名称）
+   */
+  const typeLabel = (doc: any): string => {
+    if (doc.documentType === "custom" && doc.customType) {
+      return customTypes.find((type) => type.key === doc.customType)?.name || doc.customType;
+    }
+    return DOCUMENT_TYPE_LABELS[doc.documentType] || "其他";
+  };
+
   /**
    * 获取文档列表
    */
-  const fetchDocuments = async () => {
-    setLoading(true);
+  const fetchDocuments = async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
       const params = new URLSearchParams({
         page: page.toString(),
@@ -73,8 +118,11 @@ export default function DocumentsPage() {
       });
 
       if (search) params.append("search", search);
-      if (documentType) params.append("documentType", documentType);
+      Object.entries(typeFilter()).forEach(([key, value]) => params.append(key, value));
       if (status) params.append("status", status);
+      if (duplicate) params.append("duplicate", duplicate);
+      if (validation) params.append("validation", validation);
+      if (verification) params.append("verification", verification);
 
       const res = await fetch(`/api/documents?${params.toString()}`);
       const data = await res.json();
@@ -91,19 +139,45 @@ export default function DocumentsPage() {
 
   useEffect(() => {
     fetchDocuments();
-  }, [page, documentType, status]);
+  }, [page, documentType, status, duplicate, validation, verification]);
+
+  // 加载自定义文档类型（用于筛选和显示类型名称）
+  useEffect(() => {
+    fetch("/api/document-types")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setCustomTypes(data?.data?.types || []))
+      .catch(() => setCustomTypes([]));
+  }, []);
+
+  // 订阅处理中文档的阶段事件
+  const processingIds = documents
+    .filter((doc) => doc.status === "processing")
+    .map((doc) => doc.id)
+    .join(",");
 
-  // 轮询处理中的文档
   useEffect(() => {
-    const hasProcessingDocs = documents.some(doc => doc.status === "processing");
-    if (!hasProcessingDocs) return;
+    if (!processingIds) return;
 
-    const interval = setInterval(() => {
-      fetchDocuments();
-    }, 3000); // 每3秒刷新一次
+    const source = new EventSource(
+      `/api/documents/events?ids=${encodeURIComponent(processingIds)}`
+    );
+    source.addEventListener("stage", (e) => {
+      const event = JSON.parse((e as MessageEvent).data);
+      // 就地更新状态，处理结束时刷新列表以获取预览数据
+      setDocuments((prev) =>
+        prev.map((doc) =>
+          doc.id === event.documentId && event.status
+            ? { ...doc, status: event.status, documentType: event.documentType }
+            : doc
+        )
+      );
+      if (event.status && event.status !== "processing") {
+        fetchDocuments(true);
+      }
+    });
 
-    return () => clearInterval(interval);
-  }, [documents]);
+    return () => source.close();
+  }, [processingIds]);
 
   /**
    * 搜索处理
@@ -191,6 +265,52 @@ export default function DocumentsPage() {
     }
   };
 
+  /**
+   * 按当前筛选条件批量重新处理
+   */
+  const handleBulkReprocess = async () => {
+    const filters: Record<string, string> = {};
+    if (search) filters.search = search;
+    Object.assign(filters, typeFilter());
+    if (status) filters.status = status;
+    if (duplicate) filters.duplicate = duplicate;
+    if (validation) filters.validation = validation;
+    if (verification) filters.verification = verification;
+
+    try {
+      const preview = await fetch("/api/documents/process/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filters, dryRun: true }),
+      });
+      const previewData = await preview.json();
+      if (!preview.ok) {
+        alert(previewData.error || "批量处理失败");
+        return;
+      }
+
+      if (!confirm(`将重新处理 ${previewData.data.matched} 个符合当前筛选条件的文档，确定继续吗？`)) {
+        return;
+      }
+
+      const res = await fetch("/api/documents/process/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filters }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "批量处理失败");
+        return;
+      }
+
+      alert(data.message);
+      fetchDocuments(true);
+    } catch (error) {
+      console.error("Failed to bulk reprocess:", error);
+    }
+  };
+
   /**
    * 渲染文档预览信息
    */
@@ -299,6 +419,11 @@ export default function DocumentsPage() {
                     {label}
                   </option>
                 ))}
+                {customTypes.map((type) => (
+                  <option key={type.key} value={`${CUSTOM_TYPE_PREFIX}${type.key}`}>
+                    {type.name}
+                  </option>
+                ))}
               </Select>
 
               {/* 状态筛选 */}
@@ -318,11 +443,64 @@ export default function DocumentsPage() {
                 ))}
               </Select>
 
+              {/* 重复筛选 */}
+              <Select
+                value={duplicate}
+                onChange={(e) => {
+                  setDuplicate(e.target.value);
+                  setPage(1);
+                }}
+                className="md:w-40"
+              >
+                <option value="">全部发票</option>
+                <option value="true">疑似重复</option>
+                <option value="false">排除重复</option>
+              </Select>
+
+              {/* 校验结果筛选 */}
+              <Select
+                value={validation}
+                onChange={(e) => {
+                  setValidation(e.target.value);
+                  setPage(1);
+                }}
+                className="md:w-40"
+              >
+                <option value="">全部校验结果</option>
+                <option value="passed">校验通过</option>
+                <option value="warning">有校验警告</option>
+                <option value="high">有严重警告</option>
+              </Select>
+
+              {/* 查验状态筛选 */}
+              <Select
+                value={verification}
+                onChange={(e) => {
+                  setVerification(e.target.value);
+                  setPage(1);
+                }}
+                className="md:w-40"
+              >
+                <option value="">全部查验状态</option>
+                <option value="unverified">未查验</option>
+                {Object.entries(VERIFICATION_LABELS).map(([value, { label }]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+
               {/* 搜索按钮 */}
               <Button onClick={handleSearch}>
                 <Search className="h-4 w-4 mr-2" />
                 搜索
               </Button>
+
+              {/* 批量重新处理 */}
+              <Button variant="outline" onClick={handleBulkReprocess}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                批量重新处理
+              </Button>
             </div>
 
             {/* 批量操作 */}
@@ -440,7 +618,7 @@ export default function DocumentsPage() {
                     {/* 类型 */}
                     <div className="col-span-2">
                       <Badge variant="outline">
-                        {DOCUMENT_TYPE_LABELS[doc.documentType] || "其他"}
+                        {typeLabel(doc)}
                       </Badge>
                     </div>
 
@@ -453,6 +631,31 @@ export default function DocumentsPage() {
                       >
                         {STATUS_LABELS[doc.status]?.label || doc.status}
                       </Badge>
+                      {doc.duplicateOf && (
+                        <Link href={`/documents/${doc.duplicateOf.documentId}`}>
+                          <Badge variant="warning" className="ml-2">
+                            疑似重复
+                          </Badge>
+                        </Link>
+                      )}
+                      {doc.validation?.maxSeverity && (
+                        <Badge
+                          variant={doc.validation.maxSeverity === "high" ? "destructive" : "warning"}
+                          className="ml-2"
+                          title={doc.validation.warnings?.map((w: ValidationWarning) => w.message).join("\n")}
+                        >
+                          校验警告
+                        </Badge>
+                      )}
+                      {doc.verification && VERIFICATION_LABELS[doc.verification.status] && (
+                        <Badge
+                          variant={VERIFICATION_LABELS[doc.verification.status].variant}
+                          className="ml-2"
+                          title={doc.verification.message}
+                        >
+                          {VERIFICATION_LABELS[doc.verification.status].label}
+                        </Badge>
+                      )}
                     </div>
 
                     {/* 上传时间 */}
@@ -17,6 +17,8 @@ import {
   LogOut,
   Users,
   Settings,
+  ClipboardCheck,
+  FileCog,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -191,6 +193,13 @@ export default function HomePage() {
               icon={FileText}
               permission="canViewDocuments"
             />
+            <QuickNavCard
+              title="人工审核"
+              description="审核低置信度和校验有问题的识别结果"
+              href="/review"
+              icon={ClipboardCheck}
+              permission="canReprocessDocuments"
+            />
             <QuickNavCard
               title="报表分析"
               description="查看发票金额统计和趋势分析"
@@ -206,6 +215,14 @@ export default function HomePage() {
                 icon={Settings}
               />
             )}
+            {hasPermission("canManageSettings") && (
+              <QuickNavCard
+                title="自定义文档类型"
+                description="定义新的文档类型及其提取字段"
+                href="/document-types"
+                icon={FileCog}
+              />
+            )}
           </div>
         </div>
 
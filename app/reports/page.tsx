@@ -15,6 +15,9 @@ import {
   ArrowLeft,
   DollarSign,
   FileText,
+  Receipt,
+  Download,
+  Users,
 } from "lucide-react";
 import {
   BarChart,
@@ -34,6 +37,8 @@ import { Select } from "@/components/ui/select";
 import { formatCurrency } from "@/lib/utils";
 import { useAuth } from "@/lib/auth-context";
 import { startOfMonth, endOfMonth, subMonths, subDays, format } from "date-fns";
+import type { PartyAnalysis, PartyStat } from "@/lib/services/partyAnalytics";
+import type { TaxSummary } from "@/lib/services/invoiceTax";
 
 /**
  * 时间范围选项
@@ -45,6 +50,32 @@ const TIME_RANGE_OPTIONS = [
   { value: "custom", label: "自定义" },
 ];
 
+/**
+ * 日期口径选项
+ */
+const DATE_BASIS_OPTIONS = [
+  { value: "invoice", label: "开票日期" },
+  { value: "upload", label: "上传日期" },
+  { value: "processed", label: "处理日期" },
+];
+
+/**
+ * 税率分组显示
+ */
+const TAX_RATE_LABELS: Record<string, string> = {
+  exempt: "免税",
+  unknown: "未知",
+};
+
+/**
+ * 发票种类显示
+ */
+const INVOICE_KIND_LABELS: Record<string, string> = {
+  special: "专票",
+  ordinary: "普票",
+  unknown: "未知",
+};
+
 /**
  * 获取日期范围
  */
@@ -78,6 +109,280 @@ function getDateRange(range: string): { startDate: string; endDate: string } {
   };
 }
 
+/**
+ * 对比方式选项
+ */
+const COMPARE_OPTIONS = [
+  { value: "", label: "不对比" },
+  { value: "previous", label: "环比" },
+  { value: "year", label: "同比" },
+];
+
+/**
+ * 下钻的发票
+ */
+interface PartyDocument {
+  id: string;
+  fileName: string;
+  invoiceNo?: string;
+  invoiceDate?: string;
+  amount?: number;
+  taxAmount?: number;
+  sellerName?: string;
+  buyerName?: string;
+}
+
+/**
+ * 金额变化显示
+ */
+function ChangeRate({ party }: { party: PartyStat }) {
+  if (party.changeRate === undefined) return null;
+  if (party.changeRate === null) {
+    return <span className="text-muted-foreground">新增</span>;
+  }
+  const percent = (party.changeRate * 100).toFixed(1);
+  return (
+    <span className={party.changeRate >= 0 ? "text-red-600" : "text-green-600"}>
+      {party.changeRate >= 0 ? "+" : ""}
+      {percent}%
+    </span>
+  );
+}
+
+/**
+ * 往来单位分析：按销售方 / 购买方汇总，支持 Top N、环比 / 同比和下钻到发票
+ */
+function PartyAnalytics({ queryString }: { queryString: string }) {
+  const [role, setRole] = useState("seller");
+  const [top, setTop] = useState("10");
+  const [compare, setCompare] = useState("previous");
+  const [loading, setLoading] = useState(false);
+  const [data, setData] = useState<PartyAnalysis | null>(null);
+  const [selected, setSelected] = useState<PartyStat | null>(null);
+  const [documents, setDocuments] = useState<PartyDocument[]>([]);
+  const [documentsLoading, setDocumentsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!queryString) return;
+
+    const fetchParties = async () => {
+      setLoading(true);
+      setSelected(null);
+      try {
+        const params = new URLSearchParams(queryString);
+        params.set("role", role);
+        params.set("top", top);
+        if (compare) params.set("compare", compare);
+
+        const res = await fetch(`/api/reports/invoice/parties?${params.toString()}`);
+        const result = await res.json();
+        if (result.success) {
+          setData(result.data);
+        }
+      } catch (error) {
+        console.error("Failed to fetch party analytics:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchParties();
+  }, [queryString, role, top, compare]);
+
+  /**
+   * 下钻查看发票
+   */
+  const handleSelect = async (party: PartyStat) => {
+    if (selected?.key === party.key) {
+      setSelected(null);
+      return;
+    }
+    setSelected(party);
+    setDocumentsLoading(true);
+    try {
+      const params = new URLSearchParams(queryString);
+      params.set("role", role);
+      params.set("key", party.key);
+      params.set("limit", "50");
+
+      const res = await fetch(`/api/reports/invoice/parties/documents?${params.toString()}`);
+      const result = await res.json();
+      setDocuments(result.success ? result.data.documents : []);
+    } catch (error) {
+      console.error("Failed to fetch party documents:", error);
+      setDocuments([]);
+    } finally {
+      setDocumentsLoading(false);
+    }
+  };
+
+  const comparing = !!data?.comparison;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <CardTitle className="text-base flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            往来单位分析
+          </CardTitle>
+          <div className="flex gap-2">
+            <Select value={role} onChange={(e) => setRole(e.target.value)} className="w-28">
+              <option value="seller">销售方</option>
+              <option value="buyer">购买方</option>
+            </Select>
+            <Select value={top} onChange={(e) => setTop(e.target.value)} className="w-28">
+              <option value="5">前 5 名</option>
+              <option value="10">前 10 名</option>
+              <option value="20">前 20 名</option>
+            </Select>
+            <Select value={compare} onChange={(e) => setCompare(e.target.value)} className="w-28">
+              {COMPARE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : data && data.parties.length > 0 ? (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2">{role === "seller" ? "销售方" : "购买方"}</th>
+                    <th className="text-right py-2">发票数</th>
+                    <th className="text-right py-2">金额</th>
+                    <th className="text-right py-2">税额</th>
+                    <th className="text-right py-2">占比</th>
+                    {comparing && <th className="text-right py-2">对比期金额</th>}
+                    {comparing && <th className="text-right py-2">变化</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.parties.map((party) => (
+                    <tr
+                      key={party.key}
+                      className={`border-b cursor-pointer hover:bg-gray-50 ${
+                        selected?.key === party.key ? "bg-blue-50" : ""
+                      }`}
+                      onClick={() => handleSelect(party)}
+                    >
+                      <td className="py-2">
+                        {party.name}
+                        {party.taxId && (
+                          <div className="text-xs text-muted-foreground font-mono">{party.taxId}</div>
+                        )}
+                      </td>
+                      <td className="text-right py-2">{party.count}</td>
+                      <td className="text-right py-2">{formatCurrency(party.totalAmount)}</td>
+                      <td className="text-right py-2">{formatCurrency(party.taxAmount)}</td>
+                      <td className="text-right py-2">{(party.share * 100).toFixed(1)}%</td>
+                      {comparing && (
+                        <td className="text-right py-2">
+                          {formatCurrency(party.previous?.totalAmount || 0)}
+                        </td>
+                      )}
+                      {comparing && (
+                        <td className="text-right py-2">
+                          <ChangeRate party={party} />
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                  {data.others && (
+                    <tr className="border-b text-muted-foreground">
+                      <td className="py-2">其他 {data.others.parties} 家</td>
+                      <td className="text-right py-2">{data.others.count}</td>
+                      <td className="text-right py-2">{formatCurrency(data.others.totalAmount)}</td>
+                      <td className="text-right py-2">{formatCurrency(data.others.taxAmount)}</td>
+                      <td className="text-right py-2">
+                        {data.total.totalAmount > 0
+                          ? ((data.others.totalAmount / data.total.totalAmount) * 100).toFixed(1)
+                          : "0.0"}
+                        %
+                      </td>
+                      {comparing && <td />}
+                      {comparing && <td />}
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {data.comparison && (
+              <p className="text-xs text-muted-foreground">
+                对比期：{format(new Date(data.comparison.start), "yyyy-MM-dd")} 至{" "}
+                {format(new Date(data.comparison.end), "yyyy-MM-dd")}，合计{" "}
+                {formatCurrency(data.comparison.total.totalAmount)}
+              </p>
+            )}
+
+            {selected && (
+              <div className="border rounded-lg p-3">
+                <p className="text-sm font-medium mb-2">{selected.name} 的发票</p>
+                {documentsLoading ? (
+                  <div className="py-6 flex justify-center">
+                    <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                  </div>
+                ) : documents.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2">发票号码</th>
+                        <th className="text-left py-2">开票日期</th>
+                        <th className="text-left py-2">{role === "seller" ? "购买方" : "销售方"}</th>
+                        <th className="text-right py-2">金额</th>
+                        <th className="text-right py-2">税额</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {documents.map((doc) => (
+                        <tr key={doc.id} className="border-b">
+                          <td className="py-2">
+                            <Link href={`/documents/${doc.id}`} className="text-primary hover:underline">
+                              {doc.invoiceNo || doc.fileName}
+                            </Link>
+                          </td>
+                          <td className="py-2">
+                            {doc.invoiceDate ? format(new Date(doc.invoiceDate), "yyyy-MM-dd") : "-"}
+                          </td>
+                          <td className="py-2">
+                            {(role === "seller" ? doc.buyerName : doc.sellerName) || "-"}
+                          </td>
+                          <td className="text-right py-2">
+                            {doc.amount ? formatCurrency(doc.amount) : "-"}
+                          </td>
+                          <td className="text-right py-2">
+                            {doc.taxAmount ? formatCurrency(doc.taxAmount) : "-"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="py-6 text-center text-sm text-muted-foreground">暂无发票</p>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="py-12 text-center text-muted-foreground">
+            暂无数据
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 /**
  * 发票金额报表页面
  */
@@ -86,8 +391,11 @@ export default function InvoiceReportsPage() {
   const [range, setRange] = useState("this_month");
   const [customStart, setCustomStart] = useState("");
   const [customEnd, setCustomEnd] = useState("");
+  const [basis, setBasis] = useState("invoice");
   const [loading, setLoading] = useState(true);
   const [invoiceData, setInvoiceData] = useState<any>(null);
+  const [taxData, setTaxData] = useState<TaxSummary | null>(null);
+  const [queryString, setQueryString] = useState("");
 
   // 权限检查
   useEffect(() => {
@@ -111,14 +419,22 @@ export default function InvoiceReportsPage() {
         range: "custom",
         startDate: dateRange.startDate,
         endDate: dateRange.endDate,
+        basis,
       });
 
-      const res = await fetch(`/api/reports/invoice?${params.toString()}`);
-      const result = await res.json();
+      const [res, taxRes] = await Promise.all([
+        fetch(`/api/reports/invoice?${params.toString()}`),
+        fetch(`/api/reports/invoice/tax?${params.toString()}`),
+      ]);
+      const [result, taxResult] = await Promise.all([res.json(), taxRes.json()]);
 
       if (result.success) {
         setInvoiceData(result.data);
       }
+      if (taxResult.success) {
+        setTaxData(taxResult.data);
+      }
+      setQueryString(params.toString());
     } catch (error) {
       console.error("Failed to fetch reports:", error);
     } finally {
@@ -130,7 +446,7 @@ export default function InvoiceReportsPage() {
     if (user && user.permissions.canViewReports) {
       fetchReports();
     }
-  }, [range, customStart, customEnd, user]);
+  }, [range, customStart, customEnd, basis, user]);
 
   if (!user || !user.permissions.canViewReports) {
     return null;
@@ -182,6 +498,21 @@ export default function InvoiceReportsPage() {
                 </Select>
               </div>
 
+              <div className="flex-1">
+                <label className="text-sm font-medium mb-2 block">日期口径</label>
+                <Select
+                  value={basis}
+                  onChange={(e) => setBasis(e.target.value)}
+                  className="w-full md:w-40"
+                >
+                  {DATE_BASIS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+
               {range === "custom" && (
                 <>
                   <div className="flex-1">
@@ -315,6 +646,121 @@ export default function InvoiceReportsPage() {
               </CardContent>
             </Card>
 
+            {/* 进项税额汇总 */}
+            <Card className="mb-6">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base flex items-center">
+                    <Receipt className="h-5 w-5 mr-2" />
+                    进项税额汇总
+                  </CardTitle>
+                  {user.permissions.canExportDocuments && (
+                    <div className="flex gap-2">
+                      <a href={`/api/reports/invoice/tax?${queryString}&format=csv`}>
+                        <Button variant="outline" size="sm">
+                          <Download className="h-4 w-4 mr-1" />
+                          CSV
+                        </Button>
+                      </a>
+                      <a href={`/api/reports/invoice/tax?${queryString}&format=xlsx`}>
+                        <Button variant="outline" size="sm">
+                          <Download className="h-4 w-4 mr-1" />
+                          Excel
+                        </Button>
+                      </a>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {taxData && taxData.total.count > 0 ? (
+                  <div className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                      <div className="p-3 rounded-lg bg-green-50">
+                        <div className="text-muted-foreground">可抵扣税额</div>
+                        <div className="text-lg font-bold">
+                          {formatCurrency(taxData.deductible.taxAmount)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {taxData.deductible.count} 张发票
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-gray-100">
+                        <div className="text-muted-foreground">不可抵扣税额</div>
+                        <div className="text-lg font-bold">
+                          {formatCurrency(taxData.nonDeductible.taxAmount)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {taxData.nonDeductible.count} 张发票
+                        </div>
+                      </div>
+                      <div className="p-3 rounded-lg bg-blue-50">
+                        <div className="text-muted-foreground">税额合计</div>
+                        <div className="text-lg font-bold">
+                          {formatCurrency(taxData.total.taxAmount)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {taxData.total.count} 张发票
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left py-2">税率</th>
+                            <th className="text-right py-2">发票数</th>
+                            <th className="text-right py-2">金额（不含税）</th>
+                            <th className="text-right py-2">税额</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {taxData.byTaxRate.map((item) => (
+                            <tr key={item.taxRate} className="border-b">
+                              <td className="py-2">{TAX_RATE_LABELS[item.taxRate] || item.taxRate}</td>
+                              <td className="text-right py-2">{item.count}</td>
+                              <td className="text-right py-2">
+                                {formatCurrency(item.amountWithoutTax)}
+                              </td>
+                              <td className="text-right py-2">{formatCurrency(item.taxAmount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left py-2">发票种类</th>
+                            <th className="text-right py-2">发票数</th>
+                            <th className="text-right py-2">金额（不含税）</th>
+                            <th className="text-right py-2">税额</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {taxData.byKind.map((item) => (
+                            <tr key={item.kind} className="border-b">
+                              <td className="py-2">{INVOICE_KIND_LABELS[item.kind]}</td>
+                              <td className="text-right py-2">{item.count}</td>
+                              <td className="text-right py-2">
+                                {formatCurrency(item.amountWithoutTax)}
+                              </td>
+                              <td className="text-right py-2">{formatCurrency(item.taxAmount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="py-12 text-center text-muted-foreground">
+                    暂无数据
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* 明细列表 */}
             <Card>
               <CardHeader>
@@ -364,6 +810,9 @@ export default function InvoiceReportsPage() {
             </Card>
           </>
         )}
+
+        {/* 往来单位分析（独立加载，切换筛选时保留选项） */}
+        <PartyAnalytics queryString={queryString} />
       </div>
     </main>
   );
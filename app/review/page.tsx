@@ -0,0 +1,563 @@
+/**
+ * 人工审核页面
+ * 列出低置信度或校验有问题的识别结果，审核人可直接通过或修改字段后通过；
+ * 可对照原图核对字段，点击原图上的版面区域将文字填入字段
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  ClipboardCheck,
+  Loader2,
+  Check,
+  ExternalLink,
+  Image as ImageIcon,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { LayoutViewer, blockText } from "@/components/LayoutViewer";
+import { formatDateTime } from "@/lib/utils";
+import { useAuth } from "@/lib/auth-context";
+import { format } from "date-fns";
+import {
+  DocumentReview,
+  DocumentStatus,
+  DocumentType,
+  DocumentValidation,
+  FieldConfidence,
+  FieldRegion,
+  LayoutDetail,
+  PageSize,
+  TypeDetection,
+  ValidationSeverity,
+  ValidationWarning,
+} from "@/types/document";
+
+/**
+ * 审核队列中的文档
+ */
+interface ReviewQueueItem {
+  id: string;
+  fileName: string;
+  fileUrl: string;
+  fileType: string;
+  documentType: DocumentType;
+  status: DocumentStatus;
+  uploadDate: string;
+  confidence?: number;
+  detection?: TypeDetection;
+  parsedData?: Record<string, any> & { fieldConfidence?: Record<string, FieldConfidence> };
+  validation?: DocumentValidation;
+  review?: DocumentReview;
+}
+
+/**
+ * 当前生效的审核阈值
+ */
+interface ReviewThresholds {
+  enabled: boolean;
+  ocrConfidence: number;
+  detectionConfidence: number;
+  validationSeverity: ValidationSeverity | "none";
+  fieldConfidence: number;
+}
+
+/**
+ * 队列筛选选项
+ */
+const QUEUE_STATUS_OPTIONS = [
+  { value: "pending", label: "待审核" },
+  { value: "reviewed", label: "已审核" },
+  { value: "approved", label: "直接通过" },
+  { value: "corrected", label: "修改后通过" },
+];
+
+/**
+ * 审核原因映射
+ */
+const REVIEW_REASON_LABELS: Record<string, string> = {
+  ocr_confidence: "OCR 置信度低",
+  detection_confidence: "类型识别置信度低",
+  validation: "校验警告",
+  field_confidence: "字段置信度低",
+};
+
+/**
+ * 文档类型映射
+ */
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  invoice: "发票",
+  certificate: "证书",
+  resume: "简历",
+  handwritten: "手写笔记",
+  financial_report: "财务报表",
+  custom: "自定义",
+  other: "其他",
+};
+
+/**
+ * 可编辑字段名称（未列出的字段显示字段名）
+ */
+const FIELD_LABELS: Record<string, string> = {
+  invoiceType: "发票种类",
+  invoiceCode: "发票代码",
+  invoiceNo: "发票号码",
+  invoiceDate: "开票日期",
+  amount: "价税合计",
+  amountWithoutTax: "不含税金额",
+  taxAmount: "税额",
+  sellerName: "销售方",
+  sellerTaxId: "销售方税号",
+  buyerName: "购买方",
+  buyerTaxId: "购买方税号",
+  checkCode: "校验码",
+};
+
+/**
+ * 可直接编辑的字段：字符串、数字和日期（明细等嵌套字段请在数据中整体修改）
+ */
+function editableFields(section: Record<string, any> | undefined): string[] {
+  const fields = new Set(
+    Object.keys(FIELD_LABELS).filter((field) => section?.[field] !== undefined)
+  );
+  for (const [field, value] of Object.entries(section || {})) {
+    if (field !== "_id" && (typeof value === "string" || typeof value === "number")) {
+      fields.add(field);
+    }
+  }
+  return [...fields];
+}
+
+/**
+ * 字段值转为输入框内容（日期按本地时间取 yyyy-MM-dd）
+ */
+function toInputValue(field: string, value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (field.endsWith("Date") && typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "yyyy-MM-dd");
+  }
+  return String(value);
+}
+
+/**
+ * 单个待审核文档
+ */
+function ReviewItem({
+  doc,
+  canReview,
+  thresholdsFieldConfidence,
+  onReviewed,
+}: {
+  doc: ReviewQueueItem;
+  canReview: boolean;
+  thresholdsFieldConfidence?: number;
+  onReviewed: () => void;
+}) {
+  const section = doc.parsedData?.[doc.documentType];
+  const fields = editableFields(section);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map((field) => [field, toInputValue(field, section?.[field])]))
+  );
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  // 对照原图：OCR 版面在展开时加载，点击版面区域将文字填入当前选中的字段
+  const [ocrResult, setOcrResult] = useState<{
+    layoutDetails?: LayoutDetail[];
+    pages?: PageSize[];
+    numPages?: number;
+  } | null>(null);
+  const [showViewer, setShowViewer] = useState(false);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [highlights, setHighlights] = useState<FieldRegion[]>([]);
+
+  const warningFields = new Set(
+    (doc.validation?.warnings || []).map((warning: ValidationWarning) => warning.field.split(".")[0])
+  );
+  const fieldConfidence = doc.parsedData?.fieldConfidence || {};
+  const fieldScore = (field: string): number | undefined =>
+    fieldConfidence[`${doc.documentType}.${field}`]?.score;
+  const weakThreshold = thresholdsFieldConfidence ?? 0;
+  const fieldRegions = (field: string): FieldRegion[] =>
+    fieldConfidence[`${doc.documentType}.${field}`]?.regions || [];
+
+  /**
+   * 展开 / 收起原图，首次展开时加载 OCR 版面
+   */
+  const toggleViewer = async () => {
+    setShowViewer(!showViewer);
+    if (ocrResult || showViewer) return;
+    try {
+      const res = await fetch(`/api/documents/${doc.id}`);
+      const data = res.ok ? await res.json() : null;
+      setOcrResult(data?.data?.ocrResult || {});
+    } catch (error) {
+      console.error("Failed to fetch OCR layout:", error);
+      setOcrResult({});
+    }
+  };
+
+  /**
+   * 将点击的版面区域文字填入当前选中的字段
+   */
+  const handleRegionClick = (block: LayoutDetail) => {
+    if (!activeField) return;
+    setValues({ ...values, [activeField]: blockText(block) });
+  };
+  const edited = fields.filter(
+    (field) => values[field] !== toInputValue(field, section?.[field])
+  );
+
+  /**
+   * 提交审核：有修改时提交修改后的解析结果
+   */
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError("");
+    try {
+      const body: { comment: string; parsedData?: Record<string, any> } = { comment };
+      if (edited.length > 0) {
+        const changes = Object.fromEntries(
+          edited.map((field) => {
+            const value = values[field].trim();
+            if (value === "") return [field, null];
+            return [field, typeof section?.[field] === "number" ? Number(value) : value];
+          })
+        );
+        body.parsedData = {
+          ...doc.parsedData,
+          [doc.documentType]: { ...section, ...changes },
+        };
+      }
+
+      const res = await fetch(`/api/documents/${doc.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.message || data.error || "审核失败");
+        return;
+      }
+      onReviewed();
+    } catch (error) {
+      console.error("Failed to review document:", error);
+      setError("审核失败");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const pending = doc.status === "needs_review";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex flex-wrap items-center gap-2">
+          <Link href={`/documents/${doc.id}`} className="hover:underline flex items-center">
+            {doc.fileName}
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </Link>
+          <Badge variant="outline">{DOCUMENT_TYPE_LABELS[doc.documentType] || doc.documentType}</Badge>
+          {doc.review?.reasons?.map((reason) => (
+            <Badge key={reason.code} variant="warning">
+              {REVIEW_REASON_LABELS[reason.code] || reason.code}
+            </Badge>
+          ))}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          上传于 {formatDateTime(doc.uploadDate)}
+          {typeof doc.confidence === "number" && ` · OCR 置信度 ${Math.round(doc.confidence)}`}
+          {doc.detection?.confidence !== undefined &&
+            ` · 类型识别置信度 ${Math.round(doc.detection.confidence)}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {!!doc.review?.reasons?.length && (
+          <ul className="space-y-1 text-yellow-800">
+            {doc.review.reasons.map((reason) => (
+              <li key={reason.code}>{reason.message}</li>
+            ))}
+          </ul>
+        )}
+
+        {!pending && doc.review && (
+          <p className="text-muted-foreground">
+            {doc.review.status === "corrected" ? "修改后通过" : "直接通过"}：
+            {doc.review.reviewerName || doc.review.reviewedBy}
+            {doc.review.reviewedAt && ` · ${formatDateTime(doc.review.reviewedAt)}`}
+            {doc.review.comment && ` · ${doc.review.comment}`}
+          </p>
+        )}
+
+        {pending && (
+          <>
+            <div className={showViewer ? "grid grid-cols-1 lg:grid-cols-2 gap-4" : ""}>
+              {fields.length > 0 ? (
+                <div
+                  className={`grid grid-cols-1 gap-3 self-start ${
+                    showViewer ? "md:grid-cols-2" : "md:grid-cols-3"
+                  }`}
+                >
+                  {fields.map((field) => (
+                    <div
+                      key={field}
+                      onMouseEnter={() => setHighlights(fieldRegions(field))}
+                      onMouseLeave={() => setHighlights([])}
+                    >
+                      <label
+                        className={`text-xs mb-1 flex justify-between ${
+                          warningFields.has(field) ||
+                          (fieldScore(field) ?? 100) < weakThreshold
+                            ? "text-red-600 font-medium"
+                            : "text-muted-foreground"
+                        }`}
+                      >
+                        <span>{FIELD_LABELS[field] || field}</span>
+                        {fieldScore(field) !== undefined && (
+                          <span title="字段置信度">{fieldScore(field)}</span>
+                        )}
+                      </label>
+                      <Input
+                        value={values[field]}
+                        onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                        onFocus={() => setActiveField(field)}
+                        disabled={!canReview}
+                        className={`${edited.includes(field) ? "border-blue-500" : ""} ${
+                          showViewer && activeField === field ? "ring-2 ring-blue-300" : ""
+                        }`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-muted-foreground">暂无可直接编辑的字段，请在文档详情中查看识别结果</p>
+              )}
+
+              {showViewer &&
+                (ocrResult ? (
+                  <LayoutViewer
+                    documentId={doc.id}
+                    fileUrl={doc.fileUrl}
+                    fileType={doc.fileType}
+                    fileName={doc.fileName}
+                    layoutDetails={ocrResult.layoutDetails}
+                    pages={ocrResult.pages}
+                    numPages={ocrResult.numPages}
+                    highlights={highlights}
+                    onRegionClick={handleRegionClick}
+                  />
+                ) : (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ))}
+            </div>
+
+            {canReview && (
+              <div className="flex flex-col md:flex-row gap-3 md:items-center">
+                <Input
+                  placeholder="审核备注（可选）"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  className="md:flex-1"
+                />
+                <Button variant="outline" onClick={toggleViewer}>
+                  <ImageIcon className="h-4 w-4 mr-2" />
+                  {showViewer ? "收起原图" : "对照原图"}
+                </Button>
+                <Button onClick={handleSubmit} disabled={submitting}>
+                  {submitting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Check className="h-4 w-4 mr-2" />
+                  )}
+                  {edited.length > 0 ? `保存修改并通过（${edited.length}）` : "审核通过"}
+                </Button>
+              </div>
+            )}
+            {error && <p className="text-red-600">{error}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * 人工审核页面
+ */
+export default function ReviewPage() {
+  const { hasPermission } = useAuth();
+  const [documents, setDocuments] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("pending");
+  const [reason, setReason] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [pendingByReason, setPendingByReason] = useState<Record<string, number>>({});
+  const [thresholds, setThresholds] = useState<ReviewThresholds | null>(null);
+
+  /**
+   * 获取审核队列
+   */
+  const fetchQueue = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status, page: String(page), limit: "10" });
+      if (reason) params.append("reason", reason);
+
+      const res = await fetch(`/api/review?${params}`);
+      if (res.ok) {
+        const data = await res.json();
+        setDocuments(data.data.documents);
+        setTotalPages(data.data.pagination.totalPages);
+        setTotal(data.data.pagination.total);
+        setPendingByReason(data.data.pendingByReason);
+        setThresholds(data.data.thresholds);
+      }
+    } catch (error) {
+      console.error("Failed to fetch review queue:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [status, reason, page]);
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {/* 顶部导航栏 */}
+      <header className="border-b bg-white sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="p-2 bg-primary rounded-lg">
+              <ClipboardCheck className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">人工审核</h1>
+              <p className="text-sm text-muted-foreground">
+                低置信度或校验有问题的识别结果，审核通过后计入报表
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 max-w-6xl">
+        {/* 筛选 */}
+        <Card className="mb-6">
+          <CardContent className="pt-6 space-y-3">
+            <div className="flex flex-col md:flex-row gap-4">
+              <Select
+                value={status}
+                onChange={(e) => {
+                  setStatus(e.target.value);
+                  setPage(1);
+                }}
+                className="md:w-40"
+              >
+                {QUEUE_STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+              <Select
+                value={reason}
+                onChange={(e) => {
+                  setReason(e.target.value);
+                  setPage(1);
+                }}
+                className="md:w-56"
+              >
+                <option value="">全部原因</option>
+                {Object.entries(REVIEW_REASON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                    {pendingByReason[value] ? `（待审 ${pendingByReason[value]}）` : ""}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            {thresholds && (
+              <p className="text-xs text-muted-foreground">
+                {thresholds.enabled
+                  ? `审核阈值：OCR 置信度低于 ${thresholds.ocrConfidence}，类型识别置信度低于 ${
+                      thresholds.detectionConfidence
+                    }${
+                      thresholds.validationSeverity === "none"
+                        ? ""
+                        : `，校验警告达到「${thresholds.validationSeverity}」`
+                    }${
+                      thresholds.fieldConfidence > 0
+                        ? `，字段置信度低于 ${thresholds.fieldConfidence}`
+                        : ""
+                    }`
+                  : "未启用自动审核标记（REVIEW_ENABLED=false）"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : documents.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              {status === "pending" ? "没有待审核的文档" : "暂无审核记录"}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">共 {total} 个文档</p>
+            {documents.map((doc) => (
+              <ReviewItem
+                key={doc.id}
+                doc={doc}
+                canReview={hasPermission("canReprocessDocuments")}
+                thresholdsFieldConfidence={thresholds?.fieldConfidence}
+                onReviewed={fetchQueue}
+              />
+            ))}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  上一页
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {page} / {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  下一页
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
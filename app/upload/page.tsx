@@ -4,7 +4,7 @@
 
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useDropzone } from "react-dropzone";
 import {
@@ -33,6 +33,11 @@ const DOCUMENT_TYPES = [
   { value: "financial_report", label: "财务报表" },
 ];
 
+/**
+ * 自定义文档类型在选项中的前缀（选项值为 custom:<key>）
+ */
+const CUSTOM_TYPE_PREFIX = "custom:";
+
 /**
  * 上传状态
  */
@@ -45,22 +50,37 @@ export default function UploadPage() {
   const router = useRouter();
   const [files, setFiles] = useState<File[]>([]);
   const [documentType, setDocumentType] = useState("invoice");
+  const [customTypes, setCustomTypes] = useState<Array<{ key: string; name: string }>>([]);
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
   const [uploadProgress, setUploadProgress] = useState(0);
   const [errorMessage, setErrorMessage] = useState("");
   const [uploadedDocs, setUploadedDocs] = useState<Array<{ id: string; name: string }>>([]);
 
+  /**
+   * 加载已启用的自定义文档类型
+   */
+  useEffect(() => {
+    fetch("/api/document-types?enabled=true")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setCustomTypes(data?.data?.types || []))
+      .catch(() => setCustomTypes([]));
+  }, []);
+
   /**
    * 处理文件拖放
    */
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const validFiles = acceptedFiles.filter((file) => {
-      const isValidType = [
-        "image/png",
-        "image/jpeg",
-        "image/jpg",
-        "application/pdf",
-      ].includes(file.type);
+      // 浏览器通常无法识别 .ofd 的 MIME 类型，按扩展名判断
+      const isValidType =
+        [
+          "image/png",
+          "image/jpeg",
+          "image/jpg",
+          "application/pdf",
+          "application/xml",
+          "text/xml",
+        ].includes(file.type) || /\.(ofd|xml)$/i.test(file.name);
       const isValidSize = file.size <= 10 * 1024 * 1024; // 10MB
       return isValidType && isValidSize;
     });
@@ -80,6 +100,9 @@ export default function UploadPage() {
       "image/png": [".png"],
       "image/jpeg": [".jpg", ".jpeg"],
       "application/pdf": [".pdf"],
+      "application/xml": [".xml"],
+      "text/xml": [".xml"],
+      "application/ofd": [".ofd"],
     },
     maxSize: 10 * 1024 * 1024, // 10MB
   });
@@ -110,7 +133,12 @@ export default function UploadPage() {
       const file = files[i];
       const formData = new FormData();
       formData.append("file", file);
-      formData.append("documentType", documentType);
+      if (documentType.startsWith(CUSTOM_TYPE_PREFIX)) {
+        formData.append("documentType", "custom");
+        formData.append("customType", documentType.slice(CUSTOM_TYPE_PREFIX.length));
+      } else {
+        formData.append("documentType", documentType);
+      }
 
       try {
         const response = await fetch("/api/documents/upload", {
@@ -159,7 +187,7 @@ export default function UploadPage() {
               </div>
               <div>
                 <h1 className="text-xl font-bold">上传文档</h1>
-                <p className="text-sm text-muted-foreground">支持 PDF、JPG、PNG 格式</p>
+                <p className="text-sm text-muted-foreground">支持 PDF、JPG、PNG 及数电票 XML、OFD 格式</p>
               </div>
             </div>
             <Button variant="ghost" onClick={() => router.back()}>
@@ -191,6 +219,15 @@ export default function UploadPage() {
                     {type.label}
                   </option>
                 ))}
+                {customTypes.length > 0 && (
+                  <optgroup label="自定义类型">
+                    {customTypes.map((type) => (
+                      <option key={type.key} value={`${CUSTOM_TYPE_PREFIX}${type.key}`}>
+                        {type.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
               </Select>
             </div>
 
@@ -217,7 +254,7 @@ export default function UploadPage() {
                   </p>
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  支持 PNG、JPG、PDF 格式，单个文件最大 10MB
+                  支持 PNG、JPG、PDF、XML、OFD 格式，单个文件最大 10MB
                 </div>
               </div>
             </div>
@@ -317,7 +354,7 @@ export default function UploadPage() {
             <CardTitle className="text-base">上传说明</CardTitle>
           </CardHeader>
           <CardContent className="text-sm text-muted-foreground space-y-2">
-            <p>• 支持的文件格式：PDF、JPG、JPEG、PNG</p>
+            <p>• 支持的文件格式：PDF、JPG、JPEG、PNG，数电票 XML、OFD（直接读取发票数据，无需 OCR）</p>
             <p>• 单个文件大小限制：10MB</p>
             <p>• 上传后系统将自动进行 OCR 识别和数据提取</p>
             <p>• 处理时间通常在 10-30 秒，请稍候</p>
@@ -0,0 +1,269 @@
+/**
+ * 版面区域查看器
+ * 在原图（PDF 按页转换为图片）上叠加 OCR 版面区域（bbox_2d），
+ * 支持缩放、拖动平移和翻页；高亮指定区域，点击区域返回该区域
+ */
+
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ZoomIn,
+  ZoomOut,
+  Maximize2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FieldRegion, LayoutDetail, PageSize } from "@/types/document";
+
+/**
+ * 缩放范围和步长
+ */
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const SCALE_STEP = 1.25;
+
+/**
+ * 拖动超过该距离（像素）不视为点击
+ */
+const DRAG_THRESHOLD = 3;
+
+interface LayoutViewerProps {
+  documentId: string;
+  fileUrl: string;
+  fileType: string;
+  fileName?: string;
+  layoutDetails?: LayoutDetail[];
+  pages?: PageSize[];
+  numPages?: number;
+  // 需要高亮的区域（如鼠标悬停字段的来源区域），首个区域所在页自动翻到
+  highlights?: FieldRegion[];
+  // 点击区域回调，未提供时区域不可点击
+  onRegionClick?: (block: LayoutDetail) => void;
+}
+
+/**
+ * 版面块文本（去除 HTML 标签和多余空白），用于提示和复制到字段
+ */
+export function blockText(block: LayoutDetail): string {
+  return (block.content || "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function sameRegion(block: LayoutDetail, region: FieldRegion): boolean {
+  return (block.page || 1) === region.page && block.index === region.index;
+}
+
+/**
+ * 版面区域查看器
+ */
+export function LayoutViewer({
+  documentId,
+  fileUrl,
+  fileType,
+  fileName,
+  layoutDetails = [],
+  pages = [],
+  numPages,
+  highlights = [],
+  onRegionClick,
+}: LayoutViewerProps) {
+  const isPdf = fileType === "application/pdf";
+  const pageCount = isPdf
+    ? Math.max(numPages || 1, ...layoutDetails.map((block) => block.page || 1))
+    : 1;
+
+  const [page, setPage] = useState(1);
+  const [scale, setScale] = useState(MIN_SCALE);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageError, setImageError] = useState(false);
+  const [showRegions, setShowRegions] = useState(true);
+  const drag = useRef<{ x: number; y: number; offsetX: number; offsetY: number; moved: boolean } | null>(
+    null
+  );
+
+  // 高亮区域不在当前页时翻到其所在页
+  const highlightKey = highlights.map((region) => `${region.page}:${region.index}`).join(",");
+  useEffect(() => {
+    if (highlights.length > 0 && !highlights.some((region) => region.page === page)) {
+      setPage(highlights[0].page);
+    }
+  }, [highlightKey]);
+
+  useEffect(() => {
+    setNaturalSize(null);
+    setImageError(false);
+  }, [page]);
+
+  const blocks = layoutDetails.filter(
+    (block) => (block.page || 1) === page && Array.isArray(block.bbox_2d)
+  );
+
+  // bbox_2d 的坐标系：OCR 记录的页面尺寸，其次为版面块上的页面尺寸，最后为图片原始尺寸
+  const pageSize = pages.find((size) => size.page === page);
+  const width = pageSize?.width || blocks.find((block) => block.width)?.width || naturalSize?.width;
+  const height =
+    pageSize?.height || blocks.find((block) => block.height)?.height || naturalSize?.height;
+
+  const src = isPdf ? `/api/documents/${documentId}/pages/${page}` : fileUrl;
+
+  const zoom = (factor: number) => {
+    const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale * factor));
+    setScale(next);
+    if (next === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  };
+
+  const reset = () => {
+    setScale(MIN_SCALE);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    drag.current = { x: e.clientX, y: e.clientY, offsetX: offset.x, offsetY: offset.y, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current || scale === MIN_SCALE) return;
+    const dx = e.clientX - current.x;
+    const dy = e.clientY - current.y;
+    if (!current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!current.moved) {
+      current.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setOffset({ x: current.offsetX + dx, y: current.offsetY + dy });
+  };
+
+  const handlePointerUp = () => {
+    // 延迟清除，供区域的 click 事件判断是否为拖动
+    setTimeout(() => {
+      drag.current = null;
+    }, 0);
+  };
+
+  const handleRegionClick = (block: LayoutDetail) => {
+    if (drag.current?.moved || !onRegionClick) return;
+    onRegionClick(block);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {pageCount > 1 && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-muted-foreground">
+              第 {page} / {pageCount} 页
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <Button variant="outline" size="sm" onClick={() => zoom(1 / SCALE_STEP)} disabled={scale <= MIN_SCALE}>
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="text-muted-foreground w-12 text-center">{Math.round(scale * 100)}%</span>
+        <Button variant="outline" size="sm" onClick={() => zoom(SCALE_STEP)} disabled={scale >= MAX_SCALE}>
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={reset} title="重置缩放">
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+        {layoutDetails.length > 0 && (
+          <label className="flex items-center gap-1 text-muted-foreground ml-auto">
+            <input
+              type="checkbox"
+              checked={showRegions}
+              onChange={(e) => setShowRegions(e.target.checked)}
+            />
+            显示版面区域
+          </label>
+        )}
+      </div>
+
+      <div
+        className={`relative overflow-hidden rounded-lg border border-gray-200 bg-gray-50 select-none ${
+          scale > MIN_SCALE ? "cursor-grab active:cursor-grabbing" : ""
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <div
+          className="relative origin-top-left"
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+        >
+          {imageError ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">原图加载失败</div>
+          ) : (
+            <img
+              src={src}
+              alt={fileName || ""}
+              draggable={false}
+              className="w-full h-auto"
+              onLoad={(e) =>
+                setNaturalSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+              onError={() => setImageError(true)}
+            />
+          )}
+
+          {!imageError &&
+            width &&
+            height &&
+            blocks.map((block) => {
+              const highlighted = highlights.some((region) => sameRegion(block, region));
+              if (!showRegions && !highlighted) return null;
+              const [x1, y1, x2, y2] = block.bbox_2d;
+              const text = blockText(block);
+
+              return (
+                <div
+                  key={`${block.page || 1}-${block.index}`}
+                  title={text ? `${block.label}：${text}` : block.label}
+                  onClick={() => handleRegionClick(block)}
+                  className={`absolute border transition-colors ${
+                    highlighted
+                      ? "border-2 border-red-500 bg-red-300/30"
+                      : "border-blue-400/60 hover:bg-blue-200/30"
+                  } ${onRegionClick ? "cursor-pointer" : ""}`}
+                  style={{
+                    left: `${(x1 / width) * 100}%`,
+                    top: `${(y1 / height) * 100}%`,
+                    width: `${((x2 - x1) / width) * 100}%`,
+                    height: `${((y2 - y1) / height) * 100}%`,
+                  }}
+                />
+              );
+            })}
+        </div>
+      </div>
+
+      {onRegionClick && layoutDetails.length > 0 && (
+        <p className="text-xs text-muted-foreground">点击版面区域可将其文字填入当前选中的字段</p>
+      )}
+    </div>
+  );
+}
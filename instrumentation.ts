@@ -0,0 +1,17 @@
+/**
+ * Next.js Instrumentation
+ * 服务启动时运行，启动文档处理任务 worker
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  try {
+    const { startJobWorker } = await import("@/lib/services/jobQueue");
+    startJobWorker();
+  } catch (error) {
+    console.error("✗ Failed to start job worker:", error);
+  }
+}
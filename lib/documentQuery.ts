@@ -0,0 +1,159 @@
+/**
+ * 文档查询条件构建
+ * 文档列表与批量处理共用同一套筛选条件
+ */
+
+import {
+  DocumentQuery,
+  DocumentType,
+  DocumentStatus,
+  DOCUMENT_STATUSES,
+  DOCUMENT_TYPES,
+  VERIFICATION_STATUSES,
+} from "@/types/document";
+
+/**
+ * 只能是字符串的筛选条件（请求体中的对象会被当作查询操作符）
+ */
+const STRING_FILTERS = ["documentType", "customType", "status", "startDate", "endDate", "search"];
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * 校验请求体中的筛选条件，返回错误信息，通过时返回 null
+ */
+export function validateDocumentFilters(input: unknown): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "filters 必须是对象";
+  }
+  const filters = input as Record<string, unknown>;
+
+  for (const key of STRING_FILTERS) {
+    const value = filters[key];
+    const values = key === "documentType" && Array.isArray(value) ? value : [value];
+    if (values.some((item) => item !== undefined && item !== null && typeof item !== "string")) {
+      return `${key} 必须是字符串`;
+    }
+  }
+
+  const documentTypes = ([] as unknown[]).concat(filters.documentType ?? []).filter(Boolean);
+  const invalidType = documentTypes.find((type) => !DOCUMENT_TYPES.includes(type as DocumentType));
+  if (invalidType !== undefined) {
+    return `无效的文档类型: ${invalidType}`;
+  }
+  if (filters.status && !DOCUMENT_STATUSES.includes(filters.status as DocumentStatus)) {
+    return `无效的文档状态: ${filters.status}`;
+  }
+  for (const key of ["startDate", "endDate"]) {
+    const value = text(filters[key]);
+    if (value && isNaN(new Date(value).getTime())) {
+      return `${key} 不是有效的日期`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 从键值对（查询字符串或请求体）中解析筛选条件，非字符串的值忽略
+ */
+export function parseDocumentFilters(input: Record<string, any>): DocumentQuery {
+  const documentType = input.documentType;
+  const startDate = text(input.startDate);
+  const endDate = text(input.endDate);
+
+  return {
+    documentType: Array.isArray(documentType)
+      ? (documentType.filter((type) => typeof type === "string") as DocumentType[])
+      : (text(documentType) as DocumentType | undefined),
+    customType: text(input.customType),
+    status: text(input.status) as DocumentStatus | undefined,
+    startDate: startDate ? new Date(startDate) : undefined,
+    endDate: endDate ? new Date(endDate) : undefined,
+    search: text(input.search),
+    duplicate:
+      input.duplicate === undefined || input.duplicate === ""
+        ? undefined
+        : input.duplicate === true || input.duplicate === "true",
+    validation: ["passed", "warning", "high"].includes(input.validation)
+      ? input.validation
+      : undefined,
+    verification:
+      input.verification === "unverified" || VERIFICATION_STATUSES.includes(input.verification)
+        ? input.verification
+        : undefined,
+  };
+}
+
+/**
+ * 构建查询条件
+ */
+export function buildDocumentQuery(params: DocumentQuery): any {
+  const query: any = {};
+
+  // 文档类型筛选
+  if (params.documentType) {
+    const types = Array.isArray(params.documentType)
+      ? params.documentType
+      : [params.documentType];
+    query.documentType = { $in: types };
+  }
+
+  // 自定义文档类型筛选
+  if (params.customType) {
+    query.customType = params.customType;
+  }
+
+  // 状态筛选
+  if (params.status) {
+    query.status = params.status;
+  }
+
+  // 日期范围筛选
+  if (params.startDate || params.endDate) {
+    query.uploadDate = {};
+    if (params.startDate) {
+      query.uploadDate.$gte = params.startDate;
+    }
+    if (params.endDate) {
+      query.uploadDate.$lte = params.endDate;
+    }
+  }
+
+  // 疑似重复筛选
+  if (params.duplicate !== undefined) {
+    query.duplicateOf = { $exists: params.duplicate };
+  }
+
+  // 校验结果筛选
+  if (params.validation === "passed") {
+    query["validation.maxSeverity"] = { $exists: false };
+    query["validation.checkedAt"] = { $exists: true };
+  } else if (params.validation === "warning") {
+    query["validation.maxSeverity"] = { $exists: true };
+  } else if (params.validation === "high") {
+    query["validation.maxSeverity"] = "high";
+  }
+
+  // 查验状态筛选
+  if (params.verification === "unverified") {
+    query.verification = { $exists: false };
+  } else if (params.verification) {
+    query["verification.status"] = params.verification;
+  }
+
+  // 搜索关键词
+  if (params.search) {
+    query.$or = [
+      { fileName: { $regex: params.search, $options: "i" } },
+      { "ocrResult.mdResults": { $regex: params.search, $options: "i" } },
+      { "parsedData.invoice.invoiceNo": { $regex: params.search, $options: "i" } },
+      { "parsedData.invoice.sellerName": { $regex: params.search, $options: "i" } },
+      { "parsedData.invoice.buyerName": { $regex: params.search, $options: "i" } },
+      { "parsedData.resume.name": { $regex: params.search, $options: "i" } },
+    ];
+  }
+
+  return query;
+}
@@ -10,6 +10,43 @@ interface EnvConfig {
   glmApiKey: string;
   glmOcrApiUrl: string;
   glmChatApiUrl: string;
+  // 提交给 GLM-OCR 的文件形式：base64（默认，读取本地文件内联提交）或 url
+  glmOcrFileMode: "base64" | "url";
+
+  // LLM Backends（结构化解析）
+  llmDefaultBackend: string;
+  llmBackends: Record<string, LlmBackendConfig>;
+  llmTypeRoutes: Record<string, LlmRouteConfig>;
+
+  // OCR Provider
+  ocrProvider: string;
+  tesseractPath: string;
+  tesseractLang: string;
+  pdftoppmPath: string;
+  ocrDpi: number;
+  ocrFixtureDir: string;
+
+  // Invoice QR Code
+  invoiceQrEnabled: boolean;
+
+  // Invoice Verification（发票查验）
+  verificationProvider: string;
+  verificationApiUrl: string;
+  verificationApiKey: string;
+  verificationTimeoutMs: number;
+  // 解析完成后自动查验
+  verificationAuto: boolean;
+
+  // Human Review（人工审核）
+  reviewEnabled: boolean;
+  // OCR 置信度低于该值（0-100）时需要审核
+  reviewOcrConfidence: number;
+  // 文档类型识别置信度低于该值（0-100）时需要审核
+  reviewDetectionConfidence: number;
+  // 校验警告达到该严重程度时需要审核（none 为不因校验警告审核）
+  reviewValidationSeverity: "low" | "medium" | "high" | "none";
+  // 存在置信度低于该值（0-100）的字段时需要审核（0 为不检查）
+  reviewFieldConfidence: number;
 
   // JWT
   jwtSecret: string;
@@ -33,6 +70,55 @@ interface EnvConfig {
 
   // Cache
   cacheTtlSeconds: number;
+
+  // Processing Job Queue
+  jobWorkerEnabled: boolean;
+  jobConcurrency: number;
+  jobPollIntervalMs: number;
+  jobLeaseMs: number;
+  jobMaxAttempts: number;
+  bulkMaxDocuments: number;
+  bulkDefaultConcurrency: number;
+  bulkMaxConcurrency: number;
+
+  // Retry Policies（按处理阶段）
+  retryPolicies: {
+    ocr: RetryPolicyConfig;
+    ai_parse: RetryPolicyConfig;
+  };
+}
+
+/**
+ * 重试策略配置
+ */
+export interface RetryPolicyConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+  retryableStatusCodes: number[];
+}
+
+/**
+ * OpenAI 兼容的 Chat Completions 服务配置
+ */
+export interface LlmBackendConfig {
+  // 完整的 chat/completions 地址
+  apiUrl: string;
+  apiKey?: string;
+  // 默认模型
+  model: string;
+  timeoutMs?: number;
+  // 是否发送 response_format: json_object（服务端需支持）
+  jsonMode?: boolean;
+}
+
+/**
+ * 按文档类型选择的服务和模型
+ */
+export interface LlmRouteConfig {
+  backend?: string;
+  model?: string;
 }
 
 function getEnvVar(key: string, defaultValue?: string): string {
@@ -48,14 +134,61 @@ function parseNumber(value: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function parseBoolean(value: string, defaultValue: boolean): boolean {
+  if (value === "") return defaultValue;
+  return ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
 function parseStringArray(value: string): string[] {
   return value.split(",").map((s) => s.trim());
 }
 
+function parseJsonObject<T>(key: string): Record<string, T> {
+  const value = getEnvVar(key, "");
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("not an object");
+    }
+    return parsed;
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in environment variable ${key}: ${error.message}`);
+  }
+}
+
+function parseLlmRoutes(key: string): Record<string, LlmRouteConfig> {
+  const routes: Record<string, LlmRouteConfig> = {};
+  // 值可以是服务名字符串，或 { backend, model }
+  for (const [type, route] of Object.entries(parseJsonObject<string | LlmRouteConfig>(key))) {
+    routes[type] = typeof route === "string" ? { backend: route } : route;
+  }
+  return routes;
+}
+
+function parseSeverity(value: string): EnvConfig["reviewValidationSeverity"] {
+  return (["low", "medium", "high", "none"] as const).find((level) => level === value) || "high";
+}
+
+function parseRetryPolicy(prefix: string): RetryPolicyConfig {
+  const jitter = parseFloat(getEnvVar(`${prefix}_JITTER_RATIO`, "0.5"));
+  return {
+    maxAttempts: parseNumber(getEnvVar(`${prefix}_MAX_ATTEMPTS`, "4"), 4),
+    baseDelayMs: parseNumber(getEnvVar(`${prefix}_BASE_DELAY_MS`, "5000"), 5000),
+    maxDelayMs: parseNumber(getEnvVar(`${prefix}_MAX_DELAY_MS`, "300000"), 300000), // 5 minutes
+    jitterRatio: isNaN(jitter) ? 0.5 : Math.min(1, Math.max(0, jitter)),
+    retryableStatusCodes: parseStringArray(
+      getEnvVar(`${prefix}_STATUS_CODES`, "408,429,500,502,503,504")
+    )
+      .map((code) => parseInt(code, 10))
+      .filter((code) => !isNaN(code)),
+  };
+}
+
 export const env: EnvConfig = {
   mongodbUri: getEnvVar("MONGODB_URI", "mongodb://localhost:27017/cai-orc"),
 
-  glmApiKey: getEnvVar("GLM_API_KEY"),
+  glmApiKey: getEnvVar("GLM_API_KEY", ""),
   glmOcrApiUrl: getEnvVar(
     "GLM_OCR_API_URL",
     "https://open.bigmodel.cn/api/paas/v4/layout_parsing"
@@ -64,6 +197,32 @@ export const env: EnvConfig = {
     "GLM_CHAT_API_URL",
     "https://open.bigmodel.cn/api/paas/v4/chat/completions"
   ),
+  glmOcrFileMode: getEnvVar("GLM_OCR_FILE_MODE", "base64") === "url" ? "url" : "base64",
+
+  llmDefaultBackend: getEnvVar("LLM_DEFAULT_BACKEND", "glm"),
+  llmBackends: parseJsonObject<LlmBackendConfig>("LLM_BACKENDS"),
+  llmTypeRoutes: parseLlmRoutes("LLM_TYPE_ROUTES"),
+
+  ocrProvider: getEnvVar("OCR_PROVIDER", "glm"),
+  tesseractPath: getEnvVar("TESSERACT_PATH", "tesseract"),
+  tesseractLang: getEnvVar("TESSERACT_LANG", "chi_sim+eng"),
+  pdftoppmPath: getEnvVar("PDFTOPPM_PATH", "pdftoppm"),
+  ocrDpi: parseNumber(getEnvVar("OCR_DPI", "200"), 200),
+  ocrFixtureDir: getEnvVar("OCR_FIXTURE_DIR", "./fixtures/ocr"),
+
+  invoiceQrEnabled: parseBoolean(getEnvVar("INVOICE_QR_ENABLED", "true"), true),
+
+  verificationProvider: getEnvVar("VERIFICATION_PROVIDER", "none"),
+  verificationApiUrl: getEnvVar("VERIFICATION_API_URL", ""),
+  verificationApiKey: getEnvVar("VERIFICATION_API_KEY", ""),
+  verificationTimeoutMs: parseNumber(getEnvVar("VERIFICATION_TIMEOUT_MS", "15000"), 15000),
+  verificationAuto: parseBoolean(getEnvVar("VERIFICATION_AUTO", "false"), false),
+
+  reviewEnabled: parseBoolean(getEnvVar("REVIEW_ENABLED", "true"), true),
+  reviewOcrConfidence: parseNumber(getEnvVar("REVIEW_OCR_CONFIDENCE", "60"), 60),
+  reviewDetectionConfidence: parseNumber(getEnvVar("REVIEW_DETECTION_CONFIDENCE", "70"), 70),
+  reviewValidationSeverity: parseSeverity(getEnvVar("REVIEW_VALIDATION_SEVERITY", "high")),
+  reviewFieldConfidence: parseNumber(getEnvVar("REVIEW_FIELD_CONFIDENCE", "50"), 50),
 
   jwtSecret: getEnvVar("JWT_SECRET", "change-this-secret-in-production"),
 
@@ -73,7 +232,10 @@ export const env: EnvConfig = {
 
   maxFileSize: parseNumber(getEnvVar("MAX_FILE_SIZE", "10485760"), 10485760), // 10MB default
   allowedFileTypes: parseStringArray(
-    getEnvVar("ALLOWED_FILE_TYPES", "image/png,image/jpeg,image/jpg,application/pdf")
+    getEnvVar(
+      "ALLOWED_FILE_TYPES",
+      "image/png,image/jpeg,image/jpg,application/pdf,application/xml,text/xml,application/ofd"
+    )
   ),
 
   uploadDir: getEnvVar("UPLOAD_DIR", "./public/uploads"),
@@ -83,13 +245,57 @@ export const env: EnvConfig = {
   rateLimitWindowMs: parseNumber(getEnvVar("RATE_LIMIT_WINDOW_MS", "900000"), 900000), // 15 minutes
 
   cacheTtlSeconds: parseNumber(getEnvVar("CACHE_TTL_SECONDS", "3600"), 3600), // 1 hour
+
+  jobWorkerEnabled: parseBoolean(getEnvVar("JOB_WORKER_ENABLED", "true"), true),
+  jobConcurrency: parseNumber(getEnvVar("JOB_CONCURRENCY", "2"), 2),
+  jobPollIntervalMs: parseNumber(getEnvVar("JOB_POLL_INTERVAL_MS", "2000"), 2000),
+  jobLeaseMs: parseNumber(getEnvVar("JOB_LEASE_MS", "300000"), 300000), // 5 minutes
+  jobMaxAttempts: parseNumber(getEnvVar("JOB_MAX_ATTEMPTS", "3"), 3),
+  bulkMaxDocuments: parseNumber(getEnvVar("BULK_MAX_DOCUMENTS", "1000"), 1000),
+  bulkDefaultConcurrency: parseNumber(getEnvVar("BULK_DEFAULT_CONCURRENCY", "1"), 1),
+  bulkMaxConcurrency: parseNumber(getEnvVar("BULK_MAX_CONCURRENCY", "5"), 5),
+
+  retryPolicies: {
+    ocr: parseRetryPolicy("RETRY_OCR"),
+    ai_parse: parseRetryPolicy("RETRY_AI_PARSE"),
+  },
 };
 
 // 验证必需的环境变量
 export function validateEnv(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
-  if (!env.glmApiKey || env.glmApiKey === "your_glm_api_key_here") {
+  if (!["glm", "tesseract", "fixture"].includes(env.ocrProvider)) {
+    errors.push(`OCR_PROVIDER must be one of glm, tesseract, fixture (got "${env.ocrProvider}").`);
+  }
+
+  // 实际用到的 LLM 服务
+  const usedBackends = new Set([
+    env.llmDefaultBackend,
+    ...Object.values(env.llmTypeRoutes).map((route) => route.backend || env.llmDefaultBackend),
+  ]);
+  for (const name of usedBackends) {
+    if (name === "glm" && !env.llmBackends.glm) continue;
+    const backend = env.llmBackends[name];
+    if (!backend) {
+      errors.push(`LLM backend "${name}" is not defined in LLM_BACKENDS.`);
+    } else if (!backend.apiUrl || !backend.model) {
+      errors.push(`LLM backend "${name}" requires apiUrl and model.`);
+    }
+  }
+
+  if (!["none", "api"].includes(env.verificationProvider)) {
+    errors.push(
+      `VERIFICATION_PROVIDER must be one of none, api (got "${env.verificationProvider}").`
+    );
+  } else if (env.verificationProvider === "api" && !env.verificationApiUrl) {
+    errors.push("VERIFICATION_API_URL is required when VERIFICATION_PROVIDER=api.");
+  }
+
+  // 使用内置 GLM 服务（OCR 或解析）时需要 API Key
+  const usesGlm =
+    env.ocrProvider === "glm" || (usedBackends.has("glm") && !env.llmBackends.glm);
+  if (usesGlm && (!env.glmApiKey || env.glmApiKey === "your_glm_api_key_here")) {
     errors.push("GLM_API_KEY is required. Please set a valid API key.");
   }
 
@@ -0,0 +1,144 @@
+/**
+ * 发票报表查询条件
+ * 发票报表与税额汇总共用：按日期口径（开票日期 / 上传日期 / 处理日期）筛选，
+ * 日期参数和按月分组均按北京时间处理
+ */
+
+/**
+ * 日期口径
+ * - invoice: 开票日期
+ * - upload: 上传日期
+ * - processed: 解析完成日期
+ */
+export type ReportDateBasis = "invoice" | "upload" | "processed";
+
+export const REPORT_DATE_BASES: ReportDateBasis[] = ["invoice", "upload", "processed"];
+
+/**
+ * 报表时区
+ */
+export const REPORT_TIMEZONE = "Asia/Shanghai";
+const REPORT_UTC_OFFSET = "+08:00";
+
+/**
+ * 各日期口径对应的文档字段
+ */
+export const REPORT_DATE_FIELDS: Record<ReportDateBasis, string> = {
+  invoice: "parsedData.invoice.invoiceDate",
+  upload: "uploadDate",
+  processed: "metadata.aiParsedAt",
+};
+
+/**
+ * 发票报表筛选条件
+ */
+export interface InvoiceReportFilters {
+  basis: ReportDateBasis;
+  startDate?: Date;
+  endDate?: Date;
+  includeDuplicates: boolean;
+}
+
+/**
+ * 解析日期参数
+ * YYYY-MM-DD 按北京时间取当天开始（start）或结束（end）；带时间的 ISO 字符串按其自身时区解析
+ * 无法解析时返回 null
+ */
+export function parseReportDate(value: string, boundary: "start" | "end"): Date | null {
+  const trimmed = value.trim();
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(trimmed)
+    ? new Date(
+        `${trimmed}T${boundary === "start" ? "00:00:00.000" : "23:59:59.999"}${REPORT_UTC_OFFSET}`
+      )
+    : new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 从查询字符串解析发票报表筛选条件，参数无效时返回错误信息
+ */
+export function parseInvoiceReportFilters(searchParams: URLSearchParams): {
+  filters?: InvoiceReportFilters;
+  error?: string;
+} {
+  const basis = (searchParams.get("basis") || "invoice") as ReportDateBasis;
+  if (!REPORT_DATE_BASES.includes(basis)) {
+    return { error: `日期口径无效：${basis}（可选 ${REPORT_DATE_BASES.join("、")}）` };
+  }
+
+  const filters: InvoiceReportFilters = {
+    basis,
+    includeDuplicates: searchParams.get("includeDuplicates") === "true",
+  };
+
+  const startDate = searchParams.get("startDate");
+  if (startDate) {
+    const parsed = parseReportDate(startDate, "start");
+    if (!parsed) return { error: `开始日期格式不正确：${startDate}` };
+    filters.startDate = parsed;
+  }
+
+  const endDate = searchParams.get("endDate");
+  if (endDate) {
+    const parsed = parseReportDate(endDate, "end");
+    if (!parsed) return { error: `结束日期格式不正确：${endDate}` };
+    filters.endDate = parsed;
+  }
+
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    return { error: "开始日期不能晚于结束日期" };
+  }
+
+  return { filters };
+}
+
+/**
+ * 构建发票报表的匹配条件（已完成的发票，默认排除疑似重复，按日期口径筛选）
+ */
+export function buildInvoiceReportMatch(filters: InvoiceReportFilters): any {
+  const match: any = {
+    documentType: "invoice",
+    status: "completed",
+    "parsedData.invoice": { $exists: true },
+  };
+
+  if (!filters.includeDuplicates) {
+    match.duplicateOf = { $exists: false };
+  }
+
+  if (filters.startDate || filters.endDate) {
+    const range: any = {};
+    if (filters.startDate) range.$gte = filters.startDate;
+    if (filters.endDate) range.$lte = filters.endDate;
+    match[REPORT_DATE_FIELDS[filters.basis]] = range;
+  }
+
+  return match;
+}
+
+/**
+ * 按日期口径取月份（北京时间，YYYY-MM）的聚合表达式
+ */
+export function reportMonthExpression(basis: ReportDateBasis): any {
+  return {
+    $dateToString: {
+      format: "%Y-%m",
+      date: `$${REPORT_DATE_FIELDS[basis]}`,
+      timezone: REPORT_TIMEZONE,
+    },
+  };
+}
+
+/**
+ * 报表区间标签（用于导出文件名）：由解析后的日期按北京时间格式化为 YYYY-MM-DD，
+ * 不使用原始查询字符串，避免引号、换行等字符进入响应头
+ */
+export function reportPeriodLabel(filters: InvoiceReportFilters): string {
+  const format = (date: Date) => date.toLocaleDateString("en-CA", { timeZone: REPORT_TIMEZONE });
+  return (
+    [filters.startDate, filters.endDate]
+      .filter((date): date is Date => !!date)
+      .map(format)
+      .join("_") || "all"
+  );
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { extractUppercaseAmount, parseChineseAmount } from "../chineseAmount";
+
+describe("parseChineseAmount", () => {
+  it("解析整数金额", () => {
+    expect(parseChineseAmount("壹佰元整")).toBe(100);
+    expect(parseChineseAmount("壹万零伍拾元正")).toBe(10050);
+    expect(parseChineseAmount("壹亿贰仟万元整")).toBe(120000000);
+  });
+
+  it("解析角分", () => {
+    expect(parseChineseAmount("壹仟贰佰叁拾肆元伍角陆分")).toBe(1234.56);
+    expect(parseChineseAmount("壹元零伍分")).toBe(1.05);
+    expect(parseChineseAmount("伍角")).toBe(0.5);
+  });
+
+  it("兼容繁体和圆", () => {
+    expect(parseChineseAmount("參佰陸拾圆整")).toBe(360);
+  });
+
+  it("无法解析时返回 null", () => {
+    expect(parseChineseAmount("")).toBeNull();
+    expect(parseChineseAmount("壹佰")).toBeNull();
+    expect(parseChineseAmount("壹佰元伍角贰")).toBeNull();
+    expect(parseChineseAmount("一百元")).toBeNull();
+  });
+});
+
+describe("extractUppercaseAmount", () => {
+  it("优先取大写字样之后的金额", () => {
+    const markdown = "备注：零元\n价税合计（大写） 壹仟壹佰叁拾元整 （小写）¥1130.00";
+    expect(extractUppercaseAmount(markdown)).toEqual({ text: "壹仟壹佰叁拾元整", value: 1130 });
+  });
+
+  it("没有大写金额时返回 null", () => {
+    expect(extractUppercaseAmount("合计 ¥100.00")).toBeNull();
+  });
+});
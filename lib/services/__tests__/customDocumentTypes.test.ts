@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCustomData, validateJsonSchema } from "../customDocumentTypes";
+import { CustomFieldSchema } from "@/types/document";
+
+const CONTRACT_SCHEMA: CustomFieldSchema = {
+  type: "object",
+  properties: {
+    contractNo: { type: "string", title: "合同编号", pattern: "^HT\\d+$" },
+    amount: { type: "number", title: "合同金额", minimum: 0 },
+    signDate: { type: "string", format: "date", title: "签订日期" },
+    stamped: { type: "boolean", title: "是否盖章" },
+    currency: { type: "string", enum: ["CNY", "USD"] },
+    items: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          quantity: { type: "integer" },
+        },
+        required: ["name"],
+      },
+    },
+  },
+  required: ["contractNo", "amount"],
+};
+
+describe("normalizeCustomData", () => {
+  it("按字段类型转换并丢弃未定义的字段", () => {
+    const { data, warnings } = normalizeCustomData(CONTRACT_SCHEMA, {
+      contractNo: " HT001 ",
+      amount: "¥1,200.50",
+      signDate: "2024年3月5日",
+      stamped: "是",
+      currency: "CNY",
+      items: [{ name: "服务器", quantity: "2" }, null],
+      extra: "丢弃",
+    });
+    expect(data).toEqual({
+      contractNo: "HT001",
+      amount: 1200.5,
+      signDate: new Date(Date.UTC(2024, 2, 5)),
+      stamped: true,
+      currency: "CNY",
+      items: [{ name: "服务器", quantity: 2 }],
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it("无法转换的值丢弃并记录警告（有值但无法转换时不再重复报缺少必填）", () => {
+    const { data, warnings } = normalizeCustomData(CONTRACT_SCHEMA, {
+      contractNo: "001",
+      amount: "一千",
+      signDate: "下周一",
+      currency: "EUR",
+      items: [{ quantity: 1.5 }],
+    });
+    expect(data).toEqual({ contractNo: "001", currency: "EUR", items: [{}] });
+    expect(warnings.map((warning) => [warning.code, warning.field])).toEqual([
+      ["schema_pattern", "contractNo"],
+      ["schema_type", "amount"],
+      ["schema_type", "signDate"],
+      ["schema_enum", "currency"],
+      ["schema_required", "items.0.name"],
+      ["schema_type", "items.0.quantity"],
+    ]);
+  });
+
+  it("解析结果不是对象时按空对象处理", () => {
+    const { data, warnings } = normalizeCustomData(CONTRACT_SCHEMA, ["HT001"]);
+    expect(data).toEqual({});
+    expect(warnings.map((warning) => warning.field)).toEqual(["contractNo", "amount"]);
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("根节点必须为 object", () => {
+    expect(validateJsonSchema(CONTRACT_SCHEMA)).toBeNull();
+    expect(validateJsonSchema({ type: "string" })).toContain("根节点");
+    expect(validateJsonSchema(null)).toContain("根节点");
+  });
+});
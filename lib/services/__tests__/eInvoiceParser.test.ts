@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import {
+  getStructuredFormat,
+  normalizeUploadMimeType,
+  parseInvoiceOfd,
+  parseInvoiceXml,
+} from "../eInvoiceParser";
+
+const INVOICE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<EInvoice>
+  <Header>
+    <EIid>24310000000000000001</EIid>
+    <InherentLabel>
+      <EInvoiceType><LabelName>电子发票（增值税专用发票）</LabelName></EInvoiceType>
+    </InherentLabel>
+  </Header>
+  <EInvoiceData>
+    <SellerInformation>
+      <SellerIdNum>91350100M000100Y43</SellerIdNum>
+      <SellerName>测试销售方有限公司</SellerName>
+    </SellerInformation>
+    <BuyerInformation>
+      <BuyerIdNum>110105123456789</BuyerIdNum>
+      <BuyerName>测试购买方有限公司</BuyerName>
+    </BuyerInformation>
+    <BasicInformation>
+      <TotalAmWithoutTax>1,000.00</TotalAmWithoutTax>
+      <TotalTaxAm>10.00</TotalTaxAm>
+      <TotalTax-includedAmount>1010.00</TotalTax-includedAmount>
+      <TotalTax-includedAmountInChinese>壹仟零壹拾元整</TotalTax-includedAmountInChinese>
+    </BasicInformation>
+    <IssuItemInformation>
+      <ItemName>*信息技术服务*技术咨询</ItemName>
+      <Quantity>1</Quantity>
+      <UnPrice>1000</UnPrice>
+      <Amount>1000.00</Amount>
+      <TaxRate>1%</TaxRate>
+      <ComTaxAm>10.00</ComTaxAm>
+    </IssuItemInformation>
+  </EInvoiceData>
+  <TaxSupervisionInfo>
+    <InvoiceNumber>24310000000000000001</InvoiceNumber>
+    <IssueTime>2024-03-15 10:00:00</IssueTime>
+  </TaxSupervisionInfo>
+</EInvoice>`;
+
+const OFD_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<ofd:OFD xmlns:ofd="http://www.ofdspec.org/2016">
+  <ofd:DocBody>
+    <ofd:DocInfo>
+      <ofd:CustomDatas>
+        <ofd:CustomData Name="发票号码">24310000000000000002</ofd:CustomData>
+        <ofd:CustomData Name="开票日期">2024年03月16日</ofd:CustomData>
+        <ofd:CustomData Name="价税合计">¥226.00</ofd:CustomData>
+        <ofd:CustomData Name="合计税额">26.00</ofd:CustomData>
+      </ofd:CustomDatas>
+    </ofd:DocInfo>
+  </ofd:DocBody>
+</ofd:OFD>`;
+
+function ofd(files: Record<string, string | Uint8Array>): Buffer {
+  const entries = Object.fromEntries(
+    Object.entries(files).map(([name, content]) => [
+      name,
+      typeof content === "string" ? strToU8(content) : content,
+    ])
+  );
+  return Buffer.from(zipSync(entries));
+}
+
+describe("getStructuredFormat / normalizeUploadMimeType", () => {
+  it("按扩展名或 MIME 类型识别", () => {
+    expect(getStructuredFormat("invoice.OFD")).toBe("ofd");
+    expect(getStructuredFormat("invoice", "text/xml")).toBe("xml");
+    expect(getStructuredFormat("invoice.pdf", "application/pdf")).toBeNull();
+  });
+
+  it("补全浏览器未提供的 MIME 类型", () => {
+    expect(normalizeUploadMimeType("invoice.ofd", "")).toBe("application/ofd");
+    expect(normalizeUploadMimeType("invoice.pdf", "application/pdf")).toBe("application/pdf");
+  });
+});
+
+describe("parseInvoiceXml", () => {
+  it("读取表头、明细和金额", () => {
+    const result = parseInvoiceXml(INVOICE_XML);
+    expect(result).toMatchObject({ format: "xml", numPages: 1, complete: true });
+    expect(result.invoice).toMatchObject({
+      invoiceNo: "24310000000000000001",
+      sellerName: "测试销售方有限公司",
+      sellerTaxId: "91350100M000100Y43",
+      buyerTaxId: "110105123456789",
+      invoiceType: "电子发票（增值税专用发票）",
+      amount: 1010,
+      taxAmount: 10,
+      amountWithoutTax: 1000,
+    });
+    expect(result.invoice.invoiceDate).toEqual(new Date("2024-03-15T00:00:00+08:00"));
+    expect(result.invoice.items).toEqual([
+      {
+        name: "*信息技术服务*技术咨询",
+        quantity: 1,
+        unitPrice: 1000,
+        amount: 1000,
+        taxRate: 0.01,
+        taxAmount: 10,
+      },
+    ]);
+    expect(result.text).toContain("价税合计（大写）：壹仟零壹拾元整");
+  });
+
+  it("缺少 EInvoice 节点时报错", () => {
+    expect(() => parseInvoiceXml("<Invoice />")).toThrow("缺少 EInvoice 节点");
+  });
+});
+
+describe("parseInvoiceOfd", () => {
+  it("优先读取内嵌的数电票 XML", () => {
+    const result = parseInvoiceOfd(
+      ofd({ "OFD.xml": OFD_XML, "Doc_0/Attachs/invoice.xml": INVOICE_XML })
+    );
+    expect(result).toMatchObject({ format: "ofd", complete: true });
+    expect(result.invoice.invoiceNo).toBe("24310000000000000001");
+    expect(result.invoice.items).toHaveLength(1);
+  });
+
+  it("没有内嵌 XML 时从 CustomDatas 读取表头字段", () => {
+    const result = parseInvoiceOfd(ofd({ "OFD.xml": OFD_XML }));
+    expect(result).toMatchObject({ format: "ofd", complete: false });
+    expect(result.invoice).toMatchObject({
+      invoiceNo: "24310000000000000002",
+      amount: 226,
+      taxAmount: 26,
+    });
+    expect(result.invoice.invoiceDate).toEqual(new Date("2024-03-16T00:00:00+08:00"));
+  });
+
+  it("只解压 XML 条目", () => {
+    const result = parseInvoiceOfd(
+      ofd({ "OFD.xml": OFD_XML, "Doc_0/Res/image.png": new Uint8Array(16 * 1024 * 1024) })
+    );
+    expect(result.invoice.invoiceNo).toBe("24310000000000000002");
+  });
+
+  it("拒绝解压后过大的 XML 条目", () => {
+    const buffer = ofd({ "OFD.xml": OFD_XML, "Doc_0/big.xml": new Uint8Array(11 * 1024 * 1024) });
+    expect(() => parseInvoiceOfd(buffer)).toThrow("超过大小限制");
+  });
+
+  it("不是 ZIP 或缺少 OFD.xml 时报错", () => {
+    expect(() => parseInvoiceOfd(Buffer.from("not a zip"))).toThrow("无法解压");
+    expect(() => parseInvoiceOfd(ofd({ "Doc_0/Document.xml": "<Document />" }))).toThrow(
+      "缺少 OFD.xml"
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatTaxRate,
+  isDeductible,
+  resolveInvoiceKind,
+  summarizeInvoiceTax,
+  taxRateKey,
+} from "../invoiceTax";
+
+describe("taxRateKey", () => {
+  it("小数、百分数和整数税率归为同一分组", () => {
+    expect(taxRateKey(0.13)).toBe("13%");
+    expect(taxRateKey("13%")).toBe("13%");
+    expect(taxRateKey(13)).toBe("13%");
+    expect(taxRateKey("0.13")).toBe("13%");
+  });
+
+  it("1% 不会被当作 100%", () => {
+    expect(taxRateKey("1%")).toBe("1%");
+    expect(taxRateKey(1)).toBe("1%");
+    expect(taxRateKey(0.01)).toBe("1%");
+  });
+
+  it("免税和无法识别的税率", () => {
+    expect(taxRateKey("免税")).toBe("exempt");
+    expect(taxRateKey(0)).toBe("exempt");
+    expect(taxRateKey(undefined)).toBe("unknown");
+    expect(taxRateKey("***")).toBe("unknown");
+  });
+});
+
+describe("resolveInvoiceKind", () => {
+  it("二维码种类代码优先于票面标题", () => {
+    expect(resolveInvoiceKind({ invoiceType: "增值税普通发票" }, "01")).toBe("special");
+    expect(resolveInvoiceKind({ invoiceType: "增值税专用发票" }, "04")).toBe("ordinary");
+  });
+
+  it("按票面标题判断", () => {
+    expect(resolveInvoiceKind({ invoiceType: "电子发票（增值税专用发票）" })).toBe("special");
+    expect(resolveInvoiceKind({ invoiceType: "电子发票（普通发票）" })).toBe("ordinary");
+    expect(resolveInvoiceKind({})).toBe("unknown");
+  });
+});
+
+describe("isDeductible", () => {
+  it("人工指定优先，其次专票且查验未作废", () => {
+    expect(isDeductible({ deductible: false }, "special")).toBe(false);
+    expect(isDeductible({ deductible: true }, "ordinary")).toBe(true);
+    expect(isDeductible({}, "special")).toBe(true);
+    expect(isDeductible({}, "special", "voided")).toBe(false);
+    expect(isDeductible({}, "ordinary")).toBe(false);
+  });
+});
+
+describe("summarizeInvoiceTax", () => {
+  it("按明细税率拆分并按发票去重计数", () => {
+    const summary = summarizeInvoiceTax([
+      {
+        id: "a",
+        qrInvoiceType: "01",
+        invoice: {
+          invoiceDate: new Date("2024-03-31T20:00:00Z"),
+          items: [
+            { name: "货物", amount: 100, taxRate: 0.13, taxAmount: 13 },
+            { name: "服务", amount: 200, taxRate: "6%" as unknown as number, taxAmount: 12 },
+          ],
+        },
+      },
+      {
+        id: "b",
+        invoice: {
+          invoiceType: "电子发票（普通发票）",
+          invoiceDate: new Date("2024-03-15T00:00:00+08:00"),
+          amount: 101,
+          taxAmount: 1,
+          amountWithoutTax: 100,
+        },
+      },
+    ]);
+
+    expect(summary.byTaxRate.map((row) => row.taxRate)).toEqual(["13%", "6%", "1%"]);
+    expect(summary.byMonth).toEqual([
+      { month: "2024-03", count: 1, amountWithoutTax: 100, taxAmount: 1, amount: 101 },
+      { month: "2024-04", count: 1, amountWithoutTax: 300, taxAmount: 25, amount: 325 },
+    ]);
+    expect(summary.deductible).toMatchObject({ count: 1, taxAmount: 25 });
+    expect(summary.nonDeductible).toMatchObject({ count: 1, taxAmount: 1 });
+    expect(summary.total).toEqual({ count: 2, amountWithoutTax: 400, taxAmount: 26, amount: 426 });
+  });
+
+  it("无开票日期和无法推算的税率归为 unknown", () => {
+    const summary = summarizeInvoiceTax([{ id: "a", invoice: { amount: 100 } }]);
+    expect(summary.rows).toEqual([
+      {
+        month: "unknown",
+        kind: "unknown",
+        taxRate: "unknown",
+        deductible: false,
+        count: 1,
+        amountWithoutTax: 100,
+        taxAmount: 0,
+        amount: 100,
+      },
+    ]);
+  });
+});
+
+describe("formatTaxRate", () => {
+  it("显示文本", () => {
+    expect(formatTaxRate("13%")).toBe("13%");
+    expect(formatTaxRate("exempt")).toBe("免税");
+    expect(formatTaxRate("unknown")).toBe("未知");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { normalizeInvoiceNumbers, toNumber, toTaxRate } from "../numberParsing";
+
+describe("toNumber", () => {
+  it("去除千分位、货币符号和单位", () => {
+    expect(toNumber("1,234.50")).toBe(1234.5);
+    expect(toNumber("¥ 100")).toBe(100);
+    expect(toNumber("￥1，000元")).toBe(1000);
+    expect(toNumber(-3)).toBe(-3);
+  });
+
+  it("百分数换算为小数", () => {
+    expect(toNumber("13%")).toBe(0.13);
+  });
+
+  it("无法识别时返回 undefined", () => {
+    expect(toNumber("abc")).toBeUndefined();
+    expect(toNumber("1.2.3")).toBeUndefined();
+    expect(toNumber(NaN)).toBeUndefined();
+    expect(toNumber(null)).toBeUndefined();
+  });
+});
+
+describe("toTaxRate", () => {
+  it("小数、百分数和整数统一为小数", () => {
+    expect(toTaxRate("13%")).toBe(0.13);
+    expect(toTaxRate(13)).toBe(0.13);
+    expect(toTaxRate("0.13")).toBe(0.13);
+  });
+
+  it("1% 和 1 均为 0.01", () => {
+    expect(toTaxRate("1%")).toBe(0.01);
+    expect(toTaxRate(1)).toBe(0.01);
+    expect(toTaxRate("1")).toBe(0.01);
+  });
+
+  it("免税和不征税为 0", () => {
+    expect(toTaxRate("免税")).toBe(0);
+    expect(toTaxRate("不征税")).toBe(0);
+  });
+});
+
+describe("normalizeInvoiceNumbers", () => {
+  it("将 LLM 返回的字符串金额和税率转为数字，无法识别的置空", () => {
+    const invoice = normalizeInvoiceNumbers({
+      invoiceNo: "12345678",
+      amount: "¥1,130.00",
+      taxAmount: "130",
+      amountWithoutTax: "***",
+      items: [{ name: "货物", quantity: "2", unitPrice: "500", amount: "1,000", taxRate: "13%" }, null],
+    });
+    expect(invoice).toEqual({
+      invoiceNo: "12345678",
+      amount: 1130,
+      taxAmount: 130,
+      amountWithoutTax: undefined,
+      items: [{ name: "货物", quantity: 2, unitPrice: 500, amount: 1000, taxRate: 0.13 }],
+    });
+  });
+
+  it("非对象原样返回", () => {
+    expect(normalizeInvoiceNumbers(null)).toBeNull();
+  });
+});
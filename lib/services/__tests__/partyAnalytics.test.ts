@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { comparisonPeriod } from "../partyAnalytics";
+
+const shanghai = (value: string) => new Date(`${value}+08:00`);
+
+describe("comparisonPeriod", () => {
+  it("整月范围环比取紧邻的相同月数", () => {
+    const period = comparisonPeriod(
+      shanghai("2024-03-01T00:00:00"),
+      shanghai("2024-03-31T23:59:59.999"),
+      "previous"
+    );
+    expect(period).toEqual({
+      start: shanghai("2024-02-01T00:00:00"),
+      end: shanghai("2024-02-29T23:59:59.999"),
+    });
+  });
+
+  it("多个整月按月数前移", () => {
+    const period = comparisonPeriod(
+      shanghai("2024-04-01T00:00:00"),
+      shanghai("2024-06-30T23:59:59.999"),
+      "previous"
+    );
+    expect(period).toEqual({
+      start: shanghai("2024-01-01T00:00:00"),
+      end: shanghai("2024-03-31T23:59:59.999"),
+    });
+  });
+
+  it("非整月范围环比取紧邻的相同时长", () => {
+    const period = comparisonPeriod(
+      shanghai("2024-03-10T00:00:00"),
+      shanghai("2024-03-19T23:59:59.999"),
+      "previous"
+    );
+    expect(period).toEqual({
+      start: shanghai("2024-02-29T00:00:00"),
+      end: shanghai("2024-03-09T23:59:59.999"),
+    });
+  });
+
+  it("同比前移 12 个月", () => {
+    const period = comparisonPeriod(
+      shanghai("2024-02-01T00:00:00"),
+      shanghai("2024-02-29T23:59:59.999"),
+      "year"
+    );
+    expect(period).toEqual({
+      start: shanghai("2023-02-01T00:00:00"),
+      end: shanghai("2023-02-28T23:59:59.999"),
+    });
+  });
+});
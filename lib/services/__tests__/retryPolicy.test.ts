@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computeBackoffDelay, isRetryableError } from "../retryPolicy";
+import type { RetryPolicyConfig } from "@/lib/env";
+
+const policy: RetryPolicyConfig = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  jitterRatio: 0.5,
+  retryableStatusCodes: [429, 500, 502, 503, 504],
+};
+
+describe("isRetryableError", () => {
+  it("按配置的状态码判断 HTTP 错误", () => {
+    expect(isRetryableError({ status: 429 }, policy)).toBe(true);
+    expect(isRetryableError({ status: 503 }, policy)).toBe(true);
+    expect(isRetryableError({ status: 400 }, policy)).toBe(false);
+  });
+
+  it("有状态码时不再看网络错误码", () => {
+    expect(isRetryableError({ status: 401, code: "ECONNRESET" }, policy)).toBe(false);
+  });
+
+  it("网络错误按错误码判断", () => {
+    expect(isRetryableError({ code: "ETIMEDOUT" }, policy)).toBe(true);
+    expect(isRetryableError({ code: "ENOTFOUND" }, policy)).toBe(false);
+    expect(isRetryableError({}, policy)).toBe(false);
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("无抖动时按指数增长并受上限约束", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoffDelay(1, policy)).toBe(1000);
+    expect(computeBackoffDelay(2, policy)).toBe(2000);
+    expect(computeBackoffDelay(4, policy)).toBe(8000);
+    expect(computeBackoffDelay(10, policy)).toBe(10000);
+  });
+
+  it("抖动最多减少 jitterRatio 比例", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(computeBackoffDelay(2, policy)).toBe(1000);
+    expect(computeBackoffDelay(10, policy)).toBe(5000);
+  });
+
+  it("失败次数小于 1 时按首次计算", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeBackoffDelay(0, policy)).toBe(1000);
+  });
+});
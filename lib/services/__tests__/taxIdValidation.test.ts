@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkTaxId,
+  computeUsccCheckChar,
+  isValidUscc,
+  normalizeTaxId,
+  suggestUsccCorrections,
+  validateInvoiceTaxIds,
+} from "../taxIdValidation";
+
+const VALID_USCC = "91350100M000100Y43";
+
+describe("normalizeTaxId", () => {
+  it("去除空白和分隔符并转为大写", () => {
+    expect(normalizeTaxId(" 9135 0100-m000100y43 ")).toBe(VALID_USCC);
+  });
+});
+
+describe("统一社会信用代码校验", () => {
+  it("计算校验码", () => {
+    expect(computeUsccCheckChar(VALID_USCC.slice(0, 17))).toBe("3");
+    expect(computeUsccCheckChar("91350100O00010OY4")).toBeNull();
+  });
+
+  it("校验码错误时无效", () => {
+    expect(isValidUscc(VALID_USCC)).toBe(true);
+    expect(isValidUscc(`${VALID_USCC.slice(0, 17)}4`)).toBe(false);
+  });
+
+  it("OCR 易混淆字符给出修正建议", () => {
+    const misread = VALID_USCC.replace("M0001", "MO001");
+    expect(suggestUsccCorrections(misread)).toContain(VALID_USCC);
+  });
+});
+
+describe("checkTaxId", () => {
+  it("识别 18 位代码的校验码错误", () => {
+    const result = checkTaxId(`${VALID_USCC.slice(0, 17)}4`);
+    expect(result).toMatchObject({ kind: "uscc", valid: false, reason: "checksum" });
+  });
+
+  it("15 位和 20 位识别号只检查格式", () => {
+    expect(checkTaxId("110105123456789")).toMatchObject({ kind: "legacy15", valid: true });
+    expect(checkTaxId("11010512345678901234")).toMatchObject({ kind: "legacy20", valid: true });
+  });
+
+  it("其他长度为格式错误", () => {
+    expect(checkTaxId("12345")).toMatchObject({ valid: false, reason: "format" });
+  });
+});
+
+describe("validateInvoiceTaxIds", () => {
+  it("只对填写了的无效税号给出警告", () => {
+    const warnings = validateInvoiceTaxIds({
+      sellerTaxId: VALID_USCC,
+      buyerTaxId: VALID_USCC.replace("M0001", "MO001"),
+    });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ field: "buyerTaxId", severity: "high" });
+    expect(warnings[0].suggestions).toContain(VALID_USCC);
+  });
+
+  it("未填写时不校验", () => {
+    expect(validateInvoiceTaxIds({ sellerTaxId: " " })).toEqual([]);
+  });
+});
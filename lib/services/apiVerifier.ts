@@ -0,0 +1,103 @@
+/**
+ * 第三方发票查验 API
+ *
+ * 请求：POST VERIFICATION_API_URL（JSON）
+ *   fpdm 发票代码（数电票为空）、fphm 发票号码、kprq 开票日期（YYYYMMDD）、
+ *   je 金额（不含税金额，数电票为价税合计）、jym 校验码后 6 位
+ * 响应：{ code, message, data }
+ *   0000 查验成功（data.fpzt: 0 正常、2 作废、3 红冲）、1001 发票信息不一致、1002 查无此票，
+ *   其余为调用失败（参数错误、次数超限、服务异常等）
+ */
+
+import axios from "axios";
+import { env } from "../env";
+import { VerificationRequest } from "@/types/document";
+import { toServiceApiError } from "./serviceError";
+import type { InvoiceVerifier, VerificationOutcome } from "./verificationProvider";
+
+/**
+ * 查验 API 响应
+ */
+interface ApiVerifyResponse {
+  code: string;
+  message?: string;
+  data?: {
+    fpzt?: string;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * 作废、红冲状态
+ */
+const VOIDED_STATES: Record<string, string> = {
+  "2": "发票已作废",
+  "3": "发票已红冲",
+};
+
+/**
+ * 按北京时间格式化为 YYYYMMDD
+ */
+function formatDate(date: Date): string {
+  return new Date(date)
+    .toLocaleDateString("sv-SE", { timeZone: "Asia/Shanghai" })
+    .replace(/-/g, "");
+}
+
+/**
+ * 第三方查验服务
+ */
+export class ApiInvoiceVerifier implements InvoiceVerifier {
+  readonly name = "api";
+
+  constructor() {
+    if (!env.verificationApiUrl) {
+      throw new Error("发票查验服务未配置（VERIFICATION_API_URL）");
+    }
+  }
+
+  async verify(request: VerificationRequest): Promise<VerificationOutcome> {
+    let data: ApiVerifyResponse;
+    try {
+      const response = await axios.post<ApiVerifyResponse>(
+        env.verificationApiUrl,
+        {
+          fpdm: request.invoiceCode || "",
+          fphm: request.invoiceNo,
+          kprq: formatDate(request.invoiceDate),
+          ...(request.amount !== undefined && { je: request.amount.toFixed(2) }),
+          ...(request.checkCode && { jym: request.checkCode }),
+        },
+        {
+          headers: {
+            ...(env.verificationApiKey && { Authorization: `Bearer ${env.verificationApiKey}` }),
+            "Content-Type": "application/json",
+          },
+          timeout: env.verificationTimeoutMs,
+        }
+      );
+      data = response.data;
+    } catch (error) {
+      throw toServiceApiError("发票查验 API 调用失败", error);
+    }
+
+    switch (data.code) {
+      case "0000": {
+        const voided = VOIDED_STATES[String(data.data?.fpzt ?? "")];
+        return voided
+          ? { status: "voided", message: voided, rawResponse: data }
+          : { status: "genuine", message: data.message || "查验一致", rawResponse: data };
+      }
+      case "1001":
+        return { status: "mismatch", message: data.message || "发票信息不一致", rawResponse: data };
+      case "1002":
+        return { status: "not_found", message: data.message || "查无此票", rawResponse: data };
+      default:
+        return {
+          status: "error",
+          message: `发票查验失败: ${data.message || data.code || "未知错误"}`,
+          rawResponse: data,
+        };
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * 中文大写金额解析
+ * 增值税发票同时打印小写金额和大写金额（如 壹仟贰佰叁拾肆元伍角），
+ * 两者不一致通常说明 OCR 误识别了数字
+ */
+
+/**
+ * 大写数字
+ */
+const DIGITS: Record<string, number> = {
+  零: 0,
+  壹: 1,
+  贰: 2,
+  叁: 3,
+  肆: 4,
+  伍: 5,
+  陆: 6,
+  柒: 7,
+  捌: 8,
+  玖: 9,
+};
+
+/**
+ * 节内单位
+ */
+const UNITS: Record<string, number> = {
+  拾: 10,
+  佰: 100,
+  仟: 1000,
+};
+
+/**
+ * 繁体及异体字
+ */
+const VARIANTS: Record<string, string> = {
+  貳: "贰",
+  參: "叁",
+  陸: "陆",
+  萬: "万",
+  億: "亿",
+  圆: "元",
+};
+
+/**
+ * 大写金额字符序列
+ */
+const UPPERCASE_PATTERN = /[零壹贰叁肆伍陆柒捌玖拾佰仟万亿元圆角分整正貳參陸萬億]{2,}/g;
+
+/**
+ * 解析整数部分（元之前）
+ */
+function parseInteger(text: string): number | null {
+  let total = 0;
+  let section = 0;
+  let number = 0;
+
+  for (const char of text) {
+    if (char in DIGITS) {
+      number = DIGITS[char];
+    } else if (char in UNITS) {
+      // "拾元" 开头时省略了壹
+      section += (number || (section === 0 && total === 0 ? 1 : 0)) * UNITS[char];
+      number = 0;
+    } else if (char === "万") {
+      total += (section + number) * 10000;
+      section = 0;
+      number = 0;
+    } else if (char === "亿") {
+      total = (total + section + number) * 100000000;
+      section = 0;
+      number = 0;
+    } else {
+      return null;
+    }
+  }
+
+  return total + section + number;
+}
+
+/**
+ * 将大写金额转换为数字，无法解析时返回 null
+ */
+export function parseChineseAmount(text: string): number | null {
+  const normalized = [...text.replace(/\s/g, "")]
+    .map((char) => VARIANTS[char] || char)
+    .join("")
+    .replace(/[整正]$/, "");
+  if (!normalized) return null;
+
+  const yuanIndex = normalized.indexOf("元");
+  const integerPart = yuanIndex >= 0 ? normalized.slice(0, yuanIndex) : "";
+  const decimalPart = yuanIndex >= 0 ? normalized.slice(yuanIndex + 1) : normalized;
+
+  // 没有元时必须是纯角分金额
+  if (yuanIndex < 0 && !/[角分]/.test(normalized)) return null;
+
+  const integer = integerPart ? parseInteger(integerPart) : 0;
+  if (integer === null) return null;
+
+  let cents = 0;
+  let pending: number | null = null;
+  for (const char of decimalPart) {
+    if (char in DIGITS) {
+      pending = DIGITS[char];
+    } else if (char === "角") {
+      if (pending === null) return null;
+      cents += pending * 10;
+      pending = null;
+    } else if (char === "分") {
+      if (pending === null) return null;
+      cents += pending;
+      pending = null;
+    } else {
+      return null;
+    }
+  }
+  // 末尾残留数字（如 "伍角贰"）无法确定单位
+  if (pending !== null && pending !== 0) return null;
+
+  return Math.round((integer + cents / 100) * 100) / 100;
+}
+
+/**
+ * 从 OCR 文本中提取大写金额
+ * 优先取"大写"字样之后的第一个金额
+ */
+export function extractUppercaseAmount(markdown: string): { text: string; value: number } | null {
+  const text = markdown.replace(/[ \t]/g, "");
+  const candidates: Array<{ text: string; value: number; index: number }> = [];
+
+  for (const match of text.matchAll(UPPERCASE_PATTERN)) {
+    const candidate = match[0];
+    if (!/[元圆角分]/.test(candidate) || !/[零壹贰叁肆伍陆柒捌玖貳參陸]/.test(candidate)) {
+      continue;
+    }
+    const value = parseChineseAmount(candidate);
+    if (value !== null) {
+      candidates.push({ text: candidate, value, index: match.index ?? 0 });
+    }
+  }
+  if (candidates.length === 0) return null;
+
+  const labelIndex = text.indexOf("大写");
+  const preferred =
+    labelIndex >= 0 ? candidates.find((candidate) => candidate.index > labelIndex) : undefined;
+  const { text: matched, value } = preferred || candidates[0];
+
+  return { text: matched, value };
+}
@@ -0,0 +1,192 @@
+/**
+ * 往来单位主数据
+ * 发票解析完成或人工修改后，按税号登记销售方和购买方；
+ * 同一单位的名称差异记录为别名，税号不同的同一单位可合并，报表按合并后的单位统计
+ */
+
+import { Counterparty, CounterpartyRole } from "@/models";
+import { checkTaxId, normalizeTaxId } from "./taxIdValidation";
+
+/**
+ * 报表分组结果
+ */
+export interface CounterpartyGroup {
+  // 分组键：往来单位为 id:<税号>，未匹配到往来单位为 name:<原始名称>
+  key: string;
+  counterpartyId?: string;
+  taxId?: string;
+  name: string;
+  // 该分组下发票中出现过的名称写法
+  names: string[];
+  count: number;
+  totalAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * 报表分组的输入行（按原始税号和名称聚合后的结果）
+ */
+export interface CounterpartyRow {
+  taxId?: string;
+  name?: string;
+  count: number;
+  amount: number;
+  taxAmount?: number;
+}
+
+/**
+ * 可登记的税号：规范化后通过格式和校验码检查，否则返回 undefined（避免 OCR 错误产生脏数据）
+ */
+function registrableTaxId(value: unknown): string | undefined {
+  if (value === undefined || value === null || String(value).trim() === "") return undefined;
+  const check = checkTaxId(String(value));
+  return check.valid ? check.normalized : undefined;
+}
+
+/**
+ * 根据发票文档登记销售方和购买方
+ */
+export async function syncInvoiceCounterparties(document: any): Promise<void> {
+  const invoice = document.documentType === "invoice" ? document.parsedData?.invoice : undefined;
+  if (!invoice) return;
+
+  const invoiceDate = invoice.invoiceDate ? new Date(invoice.invoiceDate) : undefined;
+  const seenAt =
+    invoiceDate && !isNaN(invoiceDate.getTime()) ? invoiceDate : document.uploadDate || new Date();
+
+  const parties: Array<{ role: CounterpartyRole; taxId: unknown; name: unknown }> = [
+    { role: "seller", taxId: invoice.sellerTaxId, name: invoice.sellerName },
+    { role: "buyer", taxId: invoice.buyerTaxId, name: invoice.buyerName },
+  ];
+
+  for (const party of parties) {
+    const taxId = registrableTaxId(party.taxId);
+    if (!taxId) continue;
+    await Counterparty.upsertFromInvoice(
+      taxId,
+      typeof party.name === "string" ? party.name : undefined,
+      party.role,
+      seenAt
+    );
+  }
+}
+
+/**
+ * 将往来单位合并到另一单位
+ * 被合并单位的名称、别名和角色并入目标单位，原先合并到被合并单位的记录改为指向目标单位
+ */
+export async function mergeCounterparty(sourceId: string, targetId: string) {
+  const [source, target] = await Promise.all([
+    Counterparty.findById(sourceId),
+    Counterparty.findById(targetId),
+  ]);
+  if (!source || !target) {
+    throw new Error("往来单位不存在");
+  }
+  if (source.taxId === target.taxId) {
+    throw new Error("不能合并到自身");
+  }
+  if (target.mergedInto) {
+    throw new Error(`目标单位已合并到 ${target.mergedInto}，请选择合并后的单位`);
+  }
+
+  target.aliases = [...new Set([...target.aliases, source.name, ...source.aliases])];
+  target.roles = [...new Set([...target.roles, ...source.roles])];
+  if (source.firstSeenAt < target.firstSeenAt) target.firstSeenAt = source.firstSeenAt;
+  if (source.lastSeenAt > target.lastSeenAt) target.lastSeenAt = source.lastSeenAt;
+  await target.save();
+
+  source.mergedInto = target.taxId;
+  await source.save();
+
+  await Counterparty.updateMany(
+    { mergedInto: source.taxId },
+    { $set: { mergedInto: target.taxId } }
+  );
+
+  return target;
+}
+
+/**
+ * 确定每一行所属的往来单位及分组键
+ * 有已登记税号的行归入（合并后的）往来单位；没有税号的行按名称匹配唯一的别名，
+ * 仍无法匹配的按原始名称单独分组
+ */
+export async function resolveCounterpartyRows(
+  rows: Array<Pick<CounterpartyRow, "taxId" | "name">>
+): Promise<Array<{ key: string; counterparty?: any }>> {
+  const taxIds = [
+    ...new Set(rows.map((row) => row.taxId && normalizeTaxId(row.taxId)).filter(Boolean)),
+  ] as string[];
+  const canonical = await Counterparty.resolveCanonical(taxIds);
+
+  // 无税号（或税号未登记）的名称按别名查找，仅匹配到一个单位时采用
+  const unmatchedNames = [
+    ...new Set(
+      rows
+        .filter((row) => !(row.taxId && canonical.has(normalizeTaxId(row.taxId))))
+        .map((row) => row.name?.trim())
+        .filter(Boolean)
+    ),
+  ] as string[];
+  const byAlias = new Map<string, any>();
+  if (unmatchedNames.length > 0) {
+    const candidates = await Counterparty.find({
+      aliases: { $in: unmatchedNames },
+      mergedInto: { $exists: false },
+    }).lean();
+    for (const name of unmatchedNames) {
+      const matches = candidates.filter((item: any) => item.aliases.includes(name));
+      if (matches.length === 1) byAlias.set(name, matches[0]);
+    }
+  }
+
+  return rows.map((row) => {
+    const name = row.name?.trim();
+    const counterparty =
+      (row.taxId && canonical.get(normalizeTaxId(row.taxId))) || (name && byAlias.get(name));
+    return counterparty
+      ? { key: `id:${counterparty.taxId}`, counterparty }
+      : { key: `name:${name || ""}` };
+  });
+}
+
+/**
+ * 按往来单位汇总金额
+ */
+export async function groupByCounterparty(
+  rows: CounterpartyRow[],
+  unknownLabel: string
+): Promise<CounterpartyGroup[]> {
+  const resolved = await resolveCounterpartyRows(rows);
+
+  const groups = new Map<string, CounterpartyGroup>();
+  rows.forEach((row, index) => {
+    const name = row.name?.trim();
+    const { key, counterparty } = resolved[index];
+
+    let group = groups.get(key);
+    if (!group) {
+      group = counterparty
+        ? {
+            key,
+            counterpartyId: counterparty._id.toString(),
+            taxId: counterparty.taxId,
+            name: counterparty.name,
+            names: [],
+            count: 0,
+            totalAmount: 0,
+            taxAmount: 0,
+          }
+        : { key, name: name || unknownLabel, names: [], count: 0, totalAmount: 0, taxAmount: 0 };
+      groups.set(key, group);
+    }
+
+    group.count += row.count;
+    group.totalAmount += row.amount;
+    group.taxAmount += row.taxAmount || 0;
+    if (name && !group.names.includes(name)) group.names.push(name);
+  });
+
+  return [...groups.values()].sort((a, b) => b.totalAmount - a.totalAmount);
+}
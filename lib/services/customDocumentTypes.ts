@@ -0,0 +1,491 @@
+/**
+ * 自定义文档类型
+ * 校验管理员提交的类型定义（JSON Schema 子集），由 Schema 生成解析提示词，
+ * 并按 Schema 规范化和校验解析结果（存放在 parsedData.custom）
+ */
+
+import { CustomDocumentType } from "@/models";
+import {
+  CUSTOM_FIELD_TYPES,
+  CustomFieldSchema,
+  DOCUMENT_TYPES,
+  ValidationWarning,
+} from "@/types/document";
+import { toNumber } from "./numberParsing";
+
+/**
+ * 类型 key 格式
+ */
+const TYPE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+
+/**
+ * 字段名格式
+ */
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 不能用作类型 key 的名称（内置类型和 parsedData 中的键）
+ */
+const RESERVED_TYPE_KEYS = [
+  ...DOCUMENT_TYPES,
+  "financialReport",
+  "invoiceQr",
+  "fieldSources",
+  "fieldConfidence",
+];
+
+/**
+ * Schema 嵌套层数和字段总数上限
+ */
+const MAX_SCHEMA_DEPTH = 4;
+const MAX_SCHEMA_FIELDS = 100;
+
+/**
+ * 提示词中每个字段最多列出的示例数
+ */
+const MAX_PROMPT_EXAMPLES = 3;
+
+/**
+ * 类型定义（创建 / 修改请求中的可修改部分）
+ */
+export interface CustomTypeDefinition {
+  key?: string;
+  name?: string;
+  description?: string;
+  jsonSchema?: CustomFieldSchema;
+  instructions?: string;
+  enabled?: boolean;
+}
+
+/**
+ * 校验字段定义，返回第一个错误（无错误时为 null）
+ */
+function checkFieldSchema(
+  schema: any,
+  path: string,
+  depth: number,
+  counter: { fields: number }
+): string | null {
+  const label = path || "根节点";
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return `${label} 的定义必须是对象`;
+  }
+  if (!CUSTOM_FIELD_TYPES.includes(schema.type)) {
+    return `${label} 的 type 只能是 ${CUSTOM_FIELD_TYPES.join("、")}`;
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    return `${label} 嵌套层数超过 ${MAX_SCHEMA_DEPTH} 层`;
+  }
+
+  for (const key of ["title", "description", "pattern"]) {
+    if (schema[key] !== undefined && typeof schema[key] !== "string") {
+      return `${label} 的 ${key} 必须是字符串`;
+    }
+  }
+  for (const key of ["minimum", "maximum"]) {
+    if (schema[key] !== undefined && typeof schema[key] !== "number") {
+      return `${label} 的 ${key} 必须是数字`;
+    }
+  }
+  if (schema.examples !== undefined && !Array.isArray(schema.examples)) {
+    return `${label} 的 examples 必须是数组`;
+  }
+  if (
+    schema.enum !== undefined &&
+    (!Array.isArray(schema.enum) ||
+      schema.enum.length === 0 ||
+      schema.enum.some((item: unknown) => typeof item !== "string" && typeof item !== "number"))
+  ) {
+    return `${label} 的 enum 必须是非空的字符串或数字数组`;
+  }
+  if (schema.format !== undefined) {
+    if (schema.type !== "string" || !["date", "date-time"].includes(schema.format)) {
+      return `${label} 的 format 只支持字符串字段的 date、date-time`;
+    }
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      return `${label} 的 pattern 不是有效的正则表达式`;
+    }
+  }
+
+  if (schema.type === "array") {
+    if (!schema.items) {
+      return `${label} 为数组，必须定义 items`;
+    }
+    return checkFieldSchema(schema.items, `${path}[]`, depth + 1, counter);
+  }
+
+  if (schema.type === "object") {
+    const properties = schema.properties;
+    if (!properties || typeof properties !== "object" || Object.keys(properties).length === 0) {
+      return `${label} 为对象，必须定义 properties`;
+    }
+    if (
+      schema.required !== undefined &&
+      (!Array.isArray(schema.required) ||
+        schema.required.some((field: unknown) => typeof field !== "string" || !(field in properties)))
+    ) {
+      return `${label} 的 required 必须是 properties 中的字段名数组`;
+    }
+    for (const [field, fieldSchema] of Object.entries(properties)) {
+      if (!FIELD_NAME_PATTERN.test(field) || field === "_id") {
+        return `字段名 ${field} 无效（只能包含字母、数字和下划线，且不能以数字开头）`;
+      }
+      counter.fields++;
+      if (counter.fields > MAX_SCHEMA_FIELDS) {
+        return `字段总数不能超过 ${MAX_SCHEMA_FIELDS} 个`;
+      }
+      const error = checkFieldSchema(fieldSchema, path ? `${path}.${field}` : field, depth + 1, counter);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 校验 JSON Schema（根节点必须为 object）
+ */
+export function validateJsonSchema(schema: unknown): string | null {
+  if (!schema || typeof schema !== "object" || !("type" in schema) || schema.type !== "object") {
+    return "jsonSchema 的根节点必须是 type 为 object 的对象";
+  }
+  return checkFieldSchema(schema, "", 1, { fields: 0 });
+}
+
+/**
+ * 校验创建 / 修改请求中的类型定义
+ * 创建时必须提供 key、name 和 jsonSchema；jsonSchema 可以是对象或 JSON 字符串
+ */
+export function validateTypeDefinition(
+  input: Record<string, any>,
+  creating: boolean
+): { definition?: CustomTypeDefinition; error?: string } {
+  const definition: CustomTypeDefinition = {};
+
+  if (creating) {
+    const key = typeof input.key === "string" ? input.key.trim() : "";
+    if (!TYPE_KEY_PATTERN.test(key)) {
+      return { error: "key 须以小写字母开头，只包含小写字母、数字和下划线，长度 2-40" };
+    }
+    if (RESERVED_TYPE_KEYS.includes(key)) {
+      return { error: `key 不能使用内置名称 ${key}` };
+    }
+    definition.key = key;
+  }
+
+  if (creating || input.name !== undefined) {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name) {
+      return { error: "名称不能为空" };
+    }
+    definition.name = name;
+  }
+
+  for (const field of ["description", "instructions"] as const) {
+    if (input[field] !== undefined && input[field] !== null) {
+      if (typeof input[field] !== "string") {
+        return { error: `${field} 必须是字符串` };
+      }
+      definition[field] = input[field].trim();
+    }
+  }
+
+  if (creating || input.jsonSchema !== undefined) {
+    let schema = input.jsonSchema;
+    if (typeof schema === "string") {
+      try {
+        schema = JSON.parse(schema);
+      } catch {
+        return { error: "jsonSchema 不是有效的 JSON" };
+      }
+    }
+    const error = validateJsonSchema(schema);
+    if (error) {
+      return { error };
+    }
+    definition.jsonSchema = schema;
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") {
+      return { error: "enabled 必须是布尔值" };
+    }
+    definition.enabled = input.enabled;
+  }
+
+  return { definition };
+}
+
+/**
+ * 字段在提示词中的说明，如 “签订日期（必填，YYYY-MM-DD格式），示例：2024-03-05”
+ */
+function describeField(schema: CustomFieldSchema, field: string, required: boolean): string {
+  const label = [schema.title, schema.description].filter(Boolean).join("，") || field;
+  const hints: string[] = required ? ["必填"] : [];
+
+  if (schema.type === "number") hints.push("数字");
+  if (schema.type === "integer") hints.push("整数");
+  if (schema.type === "boolean") hints.push("true 或 false");
+  if (schema.type === "array") hints.push("数组");
+  if (schema.format === "date") hints.push("YYYY-MM-DD格式");
+  if (schema.format === "date-time") hints.push("YYYY-MM-DD HH:mm:ss格式");
+  if (schema.enum) hints.push(`可选值：${schema.enum.join("、")}`);
+
+  let text = hints.length > 0 ? `${label}（${hints.join("，")}）` : label;
+  if (schema.examples?.length) {
+    text += `，示例：${schema.examples
+      .slice(0, MAX_PROMPT_EXAMPLES)
+      .map((example) => (typeof example === "string" ? example : JSON.stringify(example)))
+      .join("、")}`;
+  }
+  return text;
+}
+
+/**
+ * 按 Schema 生成字段列表（嵌套字段缩进两格，与内置提示词一致）
+ */
+function describeProperties(schema: CustomFieldSchema, indent: string, lines: string[]): string[] {
+  for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+    const required = !!schema.required?.includes(field);
+    lines.push(`${indent}- ${field}: ${describeField(fieldSchema, field, required)}`);
+
+    const nested = fieldSchema.type === "array" ? fieldSchema.items : fieldSchema;
+    if (nested?.type === "object") {
+      describeProperties(nested, `${indent}  `, lines);
+    }
+  }
+  return lines;
+}
+
+/**
+ * 由类型定义生成解析提示词
+ */
+export function buildExtractionPrompt(type: {
+  name: string;
+  description?: string;
+  jsonSchema: CustomFieldSchema;
+  instructions?: string;
+}): string {
+  const sections = [
+    "你是一个专业的文档信息提取助手。请将以下OCR识别结果转换为结构化JSON数据。",
+    [`文档类型：${type.name}`, type.description && `类型说明：${type.description}`]
+      .filter(Boolean)
+      .join("\n"),
+    ["请提取以下字段（如果存在）：", ...describeProperties(type.jsonSchema, "", [])].join("\n"),
+  ];
+  if (type.instructions) {
+    sections.push(type.instructions);
+  }
+  sections.push("请只返回JSON，不要包含任何其他文字。如果某字段无法识别，请设置为null。");
+
+  return sections.join("\n\n");
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function warning(
+  code: string,
+  severity: ValidationWarning["severity"],
+  field: string,
+  message: string,
+  actual?: unknown
+): ValidationWarning {
+  return {
+    code,
+    severity,
+    field,
+    message,
+    ...(actual !== undefined && { actual: typeof actual === "number" ? actual : String(actual) }),
+  };
+}
+
+/**
+ * 日期字符串转为 Date（日期按 UTC 零点，与内置类型的日期字段一致）
+ * 已保存的日期经 JSON 往返后为 ISO 字符串（如人工修改时提交的 parsedData），按原值解析
+ */
+function toDate(value: unknown, format: "date" | "date-time"): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value !== "string") return undefined;
+
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  const match = text.match(/^(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*日?$/);
+  if (match) {
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (format === "date-time") {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return undefined;
+  if (["true", "是", "有", "yes"].includes(value.trim().toLowerCase())) return true;
+  if (["false", "否", "无", "no"].includes(value.trim().toLowerCase())) return false;
+  return undefined;
+}
+
+/**
+ * 按字段定义规范化单个值，无法转换时返回 undefined 并记录警告
+ */
+function normalizeValue(
+  schema: CustomFieldSchema,
+  value: any,
+  path: string,
+  warnings: ValidationWarning[]
+): unknown {
+  const typeError = (expected: string) => {
+    warnings.push(
+      warning(
+        "schema_type",
+        "medium",
+        path,
+        `${path} 应为${expected}`,
+        typeof value === "string" ? value : JSON.stringify(value)
+      )
+    );
+    return undefined;
+  };
+
+  let result: unknown;
+  switch (schema.type) {
+    case "string": {
+      if (schema.format) {
+        const date = toDate(value, schema.format);
+        if (!date) return typeError(schema.format === "date" ? "日期" : "日期时间");
+        return date;
+      }
+      if (typeof value === "object") return typeError("文本");
+      result = String(value).trim();
+      if (schema.pattern && !new RegExp(schema.pattern).test(result as string)) {
+        warnings.push(
+          warning("schema_pattern", "medium", path, `${path} 格式不符合 ${schema.pattern}`, result)
+        );
+      }
+      break;
+    }
+    case "number":
+    case "integer": {
+      const number = toNumber(value);
+      if (number === undefined) return typeError("数字");
+      if (schema.type === "integer" && !Number.isInteger(number)) return typeError("整数");
+      if (
+        (schema.minimum !== undefined && number < schema.minimum) ||
+        (schema.maximum !== undefined && number > schema.maximum)
+      ) {
+        warnings.push(
+          warning(
+            "schema_range",
+            "medium",
+            path,
+            `${path} 超出范围 ${schema.minimum ?? "-∞"} ~ ${schema.maximum ?? "+∞"}`,
+            number
+          )
+        );
+      }
+      result = number;
+      break;
+    }
+    case "boolean": {
+      const bool = toBoolean(value);
+      if (bool === undefined) return typeError("是 / 否");
+      return bool;
+    }
+    case "array": {
+      if (!Array.isArray(value)) return typeError("数组");
+      return value
+        .map((item, index) =>
+          isEmpty(item) ? undefined : normalizeValue(schema.items!, item, `${path}.${index}`, warnings)
+        )
+        .filter((item) => item !== undefined);
+    }
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) return typeError("对象");
+      return normalizeObject(schema, value, `${path}.`, warnings);
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(result as string | number)) {
+    warnings.push(
+      warning("schema_enum", "low", path, `${path} 不在可选值 ${schema.enum.join("、")} 中`, result)
+    );
+  }
+  return result;
+}
+
+/**
+ * 规范化对象：只保留 Schema 中定义的字段，检查必填字段
+ */
+function normalizeObject(
+  schema: CustomFieldSchema,
+  value: Record<string, any>,
+  prefix: string,
+  warnings: ValidationWarning[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+    const path = `${prefix}${field}`;
+    const raw = value[field];
+    const normalized = isEmpty(raw) ? undefined : normalizeValue(fieldSchema, raw, path, warnings);
+    if (normalized !== undefined) {
+      result[field] = normalized;
+    } else if (isEmpty(raw) && schema.required?.includes(field)) {
+      warnings.push(warning("schema_required", "medium", path, `缺少必填字段 ${path}`));
+    }
+  }
+  return result;
+}
+
+/**
+ * 按类型的 JSON Schema 规范化解析结果
+ * 数字、日期、布尔等按字段类型转换，未定义的字段被丢弃；无法转换的值丢弃并记录警告
+ * 警告的字段路径不含 custom 前缀（如 amount、items.0.name），与发票校验一致
+ */
+export function normalizeCustomData(
+  schema: CustomFieldSchema,
+  data: unknown
+): { data: Record<string, unknown>; warnings: ValidationWarning[] } {
+  const warnings: ValidationWarning[] = [];
+  const value = data && typeof data === "object" && !Array.isArray(data) ? data : {};
+  return { data: normalizeObject(schema, value as Record<string, any>, "", warnings), warnings };
+}
+
+/**
+ * 加载已启用的自定义类型，不存在或已停用时抛出错误
+ */
+export async function getEnabledType(key: string | undefined): Promise<any> {
+  const type = key ? await CustomDocumentType.findByKey(key) : null;
+  if (!type || !type.enabled) {
+    throw new Error(`自定义文档类型 ${key || ""} 不存在或已停用`);
+  }
+  return type;
+}
+
+/**
+ * 校验自定义类型文档的解析结果：规范化后写回 parsedData.custom 并返回校验警告
+ * 类型定义已删除时不校验
+ */
+export async function validateCustomDocument(document: any): Promise<ValidationWarning[] | null> {
+  const current = document.parsedData?.custom;
+  if (!current || !document.customType) return null;
+
+  const type = await CustomDocumentType.findByKey(document.customType);
+  if (!type) return null;
+
+  const { data, warnings } = normalizeCustomData(type.jsonSchema, current);
+  document.set("parsedData.custom", data);
+  return warnings;
+}
@@ -0,0 +1,266 @@
+/**
+ * 文档处理事件流（Server-Sent Events）
+ * 轮询 AuditLog 中记录的阶段变化并推送给客户端
+ */
+
+import { Types } from "mongoose";
+import { connectToDatabase } from "../mongodb";
+import { Document, AuditLog } from "@/models";
+
+/**
+ * 轮询间隔
+ */
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * 心跳间隔（防止代理断开空闲连接）
+ */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * 回看窗口：多实例写入时 createdAt 可能略有先后，重复事件按 ID 去重
+ */
+const LOOKBACK_MS = 5000;
+
+/**
+ * 每次查询的日志条数（回看窗口内已推送的日志较多时按游标继续翻页）
+ */
+const PAGE_SIZE = 200;
+
+/**
+ * 推送的审计操作类型
+ */
+const STREAMED_ACTIONS = ["upload", "reparse"];
+
+/**
+ * 事件流选项
+ */
+export interface DocumentEventStreamOptions {
+  // 只推送这些文档的事件（为空时推送全部）
+  documentIds?: string[];
+  // 断线重连时从该事件之后继续（Last-Event-ID）
+  lastEventId?: string | null;
+  signal: AbortSignal;
+}
+
+/**
+ * 单条处理事件
+ */
+export interface DocumentEvent {
+  id: string;
+  documentId: string;
+  fileName: string;
+  stage: string;
+  details: Record<string, any>;
+  status?: string;
+  documentType?: string;
+  createdAt: Date;
+}
+
+/**
+ * 编码一条 SSE 消息
+ */
+function encodeEvent(event: string, data: any, id?: string): string {
+  const lines = [];
+  if (id) lines.push(`id: ${id}`);
+  lines.push(`event: ${event}`);
+  lines.push(`data: ${JSON.stringify(data)}`);
+  return lines.join("\n") + "\n\n";
+}
+
+/**
+ * 确定起始时间
+ */
+async function resolveStartTime(lastEventId?: string | null): Promise<Date> {
+  if (lastEventId && Types.ObjectId.isValid(lastEventId)) {
+    const lastLog = await AuditLog.findById(lastEventId).select("createdAt");
+    if (lastLog) {
+      return lastLog.createdAt;
+    }
+  }
+  return new Date();
+}
+
+/**
+ * 查询新事件
+ */
+async function fetchEvents(
+  since: Date,
+  documentIds: string[] | undefined,
+  seen: Map<string, number>
+): Promise<DocumentEvent[]> {
+  const query: any = {
+    action: { $in: STREAMED_ACTIONS },
+    createdAt: { $gte: new Date(since.getTime() - LOOKBACK_MS) },
+  };
+  if (documentIds && documentIds.length > 0) {
+    query.documentId = { $in: documentIds };
+  }
+
+  // 按 (createdAt, _id) 游标翻页，回看窗口内已推送的日志超过一页时不会挡住新日志
+  const fresh: any[] = [];
+  let cursor: any = null;
+  while (fresh.length < PAGE_SIZE) {
+    const pageQuery = cursor
+      ? {
+          ...query,
+          $or: [
+            { createdAt: { $gt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, _id: { $gt: cursor._id } },
+          ],
+        }
+      : query;
+    const logs = await AuditLog.find(pageQuery).sort({ createdAt: 1, _id: 1 }).limit(PAGE_SIZE).lean();
+    fresh.push(...logs.filter((log: any) => !seen.has(log._id.toString())));
+    if (logs.length < PAGE_SIZE) break;
+    cursor = logs[logs.length - 1];
+  }
+  if (fresh.length === 0) return [];
+
+  // 附带文档当前状态，客户端可直接更新而无需再次请求
+  const docIds = [...new Set(fresh.map((log: any) => log.documentId))];
+  const documents = await Document.find({ _id: { $in: docIds } })
+    .select("status documentType")
+    .lean();
+  const docMap = new Map(documents.map((doc: any) => [doc._id.toString(), doc]));
+
+  return fresh.map((log: any) => {
+    const doc = docMap.get(log.documentId);
+    const { stage, ...details } = log.details || {};
+    return {
+      id: log._id.toString(),
+      documentId: log.documentId,
+      fileName: log.fileName,
+      stage: log.action === "upload" ? "uploaded" : stage || log.action,
+      details,
+      status: doc?.status,
+      documentType: doc?.documentType,
+      createdAt: log.createdAt,
+    };
+  });
+}
+
+/**
+ * 检查文档 ID 格式，返回第一个无效的 ID（全部有效时返回 null）
+ */
+export function findInvalidDocumentId(documentIds: string[] | undefined): string | null {
+  return (documentIds || []).find((id) => !Types.ObjectId.isValid(id)) ?? null;
+}
+
+/**
+ * 创建事件流
+ */
+export function createDocumentEventStream(options: DocumentEventStreamOptions): ReadableStream {
+  const encoder = new TextEncoder();
+  const seen = new Map<string, number>();
+  let pollTimer: NodeJS.Timeout | null = null;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    closed = true;
+    if (pollTimer) clearTimeout(pollTimer);
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      options.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // 已关闭
+        }
+      });
+
+      let since: Date;
+      try {
+        await connectToDatabase();
+
+        since = await resolveStartTime(options.lastEventId);
+        if (options.lastEventId) {
+          seen.set(options.lastEventId, Date.now());
+        }
+
+        // 客户端重连间隔
+        send("retry: 3000\n\n");
+
+        // 连接时推送文档当前状态快照
+        if (options.documentIds && options.documentIds.length > 0) {
+          const documents = await Document.find({ _id: { $in: options.documentIds } })
+            .select("fileName status documentType error")
+            .lean();
+          send(
+            encodeEvent(
+              "snapshot",
+              documents.map((doc: any) => ({
+                documentId: doc._id.toString(),
+                fileName: doc.fileName,
+                status: doc.status,
+                documentType: doc.documentType,
+                error: doc.error,
+              }))
+            )
+          );
+        }
+      } catch (error: any) {
+        send(encodeEvent("error", { message: error.message }));
+        cleanup();
+        controller.close();
+        return;
+      }
+
+      heartbeatTimer = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      const poll = async () => {
+        if (closed) return;
+        try {
+          const events = await fetchEvents(since, options.documentIds, seen);
+          for (const event of events) {
+            seen.set(event.id, new Date(event.createdAt).getTime());
+            send(encodeEvent("stage", event, event.id));
+            if (new Date(event.createdAt) > since) {
+              since = new Date(event.createdAt);
+            }
+          }
+
+          // 清理回看窗口之外的已推送 ID
+          const threshold = since.getTime() - LOOKBACK_MS * 2;
+          for (const [id, time] of seen) {
+            if (time < threshold) seen.delete(id);
+          }
+        } catch (error) {
+          console.error("Document event stream error:", error);
+        }
+        if (!closed) {
+          pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      };
+
+      await poll();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
+
+/**
+ * SSE 响应头
+ */
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+};
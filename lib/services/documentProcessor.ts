@@ -0,0 +1,563 @@
+/**
+ * 文档处理流水线
+ * OCR 识别 + 类型识别 + AI 解析，由任务队列调用
+ * 数电票 XML / OFD 直接读取结构化数据，不经过 OCR 和 AI 解析
+ */
+
+import fs from "fs/promises";
+
+import { Document, AuditLog, CustomDocumentType } from "@/models";
+import { env } from "../env";
+import { DocumentType, DOCUMENT_TYPES } from "@/types/document";
+import { recognizeDocument } from "./ocrProvider";
+import { parseByType, detectDocumentType } from "./glmParser";
+import { describeLlmRoute } from "./llmProvider";
+import { resolveStoredFilePath } from "../storage/fileStorage";
+import { checkDuplicateInvoice } from "./invoiceDuplicates";
+import { validateDocument } from "./invoiceValidation";
+import {
+  getStructuredFormat,
+  parseStructuredInvoice,
+  StructuredInvoiceFormat,
+} from "./eInvoiceParser";
+import { decodeInvoiceQr, mergeInvoiceQr } from "./invoiceQr";
+import { buildFieldSources } from "./fieldSources";
+import { isVerificationEnabled } from "./verificationProvider";
+import { buildVerificationRequest, verifyDocument } from "./invoiceVerification";
+import { syncInvoiceCounterparties } from "./counterparties";
+import { recordRevision } from "./parsedDataRevisions";
+import { flagForReview } from "./reviewQueue";
+import { updateFieldConfidence } from "./fieldConfidence";
+import { getEnabledType, normalizeCustomData } from "./customDocumentTypes";
+
+/**
+ * 处理阶段（与 Document.error.stage 对应）
+ */
+export type ProcessingStage = "ocr" | "ai_parse";
+
+/**
+ * 可单独执行的流水线步骤
+ * - ocr: OCR 识别
+ * - detect: 文档类型识别
+ * - parse: 结构化解析
+ */
+export type PipelineStage = "ocr" | "detect" | "parse";
+
+export const PIPELINE_STAGES: PipelineStage[] = ["ocr", "detect", "parse"];
+
+/**
+ * 处理选项
+ */
+export interface ProcessOptions {
+  // 要执行的步骤，默认全部执行（类型已知时跳过类型识别）
+  stages?: PipelineStage[];
+  // 强制按指定类型解析，跳过类型识别
+  documentType?: DocumentType;
+  // documentType 为 custom 时指定的自定义类型 key
+  customType?: string;
+  // 不复用相同文件的缓存结果
+  bypassCache?: boolean;
+}
+
+/**
+ * 校验请求中的处理选项
+ */
+export function validateProcessOptions(input: {
+  stages?: unknown;
+  documentType?: unknown;
+  customType?: unknown;
+  bypassCache?: unknown;
+}): { options?: ProcessOptions; error?: string } {
+  const options: ProcessOptions = {};
+
+  if (input.stages !== undefined && input.stages !== null) {
+    if (
+      !Array.isArray(input.stages) ||
+      input.stages.some((stage) => !PIPELINE_STAGES.includes(stage))
+    ) {
+      return { error: `stages 只能包含 ${PIPELINE_STAGES.join(", ")}` };
+    }
+    if (input.stages.length > 0) {
+      options.stages = [...new Set(input.stages as PipelineStage[])];
+    }
+  }
+
+  if (input.documentType !== undefined && input.documentType !== null && input.documentType !== "") {
+    if (!DOCUMENT_TYPES.includes(input.documentType as DocumentType)) {
+      return { error: "不支持的文档类型" };
+    }
+    options.documentType = input.documentType as DocumentType;
+  }
+
+  if (options.documentType === "custom") {
+    if (typeof input.customType !== "string" || !input.customType) {
+      return { error: "documentType 为 custom 时必须指定 customType" };
+    }
+    options.customType = input.customType;
+  } else if (input.customType !== undefined && input.customType !== null && input.customType !== "") {
+    return { error: "customType 仅在 documentType 为 custom 时有效" };
+  }
+
+  if (input.bypassCache !== undefined && input.bypassCache !== null) {
+    if (typeof input.bypassCache !== "boolean") {
+      return { error: "bypassCache 必须是布尔值" };
+    }
+    if (input.bypassCache) {
+      options.bypassCache = true;
+    }
+  }
+
+  return { options };
+}
+
+/**
+ * 阶段执行失败
+ */
+export class ProcessingStageError extends Error {
+  stage: ProcessingStage;
+  status?: number;
+  code?: string;
+
+  constructor(stage: ProcessingStage, cause: any) {
+    super(cause?.message || "处理失败");
+    this.name = "ProcessingStageError";
+    this.stage = stage;
+    this.status = cause?.status;
+    this.code = cause?.code;
+  }
+}
+
+/**
+ * 处理结果
+ */
+export interface ProcessResult {
+  documentType: DocumentType;
+  customType?: string;
+  stages: PipelineStage[];
+  numPages?: number;
+}
+
+/**
+ * 查找相同文件内容的缓存结果
+ * 只使用自身经过实际识别的已完成文档，且识别时间在 CACHE_TTL_SECONDS 内
+ */
+async function findCachedDocument(document: any): Promise<any | null> {
+  if (!document.fileHash || env.cacheTtlSeconds <= 0) {
+    return null;
+  }
+
+  return Document.findOne({
+    _id: { $ne: document._id },
+    fileHash: document.fileHash,
+    status: "completed",
+    "ocrResult.mdResults": { $exists: true },
+    "metadata.cache.sourceDocumentId": { $exists: false },
+    "metadata.ocrProcessedAt": { $gte: new Date(Date.now() - env.cacheTtlSeconds * 1000) },
+  }).sort({ "metadata.ocrProcessedAt": -1 });
+}
+
+/**
+ * 解析完成后校验结果、计算字段置信度、检查是否与已有发票重复，开启自动查验时查验发票
+ * （失败不影响处理结果），最后判断是否需要人工审核并设置最终状态
+ */
+async function runPostParseChecks(document: any): Promise<void> {
+  try {
+    await validateDocument(document);
+  } catch (error) {
+    console.error("Document validation error:", error);
+  }
+  try {
+    await updateFieldConfidence(document);
+  } catch (error) {
+    console.error("Field confidence error:", error);
+  }
+  try {
+    await checkDuplicateInvoice(document);
+  } catch (error) {
+    console.error("Duplicate invoice check error:", error);
+  }
+  try {
+    await syncInvoiceCounterparties(document);
+  } catch (error) {
+    console.error("Counterparty sync error:", error);
+  }
+
+  if (env.verificationAuto && isVerificationEnabled() && document.documentType === "invoice") {
+    try {
+      const { request } = buildVerificationRequest(document.parsedData?.invoice);
+      if (request) {
+        await verifyDocument(document, request);
+      }
+    } catch (error) {
+      console.error("Invoice verification error:", error);
+    }
+  }
+
+  // 审核判断失败时按解析失败处理（按重试策略重试或标记为失败），避免未经审核即完成
+  try {
+    await flagForReview(document);
+  } catch (error) {
+    console.error("Review check error:", error);
+    throw new ProcessingStageError("ai_parse", error);
+  }
+}
+
+/**
+ * 识别发票二维码，用解码字段覆盖 AI 解析结果（识别失败不影响处理结果）
+ */
+async function attachInvoiceQr(document: any, parsedData: any): Promise<any> {
+  const isImageOrPdf =
+    document.fileType.startsWith("image/") || document.fileType === "application/pdf";
+  if (!env.invoiceQrEnabled || !parsedData.invoice || !isImageOrPdf) {
+    return parsedData;
+  }
+
+  const filePath = resolveStoredFilePath(document.filePath, document.fileUrl);
+  if (!filePath) {
+    return parsedData;
+  }
+
+  let qr;
+  try {
+    qr = await decodeInvoiceQr(filePath, document.fileType);
+  } catch (error) {
+    console.error("Invoice QR decode error:", error);
+    return parsedData;
+  }
+  if (!qr) {
+    return parsedData;
+  }
+
+  const { invoice, qrFields, conflicts } = mergeInvoiceQr(parsedData.invoice, qr);
+  return {
+    ...parsedData,
+    invoice,
+    invoiceQr: { ...qr, conflicts },
+    fieldSources: {
+      ...parsedData.fieldSources,
+      ...Object.fromEntries(qrFields.map((field) => [`invoice.${field}`, "qr"])),
+    },
+  };
+}
+
+/**
+ * 处理数电票 XML / OFD
+ * 发票字段来自文件本身，置信度记为 100；生成的文本保存为 OCR 结果供搜索和大写金额校验
+ */
+async function processStructuredInvoice(
+  document: any,
+  format: StructuredInvoiceFormat
+): Promise<ProcessResult> {
+  const documentId = document._id.toString();
+
+  let structured;
+  try {
+    const filePath = resolveStoredFilePath(document.filePath, document.fileUrl);
+    if (!filePath) {
+      throw new Error("文件路径不存在");
+    }
+    structured = parseStructuredInvoice(await fs.readFile(filePath), format);
+  } catch (error: any) {
+    throw new ProcessingStageError("ai_parse", error);
+  }
+
+  // OFD 未内嵌数电票 XML 时只有表头字段：明细和税率由 AI 从页面文字中提取，表头字段仍以 OFD 为准
+  // AI 不可用或提取失败时保留表头字段、明细留空，不影响处理结果
+  let invoice = structured.invoice;
+  let fieldSources = buildFieldSources("invoice", structured.invoice, format);
+  let itemsError: string | undefined;
+  if (!structured.complete) {
+    try {
+      const parsed = await parseByType(structured.text, "invoice");
+      invoice = { ...parsed, ...structured.invoice };
+      fieldSources = { ...buildFieldSources("invoice", parsed, "llm"), ...fieldSources };
+    } catch (error: any) {
+      console.error("OFD items extraction error:", error);
+      itemsError = error.message || "明细提取失败";
+    }
+  }
+
+  document.metadata.source = format;
+  document.metadata.cache = undefined;
+  document.metadata.detection = undefined;
+  document.customType = undefined;
+  await document.updateOcrResult({
+    mdResults: structured.text,
+    layoutDetails: [],
+    numPages: structured.numPages,
+    provider: format,
+    confidence: 100,
+  });
+  await document.updateParsedData({ invoice, fieldSources }, "invoice");
+  await recordRevision(document, "structured", {
+    reason: structured.complete
+      ? `${format.toUpperCase()} 结构化数据`
+      : itemsError
+        ? `${format.toUpperCase()} 结构化数据（明细提取失败，仅含表头字段）`
+        : `${format.toUpperCase()} 结构化数据（明细由 AI 提取）`,
+  });
+
+  await AuditLog.log(
+    documentId,
+    document.fileName,
+    "reparse",
+    {
+      stage: "structured_parsed",
+      format,
+      documentType: "invoice",
+      itemCount: invoice.items?.length || 0,
+      ...(!structured.complete && { llm: describeLlmRoute("invoice") }),
+      ...(itemsError && { itemsError }),
+    }
+  );
+
+  await runPostParseChecks(document);
+
+  return {
+    documentType: "invoice",
+    stages: [],
+    numPages: structured.numPages,
+  };
+}
+
+/**
+ * 处理单个文档
+ * 阶段失败时抛出 ProcessingStageError，文档状态由调用方决定
+ */
+export async function processDocument(
+  documentId: string,
+  options: ProcessOptions = {}
+): Promise<ProcessResult> {
+  const document = await Document.findById(documentId);
+  if (!document) {
+    throw new Error("文档不存在");
+  }
+
+  const explicitStages = !!options.stages && options.stages.length > 0;
+  const stages = explicitStages ? options.stages! : PIPELINE_STAGES;
+  const executed: PipelineStage[] = [];
+
+  // 记录开始处理
+  await AuditLog.log(
+    documentId,
+    document.fileName,
+    "reparse",
+    {
+      stage: "started",
+      stages,
+      ...(options.documentType && { documentType: options.documentType }),
+      ...(options.customType && { customType: options.customType }),
+    }
+  );
+
+  // 数电票 XML / OFD 不区分步骤，始终重新读取文件
+  const structuredFormat = getStructuredFormat(document.fileName, document.fileType);
+  if (structuredFormat) {
+    return processStructuredInvoice(document, structuredFormat);
+  }
+
+  // 步骤 1: OCR 识别（跳过时使用已保存的 OCR 结果）
+  let mdResults = document.ocrResult?.mdResults;
+  let numPages = document.ocrResult?.numPages;
+  let cached: any = null;
+
+  if (stages.includes("ocr") && !options.bypassCache) {
+    cached = await findCachedDocument(document);
+  }
+
+  if (cached) {
+    // 复用相同文件的 OCR 结果，不调用 OCR 服务
+    const ocrResult = cached.ocrResult.toObject();
+    document.metadata.cache = {
+      sourceDocumentId: cached._id.toString(),
+      stages: ["ocr"],
+      hitAt: new Date(),
+    };
+    document.metadata.source = "ocr";
+    await document.updateOcrResult({ ...ocrResult, confidence: cached.metadata.confidence });
+    mdResults = ocrResult.mdResults as string;
+    numPages = ocrResult.numPages;
+    executed.push("ocr");
+    await AuditLog.log(
+      documentId,
+      document.fileName,
+      "reparse",
+      {
+        stage: "ocr_completed",
+        numPages,
+        provider: ocrResult.provider,
+        cached: true,
+        sourceDocumentId: cached._id.toString(),
+      }
+    );
+  } else if (stages.includes("ocr")) {
+    if (document.metadata.cache) {
+      document.metadata.cache = undefined;
+    }
+    try {
+      const ocrResult = await recognizeDocument({
+        filePath: resolveStoredFilePath(document.filePath, document.fileUrl),
+        fileUrl: document.fileUrl,
+        mimeType: document.fileType,
+      });
+      document.metadata.source = "ocr";
+      await document.updateOcrResult(ocrResult);
+      mdResults = ocrResult.mdResults;
+      numPages = ocrResult.numPages;
+      executed.push("ocr");
+      await AuditLog.log(
+        documentId,
+        document.fileName,
+        "reparse",
+        { stage: "ocr_completed", numPages, provider: ocrResult.provider }
+      );
+    } catch (error: any) {
+      throw new ProcessingStageError("ocr", error);
+    }
+  } else if (!mdResults) {
+    throw new ProcessingStageError("ocr", { message: "文档没有已保存的 OCR 结果，请先执行 OCR" });
+  }
+
+  // 步骤 2: 确定文档类型（自定义类型为 custom + customType）
+  let documentType: DocumentType = document.documentType;
+  let customType: string | undefined = document.customType;
+  const runParse = stages.includes("parse");
+
+  // 缓存文档已有解析结果且类型一致时直接复用，不调用 LLM
+  const reuseParsed =
+    runParse &&
+    !!cached?.parsedData &&
+    !!cached.metadata.aiParsedAt &&
+    (!options.documentType ||
+      (options.documentType === cached.documentType && options.customType === cached.customType)) &&
+    !(explicitStages && stages.includes("detect"));
+
+  if (reuseParsed) {
+    documentType = cached.documentType;
+    customType = cached.customType;
+  } else if (options.documentType) {
+    documentType = options.documentType;
+    customType = options.customType;
+  } else if (
+    (explicitStages && stages.includes("detect")) ||
+    (runParse && document.documentType === "other")
+  ) {
+    try {
+      const detection = await detectDocumentType(mdResults, await CustomDocumentType.listEnabled());
+      // 识别为 custom 但没有对应的自定义类型时按其他处理
+      documentType =
+        DOCUMENT_TYPES.includes(detection.type) && (detection.type !== "custom" || !!detection.customType)
+          ? detection.type
+          : "other";
+      customType = documentType === "custom" ? detection.customType : undefined;
+      document.metadata.detection = {
+        type: documentType,
+        customType,
+        confidence: detection.confidence,
+        reason: detection.reason,
+        detectedAt: new Date(),
+      };
+      executed.push("detect");
+      await AuditLog.log(
+        documentId,
+        document.fileName,
+        "reparse",
+        {
+          stage: "detect_completed",
+          documentType,
+          ...(customType && { customType }),
+          confidence: detection.confidence,
+        }
+      );
+    } catch (error: any) {
+      throw new ProcessingStageError("ai_parse", error);
+    }
+  }
+
+  if (documentType !== "custom") {
+    customType = undefined;
+  }
+  document.customType = customType;
+
+  // 步骤 3: AI 解析
+  if (reuseParsed) {
+    document.metadata.cache!.stages = ["ocr", "parse"];
+    if (cached.metadata.detection?.type) {
+      document.metadata.detection = cached.metadata.detection;
+    }
+    await document.updateParsedData(cached.parsedData.toObject(), documentType);
+    await recordRevision(document, "ai", {
+      reason: `复用文档 ${cached._id.toString()} 的解析结果`,
+    });
+    executed.push("parse");
+    await AuditLog.log(
+      documentId,
+      document.fileName,
+      "reparse",
+      {
+        stage: "ai_parse_completed",
+        documentType,
+        cached: true,
+        sourceDocumentId: cached._id.toString(),
+      }
+    );
+  } else if (runParse) {
+    if (document.metadata.cache) {
+      document.metadata.cache.stages = ["ocr"];
+    }
+    try {
+      // 自定义类型按其 JSON Schema 生成提示词，结果按 Schema 规范化
+      const definition = documentType === "custom" ? await getEnabledType(customType) : undefined;
+      const raw = await parseByType(mdResults, documentType, definition);
+      const result = definition ? normalizeCustomData(definition.jsonSchema, raw).data : raw;
+      const parsedData = await attachInvoiceQr(document, {
+        [documentType]: result,
+        fieldSources: buildFieldSources(documentType, result, "llm"),
+      });
+
+      await document.updateParsedData(parsedData, documentType);
+      await recordRevision(document, "ai");
+      executed.push("parse");
+      await AuditLog.log(
+        documentId,
+        document.fileName,
+        "reparse",
+        {
+          stage: "ai_parse_completed",
+          documentType,
+          ...(customType && { customType }),
+          llm: describeLlmRoute(documentType),
+          ...(parsedData.invoiceQr && {
+            qr: { decoded: true, conflicts: parsedData.invoiceQr.conflicts },
+          }),
+        }
+      );
+    } catch (error: any) {
+      throw new ProcessingStageError("ai_parse", error);
+    }
+  } else {
+    // 未重新解析：只更新类型，流程结束
+    document.documentType = documentType;
+    // 待审核的文档仍需审核
+    await document.updateStatus(
+      document.review?.status === "pending" ? "needs_review" : "completed"
+    );
+    await AuditLog.log(
+      documentId,
+      document.fileName,
+      "reparse",
+      { stage: "completed", stages: executed, documentType, ...(customType && { customType }) }
+    );
+  }
+
+  if (executed.includes("parse")) {
+    await runPostParseChecks(document);
+  }
+
+  return {
+    documentType,
+    ...(customType && { customType }),
+    stages: executed,
+    numPages,
+  };
+}
@@ -0,0 +1,425 @@
+/**
+ * 数电票（全面数字化电子发票）结构化解析
+ * XML 和 OFD 格式的发票本身携带结构化数据，直接读取字段，不经过 OCR 和 LLM
+ *
+ * - XML: 税务总局数电票 XML（根节点 EInvoice）
+ * - OFD: ZIP 容器，优先读取内嵌的数电票 XML 附件，
+ *   否则按 CustomTags 语义标签从页面文字中取值，最后回退到 OFD.xml 的 CustomDatas
+ */
+
+import path from "path";
+import { XMLParser } from "fast-xml-parser";
+import { unzipSync, strFromU8 } from "fflate";
+import { InvoiceData, InvoiceItem } from "@/types/document";
+import { toNumber as parseNumber, toTaxRate as parseTaxRate } from "./numberParsing";
+
+/**
+ * 结构化发票格式
+ */
+export type StructuredInvoiceFormat = "xml" | "ofd";
+
+/**
+ * 各格式对应的 MIME 类型（上传时浏览器可能不提供）
+ */
+export const STRUCTURED_MIME_TYPES: Record<StructuredInvoiceFormat, string[]> = {
+  xml: ["application/xml", "text/xml"],
+  ofd: ["application/ofd"],
+};
+
+/**
+ * OFD 中单个 XML 条目和全部 XML 条目解压后的大小上限（字节）
+ */
+const OFD_MAX_ENTRY_SIZE = 10 * 1024 * 1024;
+const OFD_MAX_TOTAL_SIZE = 50 * 1024 * 1024;
+
+/**
+ * 解析结果
+ */
+export interface StructuredInvoice {
+  format: StructuredInvoiceFormat;
+  invoice: InvoiceData;
+  // 发票内容的文本形式，用于全文搜索和大写金额校验
+  text: string;
+  numPages: number;
+  // 是否包含明细和税率（OFD 未内嵌数电票 XML 时只有表头字段）
+  complete: boolean;
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (name) => ["IssuItemInformation", "CustomData", "TextObject", "TextCode", "ObjectRef"].includes(name),
+});
+
+/**
+ * 根据文件名和 MIME 类型判断是否为结构化发票
+ */
+export function getStructuredFormat(
+  fileName: string,
+  mimeType?: string
+): StructuredInvoiceFormat | null {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === ".ofd" || (mimeType && STRUCTURED_MIME_TYPES.ofd.includes(mimeType))) {
+    return "ofd";
+  }
+  if (ext === ".xml" || (mimeType && STRUCTURED_MIME_TYPES.xml.includes(mimeType))) {
+    return "xml";
+  }
+  return null;
+}
+
+/**
+ * 补全上传文件的 MIME 类型
+ * 浏览器上传 .ofd 文件时通常不带类型，.xml 文件可能为 text/xml 或 application/xml
+ */
+export function normalizeUploadMimeType(fileName: string, mimeType: string): string {
+  if (mimeType && mimeType !== "application/octet-stream") {
+    return mimeType;
+  }
+  const format = getStructuredFormat(fileName);
+  return format ? STRUCTURED_MIME_TYPES[format][0] : mimeType;
+}
+
+/**
+ * 取节点文本（兼容带属性的节点）
+ */
+function text(node: unknown): string | undefined {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === "object") {
+    return "#text" in node ? text(node["#text"]) : undefined;
+  }
+  const value = String(node).trim();
+  return value || undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  return parseNumber(text(value));
+}
+
+/**
+ * 税率："0.13"、"13%"、"13" 统一为 0.13，免税 / 不征税为 0
+ */
+function toTaxRate(value: unknown): number | undefined {
+  return parseTaxRate(text(value));
+}
+
+/**
+ * 日期："2024-01-15"、"2024-01-15 10:00:00"、"20240115"、"2024年01月15日"
+ */
+function toDate(value: unknown): Date | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+  const match = raw.match(/(\d{4})\D?(\d{1,2})\D?(\d{1,2})/);
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  const date = new Date(`${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}T00:00:00+08:00`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * 去除未定义字段
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+}
+
+/**
+ * 解析数电票 XML 根节点
+ */
+function parseEInvoiceNode(root: any): { invoice: InvoiceData; amountInChinese?: string } {
+  const data = root.EInvoiceData || {};
+  const seller = data.SellerInformation || {};
+  const buyer = data.BuyerInformation || {};
+  const basic = data.BasicInformation || {};
+  const supervision = root.TaxSupervisionInfo || {};
+  const label = root.Header?.InherentLabel || {};
+
+  const items: InvoiceItem[] = (data.IssuItemInformation || []).map((item: any) =>
+    compact({
+      name: text(item.ItemName),
+      quantity: toNumber(item.Quantity),
+      unitPrice: toNumber(item.UnPrice),
+      amount: toNumber(item.Amount),
+      taxRate: toTaxRate(item.TaxRate),
+      taxAmount: toNumber(item.ComTaxAm),
+    })
+  );
+
+  const invoice = compact<InvoiceData>({
+    invoiceNo: text(supervision.InvoiceNumber) || text(root.Header?.EIid),
+    invoiceDate: toDate(supervision.IssueTime) || toDate(basic.RequestTime),
+    amount: toNumber(basic["TotalTax-includedAmount"]),
+    taxAmount: toNumber(basic.TotalTaxAm),
+    amountWithoutTax: toNumber(basic.TotalAmWithoutTax),
+    sellerName: text(seller.SellerName),
+    sellerTaxId: text(seller.SellerIdNum),
+    buyerName: text(buyer.BuyerName),
+    buyerTaxId: text(buyer.BuyerIdNum),
+    invoiceType: text(label.EInvoiceType?.LabelName) || text(label.GeneralOrSpecialVAT?.LabelName),
+    items,
+  });
+
+  return { invoice, amountInChinese: text(basic["TotalTax-includedAmountInChinese"]) };
+}
+
+/**
+ * 生成发票文本（Markdown），保存为 ocrResult.mdResults
+ */
+function renderInvoiceText(invoice: InvoiceData, amountInChinese?: string): string {
+  const date = invoice.invoiceDate
+    ? new Date(invoice.invoiceDate).toLocaleDateString("zh-CN", { timeZone: "Asia/Shanghai" })
+    : undefined;
+  const lines = [
+    `# ${invoice.invoiceType || "电子发票"}`,
+    "",
+    invoice.invoiceCode && `发票代码：${invoice.invoiceCode}`,
+    invoice.invoiceNo && `发票号码：${invoice.invoiceNo}`,
+    date && `开票日期：${date}`,
+    invoice.buyerName && `购买方名称：${invoice.buyerName}`,
+    invoice.buyerTaxId && `购买方纳税人识别号：${invoice.buyerTaxId}`,
+    invoice.sellerName && `销售方名称：${invoice.sellerName}`,
+    invoice.sellerTaxId && `销售方纳税人识别号：${invoice.sellerTaxId}`,
+  ].filter((line): line is string => typeof line === "string");
+
+  if (invoice.items && invoice.items.length > 0) {
+    lines.push("", "| 项目名称 | 数量 | 单价 | 金额 | 税率 | 税额 |", "| --- | --- | --- | --- | --- | --- |");
+    for (const item of invoice.items) {
+      const rate = item.taxRate !== undefined ? `${Math.round(item.taxRate * 10000) / 100}%` : "";
+      lines.push(
+        `| ${item.name ?? ""} | ${item.quantity ?? ""} | ${item.unitPrice ?? ""} | ${item.amount ?? ""} | ${rate} | ${item.taxAmount ?? ""} |`
+      );
+    }
+    lines.push("");
+  }
+
+  if (invoice.amountWithoutTax !== undefined) lines.push(`合计金额：${invoice.amountWithoutTax}`);
+  if (invoice.taxAmount !== undefined) lines.push(`合计税额：${invoice.taxAmount}`);
+  if (amountInChinese) lines.push(`价税合计（大写）：${amountInChinese}`);
+  if (invoice.amount !== undefined) lines.push(`价税合计（小写）：${invoice.amount}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * 解析数电票 XML
+ */
+export function parseInvoiceXml(content: string): StructuredInvoice {
+  const parsed = xmlParser.parse(content);
+  if (!parsed?.EInvoice) {
+    throw new Error("不是有效的数电票 XML（缺少 EInvoice 节点）");
+  }
+
+  const { invoice, amountInChinese } = parseEInvoiceNode(parsed.EInvoice);
+  return {
+    format: "xml",
+    invoice,
+    text: renderInvoiceText(invoice, amountInChinese),
+    numPages: 1,
+    complete: true,
+  };
+}
+
+/**
+ * OFD CustomTags 中的发票语义标签
+ */
+const OFD_TAG_FIELDS: Record<string, keyof InvoiceData> = {
+  InvoiceCode: "invoiceCode",
+  InvoiceNo: "invoiceNo",
+  IssueDate: "invoiceDate",
+  TaxInclusiveTotalAmount: "amount",
+  TaxTotalAmount: "taxAmount",
+  TaxExclusiveTotalAmount: "amountWithoutTax",
+  SellerName: "sellerName",
+  SellerTaxID: "sellerTaxId",
+  BuyerName: "buyerName",
+  BuyerTaxID: "buyerTaxId",
+};
+
+/**
+ * OFD.xml CustomDatas 中的发票字段
+ */
+const OFD_CUSTOM_DATA_FIELDS: Record<string, keyof InvoiceData> = {
+  发票代码: "invoiceCode",
+  发票号码: "invoiceNo",
+  开票日期: "invoiceDate",
+  价税合计: "amount",
+  合计税额: "taxAmount",
+  合计金额: "amountWithoutTax",
+  销售方名称: "sellerName",
+  销售方纳税人识别号: "sellerTaxId",
+  购买方名称: "buyerName",
+  购买方纳税人识别号: "buyerTaxId",
+};
+
+/**
+ * 按字段类型转换取值
+ */
+function assignField(invoice: InvoiceData, field: keyof InvoiceData, value: string): void {
+  if (!value || invoice[field] !== undefined) return;
+  if (field === "invoiceDate") {
+    const date = toDate(value);
+    if (date) invoice.invoiceDate = date;
+  } else if (field === "amount" || field === "taxAmount" || field === "amountWithoutTax") {
+    const amount = toNumber(value);
+    if (amount !== undefined) invoice[field] = amount;
+  } else if (field !== "items" && field !== "deductible") {
+    invoice[field] = value;
+  }
+}
+
+/**
+ * 递归遍历 XML 节点
+ */
+function walk(node: any, visit: (name: string, value: any) => void): void {
+  if (!node || typeof node !== "object") return;
+  for (const [name, value] of Object.entries(node)) {
+    if (name.startsWith("@_") || name === "#text") continue;
+    const children = Array.isArray(value) ? value : [value];
+    for (const child of children) {
+      visit(name, child);
+      walk(child, visit);
+    }
+  }
+}
+
+/**
+ * 收集页面中的文字对象（ID → 文本），同时返回按页面顺序拼接的全文
+ */
+function collectTextObjects(files: Record<string, string>): {
+  byId: Map<string, string>;
+  fullText: string;
+  numPages: number;
+} {
+  const byId = new Map<string, string>();
+  const pages: string[] = [];
+
+  const contentFiles = Object.keys(files)
+    .filter((name) => /\/Pages\/[^/]+\/Content\.xml$/i.test(name))
+    .sort();
+
+  for (const name of contentFiles) {
+    const parts: string[] = [];
+    walk(xmlParser.parse(files[name]), (tag, value) => {
+      if (tag !== "TextObject") return;
+      const content = (value.TextCode || []).map((code: any) => text(code) || "").join("");
+      if (!content) return;
+      if (value["@_ID"]) byId.set(String(value["@_ID"]), content);
+      parts.push(content);
+    });
+    pages.push(parts.join("\n"));
+  }
+
+  return { byId, fullText: pages.join("\n\n---\n\n"), numPages: contentFiles.length };
+}
+
+/**
+ * 读取 ZIP 中的 XML 文件
+ * 只解压 .xml 条目，按条目声明的解压后大小在分配内存前拒绝过大的文件（防止 ZIP 炸弹）
+ */
+function readEntries(buffer: Buffer): Record<string, string> {
+  let entries: Record<string, Uint8Array>;
+  let totalSize = 0;
+  let oversized = false;
+  try {
+    entries = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        if (!/\.xml$/i.test(file.name)) return false;
+        const size = Math.max(file.size, file.originalSize);
+        totalSize += size;
+        if (size > OFD_MAX_ENTRY_SIZE || totalSize > OFD_MAX_TOTAL_SIZE) {
+          oversized = true;
+          throw new Error(file.name);
+        }
+        return true;
+      },
+    });
+  } catch {
+    throw new Error(oversized ? "OFD 文件解压后超过大小限制" : "不是有效的 OFD 文件（无法解压）");
+  }
+
+  const files: Record<string, string> = {};
+  for (const [name, data] of Object.entries(entries)) {
+    files[name.replace(/^\/+/, "")] = strFromU8(data);
+  }
+  return files;
+}
+
+/**
+ * 解析 OFD 发票
+ */
+export function parseInvoiceOfd(buffer: Buffer): StructuredInvoice {
+  const files = readEntries(buffer);
+  if (!files["OFD.xml"]) {
+    throw new Error("不是有效的 OFD 文件（缺少 OFD.xml）");
+  }
+
+  const { byId, fullText, numPages } = collectTextObjects(files);
+
+  // 1. 内嵌的数电票 XML 附件包含完整字段和明细
+  for (const content of Object.values(files)) {
+    if (!content.includes("EInvoice")) continue;
+    const parsed = xmlParser.parse(content);
+    if (parsed?.EInvoice) {
+      const { invoice, amountInChinese } = parseEInvoiceNode(parsed.EInvoice);
+      if (invoice.invoiceNo) {
+        return {
+          format: "ofd",
+          invoice,
+          text: renderInvoiceText(invoice, amountInChinese),
+          numPages: numPages || 1,
+          complete: true,
+        };
+      }
+    }
+  }
+
+  // 2. CustomTags 语义标签引用页面中的文字对象（只有表头字段，明细由调用方从页面文字中提取）
+  const invoice: InvoiceData = {};
+
+  for (const [name, content] of Object.entries(files)) {
+    if (!/CustomTag/i.test(name) || /CustomTags\.xml$/i.test(name)) continue;
+    walk(xmlParser.parse(content), (tag, value) => {
+      const field = OFD_TAG_FIELDS[tag];
+      if (!field || typeof value !== "object") return;
+      const refs: any[] = value.ObjectRef || [];
+      const joined = refs.map((ref) => byId.get(text(ref) || "") || "").join("");
+      assignField(invoice, field, joined.replace(/^[¥￥]/, ""));
+    });
+  }
+
+  // 3. OFD.xml 文档元数据
+  walk(xmlParser.parse(files["OFD.xml"]), (tag, value) => {
+    if (tag !== "CustomData") return;
+    const field = OFD_CUSTOM_DATA_FIELDS[String(value["@_Name"] || "")];
+    const fieldValue = text(value);
+    if (field && fieldValue) assignField(invoice, field, fieldValue);
+  });
+
+  if (!invoice.invoiceNo) {
+    throw new Error("OFD 文件中未找到发票数据");
+  }
+
+  return {
+    format: "ofd",
+    invoice,
+    text: fullText || renderInvoiceText(invoice),
+    numPages: numPages || 1,
+    complete: false,
+  };
+}
+
+/**
+ * 按格式解析结构化发票
+ */
+export function parseStructuredInvoice(
+  buffer: Buffer,
+  format: StructuredInvoiceFormat
+): StructuredInvoice {
+  return format === "ofd" ? parseInvoiceOfd(buffer) : parseInvoiceXml(buffer.toString("utf-8"));
+}
@@ -0,0 +1,391 @@
+/**
+ * 字段置信度与来源区域
+ * 将解析出的每个字段值与 OCR 版面块（LayoutDetail）比对，记录值所在的页码和 bbox_2d，
+ * 并结合字段来源、匹配程度、版面块 OCR 置信度和校验警告计算 0-100 的字段置信度
+ */
+
+import {
+  FieldConfidence,
+  FieldRegion,
+  FieldSource,
+  LayoutDetail,
+  ValidationWarning,
+} from "@/types/document";
+
+/**
+ * parsedData 中不属于解析结果的键
+ */
+const RESERVED_KEYS = ["invoiceQr", "fieldSources", "fieldConfidence"];
+
+/**
+ * 北京时间与 UTC 的时差（日期字段按北京时间和 UTC 两种日期匹配）
+ */
+const SHANGHAI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * 非 AI 来源的字段视为可信
+ */
+const TRUSTED_SOURCES: FieldSource[] = ["qr", "xml", "ofd", "manual"];
+
+/**
+ * 近似匹配的最低相似度
+ */
+const MIN_SIMILARITY = 0.75;
+
+/**
+ * 每个字段最多记录的来源区域数
+ */
+const MAX_REGIONS = 3;
+
+/**
+ * 超过该长度的文本视为 AI 归纳的自由文本（如简历摘要），只做精确定位
+ */
+const FREE_TEXT_LENGTH = 50;
+
+/**
+ * 参与近似匹配的文本片段最大长度
+ * 版面块按 HTML 标签和换行拆为片段（如表格单元格），更长的片段只做精确匹配
+ */
+const MAX_FUZZY_SEGMENT_LENGTH = 200;
+
+/**
+ * 置信度计算参数
+ * - EXACT: 值在版面块中原样出现
+ * - NOT_FOUND: 版面中找不到（AI 推断或换算得到，如由大写金额得出）
+ * - UNLOCATABLE: 值过短（如数量 1）、非文本或为自由文本，无法可靠定位
+ */
+const SCORE_EXACT = 95;
+const SCORE_NOT_FOUND = 40;
+const SCORE_UNLOCATABLE = 70;
+
+/**
+ * 有校验警告的字段置信度上限
+ */
+const WARNING_CAPS: Record<string, number> = {
+  high: 30,
+  medium: 60,
+  low: 80,
+};
+
+function plain(value: any): any {
+  return value && typeof value.toObject === "function" ? value.toObject() : value;
+}
+
+/**
+ * 规范化文本：去除 HTML 标签、空白、千分位和货币符号，全角转半角，字母转大写
+ */
+export function normalizeText(value: string): string {
+  return value
+    .replace(/<[^>]+>/g, "")
+    .replace(/[！-～]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/[\s,¥￥　]/g, "")
+    .toUpperCase();
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * 日期在票面上可能的写法
+ */
+function dateVariants(date: Date): string[] {
+  const variants = new Set<string>();
+  for (const shifted of [new Date(date.getTime() + SHANGHAI_OFFSET_MS), date]) {
+    const y = shifted.getUTCFullYear();
+    const m = shifted.getUTCMonth() + 1;
+    const d = shifted.getUTCDate();
+    variants.add(`${y}年${pad2(m)}月${pad2(d)}日`);
+    variants.add(`${y}年${m}月${d}日`);
+    variants.add(`${y}-${pad2(m)}-${pad2(d)}`);
+    variants.add(`${y}/${pad2(m)}/${pad2(d)}`);
+    variants.add(`${y}${pad2(m)}${pad2(d)}`);
+  }
+  return [...variants];
+}
+
+/**
+ * 字段值在票面上可能的写法（已规范化）
+ */
+export function valueVariants(value: unknown): string[] {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? [] : dateVariants(value);
+  }
+  if (typeof value === "number") {
+    if (!isFinite(value)) return [];
+    const variants = [value.toFixed(2), String(value)];
+    // 税率等比例值在票面上为百分数
+    if (value > 0 && value < 1) {
+      variants.push(`${Math.round(value * 10000) / 100}%`);
+    }
+    return [...new Set(variants)];
+  }
+  if (typeof value === "string") {
+    // ISO 日期字符串（接口提交的日期）
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+      return dateVariants(new Date(value));
+    }
+    const normalized = normalizeText(value);
+    return normalized ? [normalized] : [];
+  }
+  return [];
+}
+
+/**
+ * needle 与 haystack 中最相近子串的相似度（1 - 编辑距离 / needle 长度）
+ * 确定达不到 minSimilarity 时提前返回 0
+ */
+export function substringSimilarity(needle: string, haystack: string, minSimilarity = 0): number {
+  if (!needle) return 0;
+  if (haystack.includes(needle)) return 1;
+
+  // 近似子串匹配：首行为 0，允许匹配从 haystack 任意位置开始；每行最小值不会变小
+  const maxDistance = needle.length * (1 - minSimilarity);
+  let previous = new Array(haystack.length + 1).fill(0);
+  for (let i = 1; i <= needle.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= haystack.length; j++) {
+      const cost = needle[i - 1] === haystack[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return 0;
+    previous = current;
+  }
+  return Math.max(0, 1 - Math.min(...previous) / needle.length);
+}
+
+/**
+ * 规范化后的版面块：content 用于精确匹配，segments 用于近似匹配
+ */
+interface SearchBlock {
+  block: LayoutDetail;
+  content: string;
+  segments: Array<{ content: string; chars: Map<string, number> }>;
+}
+
+function charCounts(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  return counts;
+}
+
+/**
+ * 规范化版面块（每次计算只做一次）
+ */
+function prepareBlocks(blocks: LayoutDetail[]): SearchBlock[] {
+  const prepared: SearchBlock[] = [];
+  for (const block of blocks) {
+    if (!block.content) continue;
+    const segments = block.content
+      .split(/<[^>]+>|\n/)
+      .map(normalizeText)
+      .filter((segment) => segment && segment.length <= MAX_FUZZY_SEGMENT_LENGTH);
+    prepared.push({
+      block,
+      content: normalizeText(block.content),
+      segments: segments.map((segment) => ({ content: segment, chars: charCounts(segment) })),
+    });
+  }
+  return prepared;
+}
+
+/**
+ * needle 中能在片段里找到的字符数（按出现次数计）
+ * 编辑距离不小于 needle 长度减去该值，用于在计算编辑距离前排除不可能达到最低相似度的片段
+ */
+function sharedChars(needle: Map<string, number>, chars: Map<string, number>): number {
+  let shared = 0;
+  for (const [char, count] of needle) {
+    shared += Math.min(count, chars.get(char) || 0);
+  }
+  return shared;
+}
+
+/**
+ * 在版面块中定位字段值，返回相似度最高的块及相似度
+ * 先做精确匹配；找不到时只对字符重合足够的短片段计算编辑距离。
+ * 数字和日期只做精确匹配（近似匹配会把 1.00 匹配到 130.00 中）
+ */
+function locateValue(
+  value: unknown,
+  blocks: SearchBlock[]
+): { similarity: number; blocks: LayoutDetail[] } | null {
+  const variants = valueVariants(value);
+  if (variants.length === 0) return null;
+
+  const exact = blocks.filter(({ content }) => variants.some((variant) => content.includes(variant)));
+  if (exact.length > 0) {
+    return { similarity: 1, blocks: exact.map(({ block }) => block) };
+  }
+
+  const needles = variants
+    .filter((variant) => variant.length <= FREE_TEXT_LENGTH)
+    .map((variant) => ({
+      variant,
+      chars: charCounts(variant),
+      minShared: variant.length * MIN_SIMILARITY,
+    }));
+  if (typeof value !== "string" || needles.length === 0) {
+    return { similarity: 0, blocks: [] };
+  }
+
+  let best = 0;
+  let matched: LayoutDetail[] = [];
+  for (const { block, segments } of blocks) {
+    let similarity = 0;
+    for (const { variant, chars, minShared } of needles) {
+      for (const segment of segments) {
+        if (segment.content.length < minShared || sharedChars(chars, segment.chars) < minShared) {
+          continue;
+        }
+        similarity = Math.max(
+          similarity,
+          substringSimilarity(variant, segment.content, MIN_SIMILARITY)
+        );
+      }
+    }
+    if (similarity > best) {
+      best = similarity;
+      matched = [block];
+    } else if (similarity === best && similarity > 0) {
+      matched.push(block);
+    }
+  }
+
+  return best >= MIN_SIMILARITY ? { similarity: best, blocks: matched } : { similarity: 0, blocks: [] };
+}
+
+function toRegion(block: LayoutDetail): FieldRegion {
+  return {
+    page: block.page || 1,
+    index: block.index,
+    bbox_2d: block.bbox_2d,
+  };
+}
+
+/**
+ * 展开为“字段路径 → 值”（路径以解析结果类型开头，数组元素以下标表示）
+ */
+function flattenFields(value: any, prefix: string, result: Array<[string, unknown]>) {
+  value = plain(value);
+  if (value === undefined || value === null || value === "") return result;
+  if (value instanceof Date || typeof value !== "object") {
+    result.push([prefix, value]);
+    return result;
+  }
+  const entries: Array<[string, any]> = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+  for (const [key, item] of entries) {
+    if (key === "_id") continue;
+    flattenFields(item, `${prefix}.${key}`, result);
+  }
+  return result;
+}
+
+/**
+ * 计算单个字段的置信度和来源区域
+ */
+function scoreField(
+  value: unknown,
+  source: FieldSource | undefined,
+  blocks: SearchBlock[],
+  warnings: ValidationWarning[]
+): FieldConfidence {
+  // 过短的值（如数量 1）会匹配到大量无关位置，不定位
+  const variants = valueVariants(value);
+  const locatable = variants.length > 0 && variants.every((variant) => variant.length >= 2);
+  const freeText = variants.length > 0 && variants.every((variant) => variant.length > FREE_TEXT_LENGTH);
+  const located = locatable ? locateValue(value, blocks) : null;
+  const regions = (located?.blocks || []).slice(0, MAX_REGIONS).map(toRegion);
+
+  let score: number;
+  if (source && TRUSTED_SOURCES.includes(source)) {
+    score = 100;
+  } else if (!located || located.similarity === 0) {
+    // 无版面块（OCR 未返回布局）时无从定位，不按找不到处理
+    score = locatable && !freeText && blocks.length > 0 ? SCORE_NOT_FOUND : SCORE_UNLOCATABLE;
+  } else {
+    score = located.similarity === 1 ? SCORE_EXACT : Math.round(SCORE_EXACT * located.similarity);
+    // 版面块有 OCR 置信度（如 Tesseract）时按最高的块折算
+    const blockConfidence = Math.max(
+      ...located.blocks.map((block) => (typeof block.confidence === "number" ? block.confidence : 100))
+    );
+    score = Math.round((score * Math.min(100, Math.max(0, blockConfidence))) / 100);
+  }
+
+  // 人工修改的值不再受校验警告影响
+  if (source !== "manual") {
+    for (const warning of warnings) {
+      score = Math.min(score, WARNING_CAPS[warning.severity] ?? score);
+    }
+  }
+
+  return { score, regions };
+}
+
+/**
+ * 为解析结果的每个字段计算置信度和来源区域
+ * 键为字段路径（如 invoice.amount、invoice.items.0.name），与 fieldSources 一致
+ */
+export function buildFieldConfidence(
+  parsedData: any,
+  layoutDetails: LayoutDetail[] = [],
+  warnings: ValidationWarning[] = []
+): Record<string, FieldConfidence> {
+  const data = plain(parsedData) || {};
+  const sources: Record<string, FieldSource> = data.fieldSources || {};
+  const blocks = prepareBlocks((layoutDetails || []).map(plain));
+  const result: Record<string, FieldConfidence> = {};
+
+  for (const [section, sectionData] of Object.entries(data)) {
+    if (RESERVED_KEYS.includes(section) || !sectionData || typeof sectionData !== "object") continue;
+
+    for (const [path, value] of flattenFields(sectionData, section, [])) {
+      // 明细字段的来源记录在明细路径或上级字段上
+      const field = path.split(".").slice(0, 2).join(".");
+      const fieldPath = path.slice(section.length + 1);
+      result[path] = scoreField(
+        value,
+        sources[path] || sources[field],
+        blocks,
+        warnings.filter((warning) => warning.field === fieldPath)
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 置信度低于阈值的字段（按置信度升序）
+ */
+export function weakFields(
+  fieldConfidence: Record<string, FieldConfidence> | undefined,
+  threshold: number
+): Array<{ path: string; score: number }> {
+  return Object.entries(fieldConfidence || {})
+    .filter(([, confidence]) => confidence.score < threshold)
+    .map(([path, confidence]) => ({ path, score: confidence.score }))
+    .sort((a, b) => a.score - b.score);
+}
+
+/**
+ * 重新计算文档各字段的置信度并保存到 parsedData.fieldConfidence
+ * 需在 validateDocument 之后调用，以便计入校验警告
+ */
+export async function updateFieldConfidence(document: any): Promise<void> {
+  if (!document.parsedData) return;
+
+  document.set(
+    "parsedData.fieldConfidence",
+    buildFieldConfidence(
+      document.parsedData,
+      document.ocrResult?.layoutDetails,
+      document.validation?.warnings
+    )
+  );
+  await document.save();
+}
@@ -0,0 +1,86 @@
+/**
+ * 字段数据来源
+ * parsedData.fieldSources 记录每个字段的值来自 AI 解析、二维码、数电票结构化数据还是人工修改
+ */
+
+import { FieldSource } from "@/types/document";
+
+/**
+ * parsedData 中不属于解析结果的键
+ */
+const RESERVED_KEYS = ["invoiceQr", "fieldSources", "fieldConfidence"];
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+function plain(value: any): any {
+  return value && typeof value.toObject === "function" ? value.toObject() : value;
+}
+
+/**
+ * 为一组解析结果的非空字段生成来源记录
+ */
+export function buildFieldSources(
+  section: string,
+  data: object | undefined,
+  source: FieldSource
+): Record<string, FieldSource> {
+  const sources: Record<string, FieldSource> = {};
+  for (const [field, value] of Object.entries(plain(data) || {})) {
+    if (hasValue(value)) {
+      sources[`${section}.${field}`] = source;
+    }
+  }
+  return sources;
+}
+
+/**
+ * 取日期值的时间戳（Date、ISO 字符串或时间戳），其他值返回 NaN
+ */
+function timestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" || typeof value === "number") return new Date(value).getTime();
+  return NaN;
+}
+
+/**
+ * 比较字段值（日期按时间戳，其余按 JSON），解析结果版本差异比较也使用
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return timestamp(a) === timestamp(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 人工修改解析结果后更新来源记录：值发生变化的字段标记为 manual
+ */
+export function markEditedFieldSources(
+  previous: any,
+  next: any
+): Record<string, FieldSource> {
+  const before = plain(previous) || {};
+  const sources: Record<string, FieldSource> = { ...(before.fieldSources || {}) };
+
+  for (const [section, data] of Object.entries(next || {})) {
+    if (RESERVED_KEYS.includes(section) || !data || typeof data !== "object") continue;
+    const original = plain(before[section]) || {};
+
+    for (const [field, value] of Object.entries(data as Record<string, unknown>)) {
+      const path = `${section}.${field}`;
+      // 前后均为空值视为未修改
+      if (!hasValue(original[field]) && !hasValue(value)) continue;
+      if (sameValue(original[field], value)) continue;
+      if (hasValue(value)) {
+        sources[path] = "manual";
+      } else {
+        delete sources[path];
+      }
+    }
+  }
+
+  return sources;
+}
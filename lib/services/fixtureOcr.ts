@@ -0,0 +1,93 @@
+/**
+ * 预置结果 OCR 服务
+ * 按文件内容的 SHA-256 从 OCR_FIXTURE_DIR 读取结果，离线且结果确定，
+ * 用于隔离网络环境的演示和测试
+ *
+ * 查找顺序：
+ * - <sha256>.json: 统一格式（mdResults 等）或 GLM-OCR 原始响应（md_results 等）
+ * - <sha256>.md: 仅 Markdown 文本
+ * - default.json / default.md: 兜底结果
+ */
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { env } from "../env";
+import { GlmOcrService, toOcrResult } from "./glmOcr";
+import type { OcrInput, OcrProvider, OcrResult } from "./ocrProvider";
+
+/**
+ * 读取文件，不存在时返回 null
+ */
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * 预置结果服务提供方
+ */
+export class FixtureOcrProvider implements OcrProvider {
+  readonly name = "fixture";
+
+  async recognize(input: OcrInput): Promise<OcrResult> {
+    if (!input.filePath) {
+      throw new Error("预置 OCR 需要文件存储路径");
+    }
+
+    const buffer = await fs.readFile(input.filePath);
+    const hash = createHash("sha256").update(buffer).digest("hex");
+
+    for (const key of [hash, "default"]) {
+      const json = await readIfExists(path.join(env.ocrFixtureDir, `${key}.json`));
+      if (json !== null) {
+        return this.fromJson(JSON.parse(json));
+      }
+
+      const markdown = await readIfExists(path.join(env.ocrFixtureDir, `${key}.md`));
+      if (markdown !== null) {
+        return {
+          mdResults: markdown,
+          layoutDetails: [],
+          numPages: 1,
+          pages: [],
+          confidence: 100,
+          provider: this.name,
+        };
+      }
+    }
+
+    throw new Error(`未找到预置 OCR 结果: ${hash}`);
+  }
+
+  /**
+   * 解析 JSON 预置结果
+   */
+  private fromJson(data: any): OcrResult {
+    // GLM-OCR 原始响应，可直接保存线上响应作为预置结果
+    if (typeof data.md_results === "string") {
+      return { ...toOcrResult(data), provider: this.name };
+    }
+
+    if (typeof data.mdResults !== "string") {
+      throw new Error("预置 OCR 结果缺少 mdResults");
+    }
+
+    const layoutDetails = Array.isArray(data.layoutDetails) ? data.layoutDetails : [];
+    return {
+      mdResults: data.mdResults,
+      layoutDetails,
+      numPages: data.numPages || 1,
+      pages: Array.isArray(data.pages) ? data.pages : [],
+      confidence:
+        typeof data.confidence === "number"
+          ? data.confidence
+          : GlmOcrService.calculateConfidence([layoutDetails]),
+      provider: this.name,
+    };
+  }
+}
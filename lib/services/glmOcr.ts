@@ -4,7 +4,10 @@
  */
 
 import axios, { AxiosError } from "axios";
+import fs from "fs/promises";
 import { env } from "../env";
+import { toServiceApiError } from "./serviceError";
+import type { OcrInput, OcrProvider, OcrResult } from "./ocrProvider";
 
 /**
  * GLM-OCR 响应接口
@@ -57,6 +60,13 @@ export interface GlmOcrOptions {
   model?: string;
 }
 
+/**
+ * 规范化 MIME 类型（image/jpg 不是标准类型）
+ */
+function normalizeMimeType(mimeType: string): string {
+  return mimeType === "image/jpg" ? "image/jpeg" : mimeType || "application/octet-stream";
+}
+
 /**
  * GLM-OCR 服务类
  */
@@ -80,7 +90,10 @@ export class GlmOcrService {
     try {
       console.log("GLM-OCR API request:", {
         model: options.model || "GLM-OCR",
-        file: options.file,
+        // 内联文件只记录类型和长度
+        file: options.file.startsWith("data:")
+          ? `${options.file.slice(0, options.file.indexOf(","))} (${options.file.length} chars)`
+          : options.file,
       });
       const response = await axios.post<GlmOcrResponse>(
         this.apiUrl,
@@ -107,9 +120,7 @@ export class GlmOcrService {
           message: axiosError.message,
         });
 
-        throw new Error(
-          `OCR API 调用失败: ${axiosError.response?.data?.error?.message || axiosError.message}`
-        );
+        throw toServiceApiError("OCR API 调用失败", error);
       }
       throw error;
     }
@@ -125,11 +136,14 @@ export class GlmOcrService {
   /**
    * 处理 Base64 编码的文件进行 OCR
    */
-  async parseFromBase64(base64Data: string): Promise<GlmOcrResponse> {
+  async parseFromBase64(
+    base64Data: string,
+    mimeType: string = "image/png"
+  ): Promise<GlmOcrResponse> {
     // 确保是 data URL 格式
     const fileUrl = base64Data.startsWith("data:")
       ? base64Data
-      : `data:image/png;base64,${base64Data}`;
+      : `data:${normalizeMimeType(mimeType)};base64,${base64Data}`;
 
     return this.parse({ file: fileUrl });
   }
@@ -210,9 +224,62 @@ export class GlmOcrService {
 }
 
 /**
- * 导出单例实例
+ * 单例实例（首次使用时创建，未配置 GLM 的部署不会因导入而报错）
+ */
+let glmOcrServiceInstance: GlmOcrService | null = null;
+
+export function getGlmOcrService(): GlmOcrService {
+  if (!glmOcrServiceInstance) {
+    glmOcrServiceInstance = new GlmOcrService();
+  }
+  return glmOcrServiceInstance;
+}
+
+/**
+ * 将 GLM-OCR 响应转换为统一的 OCR 结果
+ */
+export function toOcrResult(response: GlmOcrResponse): OcrResult {
+  return {
+    mdResults: response.md_results,
+    layoutDetails: GlmOcrService.normalizeLayoutDetails(response.layout_details || []),
+    numPages: response.data_info?.num_pages || 1,
+    pages: (response.data_info?.pages || []).map((page, index) => ({
+      page: index + 1,
+      width: page.width,
+      height: page.height,
+    })),
+    confidence: GlmOcrService.calculateConfidence(response.layout_details || []),
+    provider: "glm",
+  };
+}
+
+/**
+ * GLM-OCR 服务提供方
  */
-export const glmOcrService = new GlmOcrService();
+export class GlmOcrProvider implements OcrProvider {
+  readonly name = "glm";
+
+  async recognize(input: OcrInput): Promise<OcrResult> {
+    // URL 模式：文件需能从 GLM 服务端公开访问
+    if (env.glmOcrFileMode === "url") {
+      if (!input.fileUrl) {
+        throw new Error("GLM-OCR 需要可访问的文件 URL");
+      }
+      const response = await getGlmOcrService().parseFromUrl(input.fileUrl);
+      return toOcrResult(response);
+    }
+
+    if (!input.filePath) {
+      throw new Error("文件存储路径缺失，无法提交 OCR");
+    }
+    const buffer = await fs.readFile(input.filePath);
+    const response = await getGlmOcrService().parseFromBase64(
+      buffer.toString("base64"),
+      input.mimeType
+    );
+    return toOcrResult(response);
+  }
+}
 
 /**
  * 便捷函数：从 URL 进行 OCR
@@ -224,7 +291,7 @@ export async function ocrFromUrl(fileUrl: string): Promise<{
   confidence: number;
 }> {
   console.log("OCR from URL:", fileUrl);
-  const response = await glmOcrService.parseFromUrl(fileUrl);
+  const response = await getGlmOcrService().parseFromUrl(fileUrl);
   console.log(response);
   const layoutDetails = GlmOcrService.normalizeLayoutDetails(
     response.layout_details
@@ -245,14 +312,15 @@ export async function ocrFromUrl(fileUrl: string): Promise<{
  * 便捷函数：从 Base64 进行 OCR
  */
 export async function ocrFromBase64(
-  base64Data: string
+  base64Data: string,
+  mimeType?: string
 ): Promise<{
   mdResults: string;
   layoutDetails: Array<LayoutDetail & { page?: number }>;
   numPages: number;
   confidence: number;
 }> {
-  const response = await glmOcrService.parseFromBase64(base64Data);
+  const response = await getGlmOcrService().parseFromBase64(base64Data, mimeType);
 
   const layoutDetails = GlmOcrService.normalizeLayoutDetails(
     response.layout_details
@@ -1,41 +1,12 @@
 /**
- * GLM-4.7 AI 解析服务
- * 将 OCR 结果转换为结构化 JSON 数据
+ * AI 解析服务
+ * 将 OCR 结果转换为结构化 JSON 数据，模型按文档类型路由（见 llmProvider）
  */
 
-import axios, { AxiosError } from "axios";
-import { env } from "../env";
-import { DocumentType } from "@/types/document";
-
-/**
- * GLM Chat API 消息接口
- */
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
-
-/**
- * GLM Chat API 响应接口
- */
-interface ChatResponse {
-  id: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+import { CustomFieldSchema, DocumentType } from "@/types/document";
+import { chatForTask, ChatMessage, LlmTask } from "./llmProvider";
+import { buildExtractionPrompt } from "./customDocumentTypes";
+import { normalizeInvoiceNumbers } from "./numberParsing";
 
 /**
  * 解析结果接口
@@ -46,9 +17,31 @@ export interface ParsedData {
   resume?: any;
   handwritten?: any;
   financialReport?: any;
+  custom?: any;
   detectedType?: DocumentType;
 }
 
+/**
+ * 参与解析的自定义文档类型
+ */
+export interface CustomTypePrompt {
+  key: string;
+  name: string;
+  description?: string;
+  jsonSchema: CustomFieldSchema;
+  instructions?: string;
+}
+
+/**
+ * 类型识别结果（识别为自定义类型时 type 为 custom，customType 为类型 key）
+ */
+export interface TypeDetectionResult {
+  type: DocumentType;
+  customType?: string;
+  confidence: number;
+  reason: string;
+}
+
 /**
  * Prompt 模板
  */
@@ -71,11 +64,15 @@ const PROMPT_TEMPLATES = {
 - sellerTaxId: 销售方纳税人识别号
 - buyerName: 购买方名称
 - buyerTaxId: 购买方纳税人识别号
+- checkCode: 校验码
+- invoiceType: 发票种类（票面标题，如 增值税专用发票、增值税普通发票、电子发票（增值税专用发票））
 - items: 明细项数组
   - name: 货物/服务名称
   - quantity: 数量
   - unitPrice: 单价
-  - amount: 金额
+  - amount: 金额（不含税）
+  - taxRate: 税率（如 0.13）
+  - taxAmount: 税额
 
 请只返回JSON，不要包含任何其他文字。如果某字段无法识别，请设置为null。`,
 
@@ -179,7 +176,7 @@ const PROMPT_TEMPLATES = {
 - resume: 简历（包含个人信息、教育经历、工作经历等）
 - handwritten: 手写笔记（手写内容）
 - financial_report: 财务报表（资产负债表、利润表等）
-- other: 其他类型
+{customTypes}- other: 其他类型
 
 请只返回JSON格式：
 {
@@ -193,59 +190,14 @@ OCR识别结果：
 };
 
 /**
- * GLM Chat API 服务类
+ * AI 解析服务类
  */
 export class GlmParserService {
-  private apiKey: string;
-  private apiUrl: string;
-
-  constructor() {
-    this.apiKey = env.glmApiKey;
-    this.apiUrl = env.glmChatApiUrl;
-
-    if (!this.apiKey) {
-      throw new Error("GLM_API_KEY is not configured");
-    }
-  }
-
   /**
-   * 调用 GLM Chat API
+   * 调用 LLM（detect 为类型识别，其余为文档类型）
    */
-  private async chat(messages: ChatMessage[], model: string = "glm-4.7"): Promise<string> {
-    try {
-      const response = await axios.post<ChatResponse>(
-        this.apiUrl,
-        {
-          model,
-          messages,
-          temperature: 0.1, // 低温度以获得更确定性的结果
-          top_p: 0.9,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            "Content-Type": "application/json",
-          },
-          timeout: 60000, // 1 分钟超时
-        }
-      );
-
-      return response.data.choices[0]?.message?.content || "";
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError<any>;
-        console.error("GLM Chat API error:", {
-          status: axiosError.response?.status,
-          data: axiosError.response?.data,
-          message: axiosError.message,
-        });
-
-        throw new Error(
-          `GLM API 调用失败: ${axiosError.response?.data?.error?.message || axiosError.message}`
-        );
-      }
-      throw error;
-    }
+  private async chat(messages: ChatMessage[], task: LlmTask): Promise<string> {
+    return chatForTask(task, messages);
   }
 
   /**
@@ -270,37 +222,43 @@ export class GlmParserService {
   }
 
   /**
-   * 识别文档类型
+   * 识别文档类型（自定义类型以其 key 作为候选类型）
    */
-  async detectDocumentType(ocrResult: string): Promise<{
-    type: DocumentType;
-    confidence: number;
-    reason: string;
-  }> {
-    const prompt = PROMPT_TEMPLATES.detect_type.replace("{content}", ocrResult);
+  async detectDocumentType(
+    ocrResult: string,
+    customTypes: Array<Pick<CustomTypePrompt, "key" | "name" | "description">> = []
+  ): Promise<TypeDetectionResult> {
+    const customLines = customTypes
+      .map((type) => `- ${type.key}: ${type.name}${type.description ? `（${type.description}）` : ""}\n`)
+      .join("");
+    const prompt = PROMPT_TEMPLATES.detect_type
+      .replace("{customTypes}", customLines)
+      .replace("{content}", ocrResult);
 
     const response = await this.chat([
       { role: "user", content: prompt },
-    ]);
+    ], "detect");
 
     const result = this.parseJsonResponse(response);
+    const customType = customTypes.find((type) => type.key === result.type);
 
     return {
-      type: result.type || "other",
+      type: customType ? "custom" : result.type || "other",
+      ...(customType && { customType: customType.key }),
       confidence: result.confidence || 50,
       reason: result.reason || "",
     };
   }
 
   /**
-   * 解析发票
+   * 解析发票（金额和税率规范化为数字）
    */
   async parseInvoice(ocrResult: string): Promise<any> {
     const response = await this.chat([
       { role: "user", content: PROMPT_TEMPLATES.invoice + "\n\nOCR原始结果：\n" + ocrResult },
-    ]);
+    ], "invoice");
 
-    return this.parseJsonResponse(response);
+    return normalizeInvoiceNumbers(this.parseJsonResponse(response));
   }
 
   /**
@@ -309,7 +267,7 @@ export class GlmParserService {
   async parseCertificate(ocrResult: string): Promise<any> {
     const response = await this.chat([
       { role: "user", content: PROMPT_TEMPLATES.certificate + "\n\nOCR原始结果：\n" + ocrResult },
-    ]);
+    ], "certificate");
 
     return this.parseJsonResponse(response);
   }
@@ -320,7 +278,7 @@ export class GlmParserService {
   async parseResume(ocrResult: string): Promise<any> {
     const response = await this.chat([
       { role: "user", content: PROMPT_TEMPLATES.resume + "\n\nOCR原始结果：\n" + ocrResult },
-    ]);
+    ], "resume");
 
     return this.parseJsonResponse(response);
   }
@@ -331,7 +289,7 @@ export class GlmParserService {
   async parseHandwritten(ocrResult: string): Promise<any> {
     const response = await this.chat([
       { role: "user", content: PROMPT_TEMPLATES.handwritten + "\n\nOCR原始结果：\n" + ocrResult },
-    ]);
+    ], "handwritten");
 
     return this.parseJsonResponse(response);
   }
@@ -342,17 +300,29 @@ export class GlmParserService {
   async parseFinancialReport(ocrResult: string): Promise<any> {
     const response = await this.chat([
       { role: "user", content: PROMPT_TEMPLATES.financial_report + "\n\nOCR原始结果：\n" + ocrResult },
-    ]);
+    ], "financial_report");
+
+    return this.parseJsonResponse(response);
+  }
+
+  /**
+   * 按自定义类型解析（提示词由类型的 JSON Schema 生成）
+   */
+  async parseCustom(ocrResult: string, customType: CustomTypePrompt): Promise<any> {
+    const response = await this.chat([
+      { role: "user", content: buildExtractionPrompt(customType) + "\n\nOCR原始结果：\n" + ocrResult },
+    ], "custom");
 
     return this.parseJsonResponse(response);
   }
 
   /**
-   * 根据文档类型解析
+   * 根据文档类型解析（custom 需提供自定义类型定义）
    */
   async parseByType(
     ocrResult: string,
-    documentType: DocumentType
+    documentType: DocumentType,
+    customType?: CustomTypePrompt
   ): Promise<any> {
     switch (documentType) {
       case "invoice":
@@ -365,6 +335,8 @@ export class GlmParserService {
         return this.parseHandwritten(ocrResult);
       case "financial_report":
         return this.parseFinancialReport(ocrResult);
+      case "custom":
+        return customType ? this.parseCustom(ocrResult, customType) : null;
       default:
         return null;
     }
@@ -413,18 +385,18 @@ export async function smartParse(ocrResult: string): Promise<{
  */
 export async function parseByType(
   ocrResult: string,
-  documentType: DocumentType
+  documentType: DocumentType,
+  customType?: CustomTypePrompt
 ): Promise<any> {
-  return glmParserService.parseByType(ocrResult, documentType);
+  return glmParserService.parseByType(ocrResult, documentType, customType);
 }
 
 /**
  * 便捷函数：识别文档类型
  */
-export async function detectDocumentType(ocrResult: string): Promise<{
-  type: DocumentType;
-  confidence: number;
-  reason: string;
-}> {
-  return glmParserService.detectDocumentType(ocrResult);
+export async function detectDocumentType(
+  ocrResult: string,
+  customTypes: Array<Pick<CustomTypePrompt, "key" | "name" | "description">> = []
+): Promise<TypeDetectionResult> {
+  return glmParserService.detectDocumentType(ocrResult, customTypes);
 }
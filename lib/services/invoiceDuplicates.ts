@@ -0,0 +1,159 @@
+/**
+ * 重复发票检测
+ * 同一张发票被多次上传报销时，将后上传的文档标记为疑似重复并关联原始文档
+ * 后上传的文档可能先完成解析（并发处理、重试或重新处理），原始文档解析后会补标记更晚上传的副本
+ *
+ * 匹配规则（满足任一即视为重复）：
+ * - code_no: 发票代码 + 发票号码相同
+ * - seller_no_amount: 销售方税号 + 发票号码 + 价税合计相同（数电票无发票代码）
+ */
+
+import { Document, AuditLog } from "@/models";
+import { DuplicateMatch } from "@/types/document";
+
+/**
+ * 标识字段的候选值（原值与去除空白、统一大写后的值）
+ */
+function idCandidates(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const raw = String(value).trim();
+  const normalized = raw.replace(/\s+/g, "").toUpperCase();
+  return normalized ? [...new Set([raw, normalized])] : undefined;
+}
+
+/**
+ * 构建匹配条件
+ */
+function buildMatchConditions(invoice: any): Array<{ matchedBy: DuplicateMatch; query: any }> {
+  const conditions: Array<{ matchedBy: DuplicateMatch; query: any }> = [];
+  const invoiceCode = idCandidates(invoice?.invoiceCode);
+  const invoiceNo = idCandidates(invoice?.invoiceNo);
+  const sellerTaxId = idCandidates(invoice?.sellerTaxId);
+  const amount = typeof invoice?.amount === "number" ? invoice.amount : undefined;
+
+  if (invoiceCode && invoiceNo) {
+    conditions.push({
+      matchedBy: "code_no",
+      query: {
+        "parsedData.invoice.invoiceCode": { $in: invoiceCode },
+        "parsedData.invoice.invoiceNo": { $in: invoiceNo },
+      },
+    });
+  }
+
+  if (sellerTaxId && invoiceNo && amount !== undefined) {
+    conditions.push({
+      matchedBy: "seller_no_amount",
+      query: {
+        "parsedData.invoice.sellerTaxId": { $in: sellerTaxId },
+        "parsedData.invoice.invoiceNo": { $in: invoiceNo },
+        "parsedData.invoice.amount": amount,
+      },
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * 文档成为原始文档时，标记更晚上传、尚未标记的相同发票
+ * 被标记的文档原先作为原始文档关联的副本改为关联到新的原始文档
+ */
+async function flagLaterDuplicates(
+  document: any,
+  conditions: Array<{ matchedBy: DuplicateMatch; query: any }>
+): Promise<void> {
+  if (conditions.length === 0) return;
+
+  const later = await Document.find({
+    $or: conditions.map((condition) => condition.query),
+    _id: { $ne: document._id },
+    documentType: "invoice",
+    uploadDate: { $gt: document.uploadDate },
+    duplicateOf: { $exists: false },
+  }).sort({ uploadDate: 1 });
+
+  for (const duplicate of later) {
+    const originalId = await checkDuplicateInvoice(duplicate);
+    if (originalId) {
+      await recheckDuplicatesOf(duplicate._id.toString());
+    }
+  }
+}
+
+/**
+ * 检查发票文档是否与更早上传的文档重复，并更新重复标记
+ * 不重复时同时标记更晚上传的相同发票
+ * 返回原始文档 ID（不重复时返回 null）
+ */
+export async function checkDuplicateInvoice(document: any): Promise<string | null> {
+  const invoice = document.documentType === "invoice" ? document.parsedData?.invoice : undefined;
+  const conditions = buildMatchConditions(invoice);
+
+  let original: any = null;
+  let matchedBy: DuplicateMatch | undefined;
+
+  for (const condition of conditions) {
+    original = await Document.findOne({
+      ...condition.query,
+      _id: { $ne: document._id },
+      documentType: "invoice",
+      uploadDate: { $lte: document.uploadDate },
+      // 只关联到未被标记的原始文档，避免形成重复链
+      duplicateOf: { $exists: false },
+    })
+      .sort({ uploadDate: 1 })
+      .select("fileName uploadDate");
+    if (original) {
+      matchedBy = condition.matchedBy;
+      break;
+    }
+  }
+
+  const previous = document.duplicateOf?.documentId;
+
+  if (!original) {
+    if (previous) {
+      await Document.updateOne({ _id: document._id }, { $unset: { duplicateOf: "" } });
+      document.duplicateOf = undefined;
+    }
+    await flagLaterDuplicates(document, conditions);
+    return null;
+  }
+
+  const originalId = original._id.toString();
+  if (previous !== originalId) {
+    const duplicateOf = {
+      documentId: originalId,
+      fileName: original.fileName,
+      matchedBy: matchedBy!,
+      detectedAt: new Date(),
+    };
+    await Document.updateOne({ _id: document._id }, { $set: { duplicateOf } });
+    document.duplicateOf = duplicateOf;
+
+    await AuditLog.log(
+      document._id.toString(),
+      document.fileName,
+      "update",
+      { duplicateOf }
+    );
+  }
+
+  return originalId;
+}
+
+/**
+ * 原始文档删除后重新检查关联到它的文档
+ * 按上传时间顺序处理，最早的一份成为新的原始文档
+ */
+export async function recheckDuplicatesOf(documentId: string): Promise<void> {
+  const duplicates = await Document.find({ "duplicateOf.documentId": documentId })
+    .sort({ uploadDate: 1 });
+
+  for (const duplicate of duplicates) {
+    await Document.updateOne({ _id: duplicate._id }, { $unset: { duplicateOf: "" } });
+    duplicate.duplicateOf = undefined;
+    await checkDuplicateInvoice(duplicate);
+  }
+}
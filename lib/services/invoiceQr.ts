@@ -0,0 +1,210 @@
+/**
+ * 发票二维码识别
+ * 增值税发票左上角的二维码包含发票代码、号码、开票日期、金额和校验码，
+ * 解码结果比 OCR + AI 解析更可靠，不一致时以二维码为准
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import jsQR from "jsqr";
+import { InvoiceData, InvoiceQrData, QrFieldConflict } from "@/types/document";
+import { rasterizePdf } from "./pdfRaster";
+import { toNumber } from "./numberParsing";
+
+/**
+ * 识别前缩放到的最大边长（过大的照片解码很慢）
+ */
+const MAX_SCAN_SIZE = 2000;
+
+/**
+ * 二维码所在的左上角区域比例（整图识别失败时放大该区域重试）
+ */
+const QR_REGION_RATIO = 0.4;
+
+/**
+ * PDF 最多识别的页数
+ */
+const MAX_PDF_PAGES = 3;
+
+/**
+ * 二维码字段与发票字段的对应关系
+ */
+const QR_FIELDS = [
+  "invoiceCode",
+  "invoiceNo",
+  "invoiceDate",
+  "amount",
+  "amountWithoutTax",
+  "checkCode",
+] as const;
+
+type QrField = (typeof QR_FIELDS)[number];
+
+/**
+ * 解析二维码文本
+ * 格式：01,发票种类,发票代码,发票号码,金额,开票日期(YYYYMMDD),校验码,加密信息
+ * 金额为不含税金额；数电票（无发票代码、20 位号码）为价税合计。专票没有校验码
+ */
+export function parseInvoiceQrPayload(raw: string): Omit<InvoiceQrData, "decodedAt"> | null {
+  const parts = raw.trim().split(/[,，]/).map((part) => part.trim());
+  if (parts.length < 6 || !/^\d{2}$/.test(parts[0]) || !/^\d{8,20}$/.test(parts[3])) {
+    return null;
+  }
+
+  const result: Omit<InvoiceQrData, "decodedAt"> = {
+    raw: raw.trim(),
+    invoiceType: parts[1] || undefined,
+    invoiceNo: parts[3],
+  };
+
+  if (/^\d{10,12}$/.test(parts[2])) {
+    result.invoiceCode = parts[2];
+  }
+
+  const amount = parseFloat(parts[4]);
+  if (!isNaN(amount)) {
+    const digital = !result.invoiceCode && /^\d{20}$/.test(parts[3]);
+    if (digital) {
+      result.amount = amount;
+    } else {
+      result.amountWithoutTax = amount;
+    }
+  }
+
+  const date = parts[5].match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date) {
+    result.invoiceDate = new Date(`${date[1]}-${date[2]}-${date[3]}T00:00:00+08:00`);
+  }
+
+  if (parts[6]) {
+    result.checkCode = parts[6];
+  }
+
+  return result;
+}
+
+/**
+ * 在图片中查找发票二维码
+ */
+async function scanImage(input: string): Promise<string | null> {
+  const { default: sharp } = await import("sharp");
+
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize({
+      width: MAX_SCAN_SIZE,
+      height: MAX_SCAN_SIZE,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const decode = (pixels: Buffer, width: number, height: number) => {
+    const code = jsQR(new Uint8ClampedArray(pixels), width, height, {
+      inversionAttempts: "dontInvert",
+    });
+    return code && parseInvoiceQrPayload(code.data) ? code.data : null;
+  };
+
+  const found = decode(data, info.width, info.height);
+  if (found) return found;
+
+  // 二维码较小时整图识别容易失败，放大左上角区域重试
+  const region = {
+    left: 0,
+    top: 0,
+    width: Math.round(info.width * QR_REGION_RATIO),
+    height: Math.round(info.height * QR_REGION_RATIO),
+  };
+  const cropped = await sharp(data, {
+    raw: { width: info.width, height: info.height, channels: 4 },
+  })
+    .extract(region)
+    .resize({ width: region.width * 2 })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return decode(cropped.data, cropped.info.width, cropped.info.height);
+}
+
+/**
+ * 识别文件中的发票二维码（图片或 PDF 前几页），未找到时返回 null
+ */
+export async function decodeInvoiceQr(
+  filePath: string,
+  mimeType: string
+): Promise<InvoiceQrData | null> {
+  if (mimeType !== "application/pdf") {
+    const raw = await scanImage(filePath);
+    const parsed = raw ? parseInvoiceQrPayload(raw) : null;
+    return parsed ? { ...parsed, page: 1, decodedAt: new Date() } : null;
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "qr-"));
+  try {
+    const images = await rasterizePdf(filePath, workDir, { lastPage: MAX_PDF_PAGES });
+    for (let i = 0; i < images.length; i++) {
+      const raw = await scanImage(images[i]);
+      const parsed = raw ? parseInvoiceQrPayload(raw) : null;
+      if (parsed) {
+        return { ...parsed, page: i + 1, decodedAt: new Date() };
+      }
+    }
+    return null;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 比较二维码值与解析值是否一致
+ */
+function sameValue(field: QrField, parsed: unknown, qr: unknown): boolean {
+  if (field === "invoiceDate") {
+    // 按北京时间的日期比较
+    const day = (value: unknown) =>
+      value instanceof Date || typeof value === "string" || typeof value === "number"
+        ? new Date(value).toLocaleDateString("zh-CN", { timeZone: "Asia/Shanghai" })
+        : undefined;
+    return day(parsed) === day(qr);
+  }
+  if (field === "amount" || field === "amountWithoutTax") {
+    const amount = toNumber(parsed);
+    return amount !== undefined && typeof qr === "number" && Math.abs(amount - qr) < 0.005;
+  }
+  const normalize = (value: unknown) => String(value).replace(/\s+/g, "").toUpperCase();
+  return normalize(parsed) === normalize(qr);
+}
+
+/**
+ * 用二维码字段覆盖 AI 解析结果
+ * 返回合并后的发票数据、来自二维码的字段和不一致记录
+ */
+export function mergeInvoiceQr(
+  invoice: InvoiceData,
+  qr: InvoiceQrData
+): { invoice: InvoiceData; qrFields: QrField[]; conflicts: QrFieldConflict[] } {
+  const merged: InvoiceData = { ...invoice };
+  const qrFields: QrField[] = [];
+  const conflicts: QrFieldConflict[] = [];
+
+  for (const field of QR_FIELDS) {
+    const qrValue = qr[field];
+    if (qrValue === undefined) continue;
+
+    const parsedValue = invoice[field];
+    const hasParsed = parsedValue !== undefined && parsedValue !== null && parsedValue !== "";
+    if (hasParsed && !sameValue(field, parsedValue, qrValue)) {
+      conflicts.push({ field, parsed: parsedValue, qr: qrValue });
+    }
+
+    Object.assign(merged, { [field]: qrValue });
+    qrFields.push(field);
+  }
+
+  return { invoice: merged, qrFields, conflicts };
+}
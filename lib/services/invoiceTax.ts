@@ -0,0 +1,321 @@
+/**
+ * 发票税额汇总
+ * 按税率、发票种类（专票 / 普票）和开票月份汇总进项税额，区分可抵扣与不可抵扣，用于增值税申报
+ *
+ * 有明细时按明细行的税率拆分金额；没有明细时按 税额 / 不含税金额 推算税率
+ */
+
+import { InvoiceData, VerificationStatus } from "@/types/document";
+import { toNumber, toTaxRate } from "./numberParsing";
+
+/**
+ * 发票种类：special 专用发票，ordinary 普通发票，unknown 无法判断
+ */
+export type InvoiceKind = "special" | "ordinary" | "unknown";
+
+export const INVOICE_KIND_LABELS: Record<InvoiceKind, string> = {
+  special: "专票",
+  ordinary: "普票",
+  unknown: "未知",
+};
+
+/**
+ * 二维码中的发票种类代码
+ */
+const QR_SPECIAL_TYPES = ["01", "08", "31", "85"];
+const QR_ORDINARY_TYPES = ["04", "10", "11", "14", "32", "86"];
+
+/**
+ * 常用税率，推算税率时就近取值
+ */
+const STANDARD_RATES = [0.13, 0.09, 0.06, 0.05, 0.03, 0.01];
+
+/**
+ * 推算税率的容差
+ */
+const RATE_TOLERANCE = 0.005;
+
+/**
+ * 税率分组键：如 "13%"；免税、不征税和零税率为 exempt；无法确定为 unknown
+ */
+export type TaxRateKey = string;
+
+/**
+ * 查验结果为这些状态时不可抵扣
+ */
+const NON_DEDUCTIBLE_VERIFICATIONS: VerificationStatus[] = ["voided", "not_found"];
+
+/**
+ * 汇总金额
+ */
+export interface TaxTotals {
+  count: number;
+  amountWithoutTax: number;
+  taxAmount: number;
+  amount: number;
+}
+
+/**
+ * 汇总明细行（月份 × 发票种类 × 税率 × 是否可抵扣）
+ */
+export interface TaxSummaryRow extends TaxTotals {
+  month: string;
+  kind: InvoiceKind;
+  taxRate: TaxRateKey;
+  deductible: boolean;
+}
+
+/**
+ * 税额汇总结果
+ */
+export interface TaxSummary {
+  rows: TaxSummaryRow[];
+  byTaxRate: Array<TaxTotals & { taxRate: TaxRateKey }>;
+  byKind: Array<TaxTotals & { kind: InvoiceKind }>;
+  byMonth: Array<TaxTotals & { month: string }>;
+  deductible: TaxTotals;
+  nonDeductible: TaxTotals;
+  total: TaxTotals;
+}
+
+/**
+ * 参与汇总的发票文档
+ */
+export interface TaxSummaryInput {
+  id: string;
+  invoice: InvoiceData;
+  qrInvoiceType?: string;
+  verificationStatus?: VerificationStatus;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 判断发票种类：优先使用二维码中的种类代码，其次使用票面标题
+ */
+export function resolveInvoiceKind(invoice: InvoiceData, qrInvoiceType?: string): InvoiceKind {
+  if (qrInvoiceType && QR_SPECIAL_TYPES.includes(qrInvoiceType)) return "special";
+  if (qrInvoiceType && QR_ORDINARY_TYPES.includes(qrInvoiceType)) return "ordinary";
+
+  const title = invoice.invoiceType || "";
+  if (/专用发票|专票/.test(title)) return "special";
+  if (/普通发票|普票|通行费|卷票/.test(title)) return "ordinary";
+  return "unknown";
+}
+
+/**
+ * 税率分组键
+ */
+export function taxRateKey(rate: unknown): TaxRateKey {
+  const value = toTaxRate(rate);
+  if (value === undefined) return "unknown";
+  if (value === 0) return "exempt";
+  return `${round2(value * 100)}%`;
+}
+
+/**
+ * 由税额和不含税金额推算税率
+ */
+function inferTaxRate(amountWithoutTax?: number, taxAmount?: number): TaxRateKey {
+  if (amountWithoutTax === undefined || taxAmount === undefined || amountWithoutTax === 0) {
+    return "unknown";
+  }
+  if (taxAmount === 0) return "exempt";
+  const ratio = taxAmount / amountWithoutTax;
+  const rate = STANDARD_RATES.find((candidate) => Math.abs(candidate - ratio) <= RATE_TOLERANCE);
+  return rate !== undefined ? taxRateKey(rate) : "unknown";
+}
+
+/**
+ * 进项税额是否可抵扣：人工指定优先，否则专票且查验未发现作废 / 查无此票时可抵扣
+ */
+export function isDeductible(
+  invoice: InvoiceData,
+  kind: InvoiceKind,
+  verificationStatus?: VerificationStatus
+): boolean {
+  if (typeof invoice.deductible === "boolean") return invoice.deductible;
+  if (verificationStatus && NON_DEDUCTIBLE_VERIFICATIONS.includes(verificationStatus)) return false;
+  return kind === "special";
+}
+
+/**
+ * 开票月份（北京时间，YYYY-MM），无开票日期为 unknown
+ */
+function invoiceMonth(value: unknown): string {
+  if (!value || !(value instanceof Date || typeof value === "string" || typeof value === "number")) {
+    return "unknown";
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "unknown";
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Shanghai",
+    year: "numeric",
+    month: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((item) => item.type === type)?.value;
+  return `${part("year")}-${part("month")}`;
+}
+
+/**
+ * 按税率拆分发票金额
+ */
+function splitByTaxRate(
+  invoice: InvoiceData
+): Array<{ taxRate: TaxRateKey; amountWithoutTax: number; taxAmount: number }> {
+  const items = (invoice.items || []).filter((item) => toNumber(item.amount) !== undefined);
+
+  if (items.length > 0) {
+    const parts = new Map<TaxRateKey, { amountWithoutTax: number; taxAmount: number }>();
+    for (const item of items) {
+      const amount = toNumber(item.amount)!;
+      let key = taxRateKey(item.taxRate);
+      let tax = toNumber(item.taxAmount);
+      if (key === "unknown") key = inferTaxRate(amount, tax);
+      if (tax === undefined) {
+        const rate = key.endsWith("%") ? parseFloat(key) / 100 : 0;
+        tax = round2(amount * rate);
+      }
+      const part = parts.get(key) || { amountWithoutTax: 0, taxAmount: 0 };
+      part.amountWithoutTax += amount;
+      part.taxAmount += tax;
+      parts.set(key, part);
+    }
+    return [...parts.entries()].map(([taxRate, part]) => ({ taxRate, ...part }));
+  }
+
+  const amount = toNumber(invoice.amount);
+  const taxAmount = toNumber(invoice.taxAmount);
+  let amountWithoutTax = toNumber(invoice.amountWithoutTax);
+  if (amountWithoutTax === undefined && amount !== undefined && taxAmount !== undefined) {
+    amountWithoutTax = round2(amount - taxAmount);
+  }
+
+  return [
+    {
+      taxRate: inferTaxRate(amountWithoutTax, taxAmount),
+      amountWithoutTax: amountWithoutTax ?? amount ?? 0,
+      taxAmount: taxAmount ?? 0,
+    },
+  ];
+}
+
+/**
+ * 累加器：金额按行累加，发票数按发票去重
+ */
+class TotalsBucket {
+  private ids = new Set<string>();
+  amountWithoutTax = 0;
+  taxAmount = 0;
+
+  add(id: string, amountWithoutTax: number, taxAmount: number): void {
+    this.ids.add(id);
+    this.amountWithoutTax += amountWithoutTax;
+    this.taxAmount += taxAmount;
+  }
+
+  toTotals(): TaxTotals {
+    return {
+      count: this.ids.size,
+      amountWithoutTax: round2(this.amountWithoutTax),
+      taxAmount: round2(this.taxAmount),
+      amount: round2(this.amountWithoutTax + this.taxAmount),
+    };
+  }
+}
+
+function bucketOf(map: Map<string, TotalsBucket>, key: string): TotalsBucket {
+  let bucket = map.get(key);
+  if (!bucket) {
+    bucket = new TotalsBucket();
+    map.set(key, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * 排序：数字税率从高到低，exempt、unknown 在后
+ */
+function compareTaxRate(a: TaxRateKey, b: TaxRateKey): number {
+  const order = (key: TaxRateKey) =>
+    key.endsWith("%") ? -parseFloat(key) : key === "exempt" ? 1 : 2;
+  return order(a) - order(b);
+}
+
+/**
+ * 汇总发票税额
+ */
+export function summarizeInvoiceTax(inputs: TaxSummaryInput[]): TaxSummary {
+  const rows = new Map<string, { row: Omit<TaxSummaryRow, keyof TaxTotals>; bucket: TotalsBucket }>();
+  const byTaxRate = new Map<string, TotalsBucket>();
+  const byKind = new Map<string, TotalsBucket>();
+  const byMonth = new Map<string, TotalsBucket>();
+  const deductible = new TotalsBucket();
+  const nonDeductible = new TotalsBucket();
+  const total = new TotalsBucket();
+
+  for (const input of inputs) {
+    const kind = resolveInvoiceKind(input.invoice, input.qrInvoiceType);
+    const canDeduct = isDeductible(input.invoice, kind, input.verificationStatus);
+    const month = invoiceMonth(input.invoice.invoiceDate);
+
+    for (const part of splitByTaxRate(input.invoice)) {
+      const key = [month, kind, part.taxRate, canDeduct].join("|");
+      let entry = rows.get(key);
+      if (!entry) {
+        entry = {
+          row: { month, kind, taxRate: part.taxRate, deductible: canDeduct },
+          bucket: new TotalsBucket(),
+        };
+        rows.set(key, entry);
+      }
+
+      const buckets = [
+        entry.bucket,
+        bucketOf(byTaxRate, part.taxRate),
+        bucketOf(byKind, kind),
+        bucketOf(byMonth, month),
+        canDeduct ? deductible : nonDeductible,
+        total,
+      ];
+      for (const bucket of buckets) {
+        bucket.add(input.id, part.amountWithoutTax, part.taxAmount);
+      }
+    }
+  }
+
+  return {
+    rows: [...rows.values()]
+      .map(({ row, bucket }) => ({ ...row, ...bucket.toTotals() }))
+      .sort(
+        (a, b) =>
+          a.month.localeCompare(b.month) ||
+          a.kind.localeCompare(b.kind) ||
+          compareTaxRate(a.taxRate, b.taxRate) ||
+          Number(b.deductible) - Number(a.deductible)
+      ),
+    byTaxRate: [...byTaxRate.entries()]
+      .sort(([a], [b]) => compareTaxRate(a, b))
+      .map(([taxRate, bucket]) => ({ taxRate, ...bucket.toTotals() })),
+    byKind: (["special", "ordinary", "unknown"] as InvoiceKind[])
+      .filter((kind) => byKind.has(kind))
+      .map((kind) => ({ kind, ...byKind.get(kind)!.toTotals() })),
+    byMonth: [...byMonth.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, bucket]) => ({ month, ...bucket.toTotals() })),
+    deductible: deductible.toTotals(),
+    nonDeductible: nonDeductible.toTotals(),
+    total: total.toTotals(),
+  };
+}
+
+/**
+ * 税率显示文本
+ */
+export function formatTaxRate(key: TaxRateKey): string {
+  if (key === "exempt") return "免税";
+  if (key === "unknown") return "未知";
+  return key;
+}
@@ -0,0 +1,227 @@
+/**
+ * 发票校验
+ * AI 解析结果入库后检查大写金额、金额勾稽关系和税号，问题记录为结构化警告（不修改解析数据）
+ */
+
+import { InvoiceData, ValidationSeverity, ValidationWarning } from "@/types/document";
+import { validateInvoiceTaxIds } from "./taxIdValidation";
+import { extractUppercaseAmount } from "./chineseAmount";
+import { validateCustomDocument } from "./customDocumentTypes";
+import { toNumber, toTaxRate } from "./numberParsing";
+
+/**
+ * 金额比较容差（元）
+ */
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * 严重程度排序
+ */
+export const SEVERITY_ORDER: Record<ValidationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function differs(expected: number, actual: number, tolerance = AMOUNT_TOLERANCE): boolean {
+  return Math.abs(expected - actual) > tolerance + 1e-9;
+}
+
+/**
+ * 校验发票金额勾稽关系
+ * - header_total: 不含税金额 + 税额 = 价税合计
+ * - items_total: 明细金额合计 = 不含税金额
+ * - items_tax_total: 明细税额合计 = 税额
+ * - item_amount: 数量 × 单价 = 金额
+ * - item_tax: 税率 × 金额 = 税额
+ */
+export function validateInvoiceArithmetic(invoice: InvoiceData): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+
+  const amount = toNumber(invoice.amount);
+  const taxAmount = toNumber(invoice.taxAmount);
+  const amountWithoutTax = toNumber(invoice.amountWithoutTax);
+
+  if (amount !== undefined && taxAmount !== undefined && amountWithoutTax !== undefined) {
+    const expected = round2(amountWithoutTax + taxAmount);
+    if (differs(expected, amount)) {
+      warnings.push({
+        code: "header_total",
+        severity: "high",
+        field: "amount",
+        message: `价税合计 ${amount} 与不含税金额 + 税额 ${expected} 不一致`,
+        expected,
+        actual: amount,
+      });
+    }
+  }
+
+  const items = Array.isArray(invoice.items) ? invoice.items : [];
+  let itemsAmount = 0;
+  let itemsTax = 0;
+  let allAmounts = items.length > 0;
+  let allTaxes = items.length > 0;
+
+  items.forEach((item, index) => {
+    const quantity = toNumber(item.quantity);
+    const unitPrice = toNumber(item.unitPrice);
+    const itemAmount = toNumber(item.amount);
+    const taxRate = toTaxRate(item.taxRate);
+    let itemTax = toNumber(item.taxAmount);
+
+    if (itemAmount === undefined) {
+      allAmounts = false;
+    } else {
+      itemsAmount += itemAmount;
+    }
+
+    // 单价通常保留多位小数，数量 × 单价 四舍五入到分后比较
+    if (quantity !== undefined && unitPrice !== undefined && itemAmount !== undefined) {
+      const expected = round2(quantity * unitPrice);
+      if (differs(expected, itemAmount)) {
+        warnings.push({
+          code: "item_amount",
+          severity: "medium",
+          field: `items.${index}.amount`,
+          message: `第 ${index + 1} 行金额 ${itemAmount} 与数量 × 单价 ${expected} 不一致`,
+          expected,
+          actual: itemAmount,
+        });
+      }
+    }
+
+    if (taxRate !== undefined && itemAmount !== undefined) {
+      const expected = round2(itemAmount * taxRate);
+      if (itemTax === undefined) {
+        // 明细未单列税额时按税率推算，用于校验表头税额
+        itemTax = expected;
+      } else if (differs(expected, itemTax)) {
+        warnings.push({
+          code: "item_tax",
+          severity: "medium",
+          field: `items.${index}.taxAmount`,
+          message: `第 ${index + 1} 行税额 ${itemTax} 与税率 ${round2(taxRate * 100)}% × 金额 ${expected} 不一致`,
+          expected,
+          actual: itemTax,
+        });
+      }
+    }
+
+    if (itemTax === undefined) {
+      allTaxes = false;
+    } else {
+      itemsTax += itemTax;
+    }
+  });
+
+  if (allAmounts && amountWithoutTax !== undefined) {
+    const expected = round2(itemsAmount);
+    if (differs(expected, amountWithoutTax)) {
+      warnings.push({
+        code: "items_total",
+        severity: "medium",
+        field: "amountWithoutTax",
+        message: `不含税金额 ${amountWithoutTax} 与明细金额合计 ${expected} 不一致`,
+        expected,
+        actual: amountWithoutTax,
+      });
+    }
+  }
+
+  // 明细税额逐行四舍五入，合计允许每行 1 分的误差
+  if (allTaxes && taxAmount !== undefined) {
+    const expected = round2(itemsTax);
+    if (differs(expected, taxAmount, AMOUNT_TOLERANCE * items.length)) {
+      warnings.push({
+        code: "items_tax_total",
+        severity: "medium",
+        field: "taxAmount",
+        message: `税额 ${taxAmount} 与明细税额合计 ${expected} 不一致`,
+        expected,
+        actual: taxAmount,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * 核对 OCR 文本中的大写金额与解析出的价税合计
+ */
+export function validateUppercaseAmount(
+  invoice: InvoiceData,
+  mdResults?: string
+): ValidationWarning[] {
+  const amount = toNumber(invoice.amount);
+  if (amount === undefined || !mdResults) return [];
+
+  const uppercase = extractUppercaseAmount(mdResults);
+  if (!uppercase || !differs(uppercase.value, amount)) return [];
+
+  return [
+    {
+      code: "amount_uppercase_mismatch",
+      severity: "high",
+      field: "amount",
+      message: `价税合计 ${amount} 与大写金额 ${uppercase.text}（${uppercase.value}）不一致，可能存在数字误识别`,
+      expected: uppercase.value,
+      actual: amount,
+    },
+  ];
+}
+
+/**
+ * 最高严重程度
+ */
+export function maxSeverity(warnings: ValidationWarning[]): ValidationSeverity | undefined {
+  return warnings.reduce<ValidationSeverity | undefined>(
+    (max, warning) =>
+      !max || SEVERITY_ORDER[warning.severity] > SEVERITY_ORDER[max] ? warning.severity : max,
+    undefined
+  );
+}
+
+/**
+ * 校验文档解析结果并保存到 document.validation
+ * 自定义类型文档按其 JSON Schema 规范化（写回 parsedData.custom）并校验，其他非发票文档清除校验结果
+ */
+export async function validateDocument(document: any): Promise<ValidationWarning[]> {
+  const invoice = document.documentType === "invoice" ? document.parsedData?.invoice : undefined;
+  const customWarnings =
+    document.documentType === "custom" ? await validateCustomDocument(document) : null;
+
+  if (!invoice && !customWarnings) {
+    if (document.validation) {
+      document.validation = undefined;
+      await document.save();
+    }
+    return [];
+  }
+
+  let warnings: ValidationWarning[];
+  if (invoice) {
+    const data: InvoiceData =
+      typeof invoice.toObject === "function" ? invoice.toObject() : invoice;
+    warnings = [
+      ...validateUppercaseAmount(data, document.ocrResult?.mdResults),
+      ...validateInvoiceArithmetic(data),
+      ...validateInvoiceTaxIds(data),
+    ];
+  } else {
+    warnings = customWarnings!;
+  }
+
+  document.validation = {
+    warnings,
+    maxSeverity: maxSeverity(warnings),
+    checkedAt: new Date(),
+  };
+  await document.save();
+
+  return warnings;
+}
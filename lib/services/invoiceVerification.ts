@@ -0,0 +1,95 @@
+/**
+ * 发票查验
+ * 使用发票代码、号码、开票日期、金额（或校验码）调用查验服务，结果保存到 document.verification
+ */
+
+import { AuditLog } from "@/models";
+import { InvoiceVerification, VerificationRequest } from "@/types/document";
+import { getInvoiceVerifier } from "./verificationProvider";
+
+/**
+ * 由发票数据生成查验参数
+ * 数电票（无发票代码、20 位号码）按价税合计查验，其余按不含税金额；普票可仅提供校验码
+ * 缺少必要字段时返回缺失项
+ */
+export function buildVerificationRequest(invoice: any): {
+  request?: VerificationRequest;
+  missing: string[];
+} {
+  const invoiceNo = invoice?.invoiceNo ? String(invoice.invoiceNo).replace(/\s+/g, "") : "";
+  const invoiceCode = invoice?.invoiceCode
+    ? String(invoice.invoiceCode).replace(/\s+/g, "")
+    : undefined;
+  const invoiceDate = invoice?.invoiceDate ? new Date(invoice.invoiceDate) : undefined;
+
+  const digital = !invoiceCode && /^\d{20}$/.test(invoiceNo);
+  const rawAmount = digital ? invoice?.amount : invoice?.amountWithoutTax;
+  const amount = typeof rawAmount === "number" && isFinite(rawAmount) ? rawAmount : undefined;
+  const checkCode = invoice?.checkCode
+    ? String(invoice.checkCode).replace(/\s+/g, "").slice(-6) || undefined
+    : undefined;
+
+  const missing: string[] = [];
+  if (!invoiceNo) missing.push("发票号码");
+  if (!invoiceDate || isNaN(invoiceDate.getTime())) missing.push("开票日期");
+  if (amount === undefined && !checkCode) {
+    missing.push(digital ? "价税合计" : "不含税金额或校验码");
+  }
+  if (missing.length > 0) {
+    return { missing };
+  }
+
+  return {
+    request: { invoiceCode, invoiceNo, invoiceDate: invoiceDate!, amount, checkCode },
+    missing,
+  };
+}
+
+/**
+ * 查验发票并保存结果
+ * 查验服务调用失败时记录为 error 状态，不抛出异常
+ */
+export async function verifyDocument(
+  document: any,
+  request: VerificationRequest,
+  userId?: string
+): Promise<InvoiceVerification> {
+  const verifier = await getInvoiceVerifier();
+
+  let verification: InvoiceVerification;
+  try {
+    const outcome = await verifier.verify(request);
+    verification = {
+      ...outcome,
+      provider: verifier.name,
+      request,
+      verifiedAt: new Date(),
+    };
+  } catch (error: any) {
+    console.error("Invoice verification error:", error);
+    verification = {
+      status: "error",
+      provider: verifier.name,
+      message: error.message || "发票查验失败",
+      request,
+      verifiedAt: new Date(),
+    };
+  }
+
+  document.verification = verification;
+  await document.save();
+
+  await AuditLog.log(
+    document._id.toString(),
+    document.fileName,
+    "verify",
+    {
+      status: verification.status,
+      provider: verification.provider,
+      message: verification.message,
+    },
+    userId
+  );
+
+  return verification;
+}
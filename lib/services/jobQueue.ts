@@ -0,0 +1,636 @@
+/**
+ * 文档处理任务队列
+ * 任务持久化在 MongoDB，worker 通过租约领取任务；
+ * 进程崩溃或重启后，租约过期的任务会被重新领取
+ */
+
+import os from "os";
+import { v4 as uuidv4 } from "uuid";
+import { connectToDatabase } from "../mongodb";
+import { env } from "../env";
+import { Document, AuditLog, ProcessingJob, ProcessingBatch } from "@/models";
+import {
+  processDocument,
+  ProcessingStageError,
+  ProcessOptions,
+  PipelineStage,
+  PIPELINE_STAGES,
+} from "./documentProcessor";
+import { getRetryPolicy, isRetryableError, computeBackoffDelay } from "./retryPolicy";
+
+/**
+ * Worker 运行状态
+ */
+interface JobWorkerState {
+  workerId: string;
+  running: boolean;
+  active: number;
+  timer: NodeJS.Timeout | null;
+  ticking: boolean;
+}
+
+/**
+ * 声明全局类型扩展（避免热重载时启动多个 worker）
+ */
+declare global {
+  var jobWorker: JobWorkerState | undefined;
+}
+
+/**
+ * 入队选项
+ */
+export interface EnqueueOptions extends ProcessOptions {
+  requestedBy?: string;
+}
+
+/**
+ * 获取 worker 状态
+ */
+function getWorker(): JobWorkerState {
+  if (!global.jobWorker) {
+    global.jobWorker = {
+      workerId: `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`,
+      running: false,
+      active: 0,
+      timer: null,
+      ticking: false,
+    };
+  }
+  return global.jobWorker;
+}
+
+/**
+ * 是否为唯一索引冲突（批量写入时全部写入错误均为冲突）
+ */
+function isDuplicateKeyError(error: any): boolean {
+  const writeErrors: any[] = error?.writeErrors || [];
+  if (writeErrors.length > 0) {
+    return writeErrors.every((writeError) => writeError.code === 11000);
+  }
+  return error?.code === 11000;
+}
+
+/**
+ * 创建文档处理任务
+ * 文档已有未结束的任务时直接返回该任务
+ */
+export async function enqueueDocument(
+  documentId: string,
+  options: EnqueueOptions = {}
+): Promise<{ job: any; created: boolean }> {
+  await connectToDatabase();
+
+  const existing = await ProcessingJob.findActiveForDocument(documentId);
+  if (existing) {
+    return { job: existing, created: false };
+  }
+
+  const document = await Document.findById(documentId);
+  if (!document) {
+    throw new Error("文档不存在");
+  }
+
+  let job;
+  try {
+    job = await ProcessingJob.create({
+      documentId,
+      fileName: document.fileName,
+      status: "pending",
+      maxAttempts: env.jobMaxAttempts,
+      runAt: new Date(),
+      options: {
+        stages: options.stages,
+        documentType: options.documentType,
+        customType: options.customType,
+        bypassCache: options.bypassCache,
+      },
+      requestedBy: options.requestedBy,
+    });
+  } catch (error) {
+    // 并发请求已为该文档创建了任务
+    const active = isDuplicateKeyError(error)
+      ? await ProcessingJob.findActiveForDocument(documentId)
+      : null;
+    if (!active) {
+      throw error;
+    }
+    return { job: active, created: false };
+  }
+
+  if (document.status !== "processing") {
+    document.status = "processing";
+    document.error = undefined;
+    await document.save();
+  }
+
+  wakeJobWorker();
+
+  return { job, created: true };
+}
+
+/**
+ * 批量入队选项
+ */
+export interface EnqueueBatchOptions extends EnqueueOptions {
+  filters: Record<string, any>;
+  concurrency: number;
+}
+
+/**
+ * 批量创建处理任务
+ * 已有未结束任务的文档会被跳过
+ */
+export async function enqueueBatch(
+  query: any,
+  options: EnqueueBatchOptions
+): Promise<any> {
+  await connectToDatabase();
+
+  const documents = await Document.find(query).select("_id fileName").lean();
+  const documentIds = documents.map((doc: any) => doc._id.toString());
+
+  const activeJobs = await ProcessingJob.find({
+    documentId: { $in: documentIds },
+    status: { $in: ["pending", "running"] },
+  })
+    .select("documentId")
+    .lean();
+  const activeIds = new Set(activeJobs.map((job: any) => job.documentId));
+  const targets = documents.filter((doc: any) => !activeIds.has(doc._id.toString()));
+
+  const batch = await ProcessingBatch.create({
+    filters: options.filters,
+    options: {
+      stages: options.stages,
+      documentType: options.documentType,
+      customType: options.customType,
+      bypassCache: options.bypassCache,
+    },
+    concurrency: options.concurrency,
+    matched: documents.length,
+    enqueued: targets.length,
+    skipped: documents.length - targets.length,
+    requestedBy: options.requestedBy,
+  });
+
+  if (targets.length > 0) {
+    const now = new Date();
+    const jobs = targets.map((doc: any) => ({
+      documentId: doc._id.toString(),
+      fileName: doc.fileName,
+      status: "pending",
+      maxAttempts: env.jobMaxAttempts,
+      runAt: now,
+      options: {
+        stages: options.stages,
+        documentType: options.documentType,
+        customType: options.customType,
+        bypassCache: options.bypassCache,
+      },
+      batchId: batch._id.toString(),
+      priority: -1,
+      requestedBy: options.requestedBy,
+    }));
+
+    let inserted: any[];
+    try {
+      inserted = await ProcessingJob.insertMany(jobs, { ordered: false });
+    } catch (error: any) {
+      // 查询之后其他请求为部分文档创建了任务，这些文档按跳过计
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+      inserted = error.insertedDocs || [];
+      batch.enqueued = inserted.length;
+      batch.skipped = documents.length - inserted.length;
+      await batch.save();
+    }
+
+    await Document.updateMany(
+      { _id: { $in: inserted.map((job: any) => job.documentId) } },
+      { $set: { status: "processing" }, $unset: { error: "" } }
+    );
+
+    wakeJobWorker();
+  }
+
+  return batch;
+}
+
+/**
+ * 获取批次进度
+ */
+export async function getBatchProgress(batchId: string) {
+  const counts = await ProcessingJob.aggregate([
+    { $match: { batchId } },
+    { $group: { _id: "$status", count: { $sum: 1 } } },
+  ]);
+
+  const byStatus: Record<string, number> = {
+    pending: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    dead_letter: 0,
+  };
+  for (const item of counts) {
+    byStatus[item._id] = item.count;
+  }
+
+  const total = Object.values(byStatus).reduce((sum, count) => sum + count, 0);
+  const finished = byStatus.completed + byStatus.failed + byStatus.dead_letter;
+
+  return {
+    total,
+    byStatus,
+    finished,
+    done: finished === total,
+    progress: total === 0 ? 100 : Math.round((finished / total) * 100),
+  };
+}
+
+/**
+ * 获取已达到并发上限的批次
+ * 多个 worker 同时领取时可能短暂超出上限
+ */
+async function getSaturatedBatchIds(): Promise<string[]> {
+  const running = await ProcessingJob.aggregate([
+    { $match: { status: "running", batchId: { $exists: true, $ne: null } } },
+    { $group: { _id: "$batchId", count: { $sum: 1 } } },
+  ]);
+  if (running.length === 0) return [];
+
+  const batches = await ProcessingBatch.find({
+    _id: { $in: running.map((item: any) => item._id) },
+  })
+    .select("concurrency")
+    .lean();
+  const limits = new Map(batches.map((batch: any) => [batch._id.toString(), batch.concurrency]));
+
+  return running
+    .filter((item: any) => item.count >= (limits.get(item._id) ?? 1))
+    .map((item: any) => item._id);
+}
+
+/**
+ * 将文档标记为失败并记录审计日志
+ */
+async function failDocument(
+  documentId: string,
+  message: string,
+  stage?: string,
+  deadLetter = false
+) {
+  const document = await Document.findById(documentId);
+  if (!document) return;
+
+  await document.updateStatus("failed", {
+    message,
+    stage,
+    code: deadLetter ? "DEAD_LETTER" : undefined,
+  });
+  await AuditLog.log(
+    documentId,
+    document.fileName,
+    "reparse",
+    {
+      stage: stage ? `${stage}_failed` : "failed",
+      error: message,
+      ...(deadLetter && { deadLetter: true }),
+    }
+  );
+}
+
+/**
+ * 统计任务在某阶段已失败的次数
+ */
+function countStageFailures(job: any, stage: string): number {
+  return job.attemptHistory.filter(
+    (attempt: any) => attempt.outcome === "failed" && attempt.stage === stage
+  ).length;
+}
+
+/**
+ * 回收租约过期的任务
+ * 租约过期次数未超过最大尝试次数的任务重新排队，否则进入死信状态
+ */
+async function recoverExpiredLeases(): Promise<void> {
+  const now = new Date();
+  const expiredJobs = await ProcessingJob.find({
+    status: "running",
+    leaseExpiresAt: { $lt: now },
+  }).limit(50);
+
+  for (const job of expiredJobs) {
+    const leaseExpirations = job.attemptHistory.filter(
+      (attempt) => attempt.outcome === "lease_expired"
+    ).length + 1;
+    const exhausted = leaseExpirations >= job.maxAttempts;
+    const attemptIndex = job.attemptHistory.length - 1;
+    const message = `任务租约过期（worker: ${job.leaseOwner}）`;
+
+    const update: any = {
+      $set: {
+        status: exhausted ? "dead_letter" : "pending",
+        runAt: now,
+        ...(exhausted && {
+          finishedAt: now,
+          lastError: { message },
+        }),
+      },
+      $unset: { leaseOwner: "", leaseExpiresAt: "" },
+    };
+    if (attemptIndex >= 0) {
+      update.$set[`attemptHistory.${attemptIndex}.finishedAt`] = now;
+      update.$set[`attemptHistory.${attemptIndex}.outcome`] = "lease_expired";
+      update.$set[`attemptHistory.${attemptIndex}.error`] = message;
+    }
+
+    // 仅当租约仍未被续期时才回收
+    const result = await ProcessingJob.updateOne(
+      {
+        _id: job._id,
+        status: "running",
+        leaseOwner: job.leaseOwner,
+        leaseExpiresAt: job.leaseExpiresAt,
+      },
+      update
+    );
+
+    if (result.modifiedCount > 0 && exhausted) {
+      await failDocument(job.documentId, message, undefined, true);
+    }
+  }
+}
+
+/**
+ * 领取一个待处理任务
+ */
+async function claimJob(workerId: string): Promise<any | null> {
+  const now = new Date();
+  const saturatedBatchIds = await getSaturatedBatchIds();
+  const job = await ProcessingJob.findOneAndUpdate(
+    {
+      status: "pending",
+      runAt: { $lte: now },
+      ...(saturatedBatchIds.length > 0 && { batchId: { $nin: saturatedBatchIds } }),
+    },
+    {
+      $set: {
+        status: "running",
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(now.getTime() + env.jobLeaseMs),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { priority: -1, runAt: 1 }, new: true }
+  );
+
+  if (!job) return null;
+
+  await ProcessingJob.updateOne(
+    { _id: job._id, leaseOwner: workerId },
+    {
+      $push: {
+        attemptHistory: {
+          attempt: job.attempts,
+          workerId,
+          startedAt: now,
+        },
+      },
+      ...(!job.startedAt && { $set: { startedAt: now } }),
+    }
+  );
+
+  return job;
+}
+
+/**
+ * 处理任务失败
+ * 可重试的错误按阶段策略退避后重新排队；重试耗尽进入死信状态；其余直接失败
+ */
+async function handleJobFailure(
+  job: any,
+  workerId: string,
+  attemptIndex: number,
+  error: any
+): Promise<void> {
+  const stage = error instanceof ProcessingStageError ? error.stage : undefined;
+  const message = error.message || "处理失败";
+  const now = new Date();
+
+  let status: "pending" | "failed" | "dead_letter" = "failed";
+  let retryAt: Date | undefined;
+
+  if (stage) {
+    const policy = getRetryPolicy(stage);
+    if (isRetryableError(error, policy)) {
+      const failures = countStageFailures(job, stage) + 1;
+      if (failures < policy.maxAttempts) {
+        status = "pending";
+        retryAt = new Date(now.getTime() + computeBackoffDelay(failures, policy));
+      } else {
+        status = "dead_letter";
+      }
+    }
+  }
+
+  const result = await ProcessingJob.updateOne(
+    { _id: job._id, leaseOwner: workerId },
+    {
+      $set: {
+        status,
+        lastError: { message, stage },
+        [`attemptHistory.${attemptIndex}.finishedAt`]: now,
+        [`attemptHistory.${attemptIndex}.outcome`]: "failed",
+        [`attemptHistory.${attemptIndex}.stage`]: stage,
+        [`attemptHistory.${attemptIndex}.error`]: message,
+        [`attemptHistory.${attemptIndex}.errorStatus`]: error.status,
+        [`attemptHistory.${attemptIndex}.errorCode`]: error.code,
+        ...(retryAt
+          ? {
+              runAt: retryAt,
+              [`attemptHistory.${attemptIndex}.retryAt`]: retryAt,
+            }
+          : { finishedAt: now }),
+      },
+      // AI 解析失败时 OCR 结果已保存，重试不再重复 OCR
+      ...(retryAt && stage === "ai_parse" && {
+        $addToSet: { skipStages: "ocr" },
+      }),
+      $unset: { leaseOwner: "", leaseExpiresAt: "" },
+    }
+  );
+
+  if (result.modifiedCount === 0) {
+    console.warn(`Job ${job._id} lease lost before failure was recorded`);
+    return;
+  }
+
+  if (status === "pending") {
+    await AuditLog.log(
+      job.documentId,
+      job.fileName,
+      "reparse",
+      {
+        stage: `${stage}_retry_scheduled`,
+        attempt: job.attempts,
+        retryAt,
+        error: message,
+      }
+    );
+    return;
+  }
+
+  await failDocument(job.documentId, message, stage, status === "dead_letter");
+}
+
+/**
+ * 计算本次执行的步骤（排除重试时需要跳过的步骤）
+ */
+function resolveStages(job: any): PipelineStage[] | undefined {
+  const requested: PipelineStage[] | undefined = job.options?.stages?.length
+    ? job.options.stages
+    : undefined;
+  if (job.skipStages.length === 0) {
+    return requested;
+  }
+
+  // 未指定步骤时类型识别按需执行，不显式列出 detect
+  const base = requested || PIPELINE_STAGES.filter((stage) => stage !== "detect");
+  return base.filter((stage) => !job.skipStages.includes(stage));
+}
+
+/**
+ * 执行已领取的任务
+ */
+async function runJob(job: any, workerId: string): Promise<void> {
+  const attemptIndex = job.attemptHistory.length;
+
+  // 定期续租，避免长时间的 OCR 调用被其他 worker 回收
+  const heartbeat = setInterval(() => {
+    ProcessingJob.updateOne(
+      { _id: job._id, status: "running", leaseOwner: workerId },
+      { $set: { leaseExpiresAt: new Date(Date.now() + env.jobLeaseMs) } }
+    ).catch((error) => {
+      console.error("Job lease renewal error:", error);
+    });
+  }, Math.max(1000, Math.floor(env.jobLeaseMs / 3)));
+
+  try {
+    await processDocument(job.documentId, {
+      stages: resolveStages(job),
+      documentType: job.options?.documentType,
+      customType: job.options?.customType,
+      bypassCache: job.options?.bypassCache,
+    });
+
+    const now = new Date();
+    const result = await ProcessingJob.updateOne(
+      { _id: job._id, leaseOwner: workerId },
+      {
+        $set: {
+          status: "completed",
+          finishedAt: now,
+          [`attemptHistory.${attemptIndex}.finishedAt`]: now,
+          [`attemptHistory.${attemptIndex}.outcome`]: "completed",
+        },
+        $unset: { leaseOwner: "", leaseExpiresAt: "", lastError: "" },
+      }
+    );
+    if (result.modifiedCount === 0) {
+      console.warn(`Job ${job._id} lease lost before completion`);
+    }
+  } catch (error: any) {
+    await handleJobFailure(job, workerId, attemptIndex, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * 调度下一次轮询
+ */
+function scheduleTick(delay: number) {
+  const worker = getWorker();
+  if (!worker.running) return;
+
+  if (worker.timer) {
+    clearTimeout(worker.timer);
+  }
+  worker.timer = setTimeout(() => {
+    tick().catch((error) => {
+      console.error("Job worker tick error:", error);
+    });
+  }, delay);
+}
+
+/**
+ * 一次轮询：回收过期租约，并按并发上限领取任务
+ */
+async function tick(): Promise<void> {
+  const worker = getWorker();
+  if (!worker.running || worker.ticking) return;
+
+  worker.ticking = true;
+  try {
+    await connectToDatabase();
+    await recoverExpiredLeases();
+
+    while (worker.active < env.jobConcurrency) {
+      const job = await claimJob(worker.workerId);
+      if (!job) break;
+
+      worker.active++;
+      runJob(job, worker.workerId)
+        .catch((error) => {
+          console.error(`Job ${job._id} error:`, error);
+        })
+        .finally(() => {
+          worker.active--;
+          scheduleTick(0);
+        });
+    }
+  } finally {
+    worker.ticking = false;
+    scheduleTick(env.jobPollIntervalMs);
+  }
+}
+
+/**
+ * 启动 worker（幂等）
+ */
+export function startJobWorker(): void {
+  if (!env.jobWorkerEnabled) return;
+
+  const worker = getWorker();
+  if (worker.running) return;
+
+  worker.running = true;
+  console.log(`✓ Job worker started (${worker.workerId})`);
+  scheduleTick(0);
+}
+
+/**
+ * 停止 worker（正在执行的任务会继续执行完）
+ */
+export function stopJobWorker(): void {
+  const worker = getWorker();
+  worker.running = false;
+  if (worker.timer) {
+    clearTimeout(worker.timer);
+    worker.timer = null;
+  }
+}
+
+/**
+ * 立即触发一次轮询
+ */
+export function wakeJobWorker(): void {
+  const worker = getWorker();
+  if (!worker.running) {
+    startJobWorker();
+    return;
+  }
+  scheduleTick(0);
+}
@@ -0,0 +1,178 @@
+/**
+ * 结构化解析所用的 LLM 服务
+ * 所有服务均按 OpenAI 兼容的 Chat Completions 协议调用（GLM、vLLM、Ollama、llama.cpp server 等），
+ * 按文档类型路由到不同的服务和模型（LLM_TYPE_ROUTES）
+ */
+
+import axios, { AxiosError } from "axios";
+import { env, LlmBackendConfig } from "../env";
+import { toServiceApiError } from "./serviceError";
+import { DocumentType } from "@/types/document";
+
+/**
+ * Chat 消息接口
+ */
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Chat Completions 响应接口
+ */
+interface ChatResponse {
+  id: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * 调用选项
+ */
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * LLM 服务
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+}
+
+/**
+ * 路由任务：文档类型解析或类型识别（detect）
+ */
+export type LlmTask = DocumentType | "detect";
+
+/**
+ * 内置 GLM 服务（未在 LLM_BACKENDS 中覆盖时使用）
+ */
+function builtinGlmBackend(): LlmBackendConfig {
+  return {
+    apiUrl: env.glmChatApiUrl,
+    apiKey: env.glmApiKey,
+    model: "glm-4.7",
+    timeoutMs: 60000,
+  };
+}
+
+/**
+ * OpenAI 兼容服务
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private config: LlmBackendConfig;
+
+  constructor(name: string, config: LlmBackendConfig) {
+    this.name = name;
+    this.config = config;
+    this.defaultModel = config.model;
+
+    if (!config.apiUrl) {
+      throw new Error(`LLM backend "${name}" is not configured`);
+    }
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const model = options.model || this.defaultModel;
+    try {
+      const response = await axios.post<ChatResponse>(
+        this.config.apiUrl,
+        {
+          model,
+          messages,
+          temperature: options.temperature ?? 0.1, // 低温度以获得更确定性的结果
+          top_p: 0.9,
+          ...(this.config.jsonMode && { response_format: { type: "json_object" } }),
+        },
+        {
+          headers: {
+            ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+            "Content-Type": "application/json",
+          },
+          timeout: this.config.timeoutMs || 60000,
+        }
+      );
+
+      return response.data.choices?.[0]?.message?.content || "";
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError<any>;
+        console.error(`LLM API error (${this.name}):`, {
+          model,
+          status: axiosError.response?.status,
+          data: axiosError.response?.data,
+          message: axiosError.message,
+        });
+
+        throw toServiceApiError(
+          this.name === "glm" ? "GLM API 调用失败" : `LLM API 调用失败 (${this.name})`,
+          error
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * 已创建的服务实例
+ */
+const providers = new Map<string, LlmProvider>();
+
+/**
+ * 获取指定名称的服务
+ */
+export function getLlmProvider(name: string = env.llmDefaultBackend): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    const config = env.llmBackends[name] || (name === "glm" ? builtinGlmBackend() : undefined);
+    if (!config) {
+      throw new Error(`未定义的 LLM 服务: ${name}`);
+    }
+    if (name === "glm" && !env.llmBackends.glm && !config.apiKey) {
+      throw new Error("GLM_API_KEY is not configured");
+    }
+    provider = new OpenAiCompatibleProvider(name, config);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * 查找任务对应的服务和模型（未配置时使用默认服务的默认模型）
+ */
+export function describeLlmRoute(task: LlmTask): { backend: string; model?: string } {
+  const route = env.llmTypeRoutes[task] || env.llmTypeRoutes.default || {};
+  return {
+    backend: route.backend || env.llmDefaultBackend,
+    model: route.model,
+  };
+}
+
+/**
+ * 按任务路由调用
+ */
+export async function chatForTask(task: LlmTask, messages: ChatMessage[]): Promise<string> {
+  const route = describeLlmRoute(task);
+  const provider = getLlmProvider(route.backend);
+  return provider.chat(messages, { model: route.model });
+}
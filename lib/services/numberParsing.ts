@@ -0,0 +1,65 @@
+/**
+ * 金额和税率解析
+ * LLM、OCR 和结构化发票中的数字可能是 "1,234.00"、"¥100"、"13%" 等字符串，统一在这里转换为数字
+ */
+
+/**
+ * 发票金额字段
+ */
+const INVOICE_AMOUNT_FIELDS = ["amount", "taxAmount", "amountWithoutTax"] as const;
+
+/**
+ * 发票明细数字字段（税率单独规范化）
+ */
+const ITEM_NUMBER_FIELDS = ["quantity", "unitPrice", "amount", "taxAmount"] as const;
+
+/**
+ * 转为数字（去除千分位、货币符号和单位，百分数换算为小数），无法识别时返回 undefined
+ */
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return isFinite(value) ? value : undefined;
+  if (typeof value !== "string") return undefined;
+
+  const text = value.replace(/[,，\s¥￥元]/g, "");
+  if (!/^[-+]?\d*\.?\d+%?$/.test(text)) return undefined;
+  return text.endsWith("%") ? Number(text.slice(0, -1)) / 100 : Number(text);
+}
+
+/**
+ * 规范化税率为小数："13%"、13、"0.13" 均为 0.13，"1%" 和 1 均为 0.01，免税 / 不征税为 0
+ * 不带百分号且不小于 1 的数值按百分数处理（不存在 100% 及以上的税率）
+ */
+export function toTaxRate(value: unknown): number | undefined {
+  if (typeof value === "string" && /免税|不征税/.test(value)) return 0;
+  const rate = toNumber(value);
+  if (rate === undefined) return undefined;
+
+  const percent = typeof value === "string" && value.includes("%");
+  const normalized = !percent && rate >= 1 ? rate / 100 : rate;
+  return Math.round(normalized * 10000) / 10000;
+}
+
+/**
+ * 规范化 LLM 返回的发票数字字段，无法识别的值置空（避免写入 Number 字段时类型转换失败）
+ */
+export function normalizeInvoiceNumbers(invoice: any): any {
+  if (!invoice || typeof invoice !== "object") return invoice;
+
+  const result = { ...invoice };
+  for (const field of INVOICE_AMOUNT_FIELDS) {
+    if (field in result) result[field] = toNumber(result[field]);
+  }
+  if (Array.isArray(result.items)) {
+    result.items = result.items
+      .filter((item: unknown) => item && typeof item === "object")
+      .map((item: any) => {
+        const normalized = { ...item };
+        for (const field of ITEM_NUMBER_FIELDS) {
+          if (field in normalized) normalized[field] = toNumber(normalized[field]);
+        }
+        if ("taxRate" in normalized) normalized.taxRate = toTaxRate(normalized.taxRate);
+        return normalized;
+      });
+  }
+  return result;
+}
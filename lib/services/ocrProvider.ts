@@ -0,0 +1,94 @@
+/**
+ * OCR 服务提供方接口
+ * 流水线只依赖该接口，具体实现按部署选择（OCR_PROVIDER）：
+ * - glm: GLM-OCR layout_parsing API
+ * - tesseract: 本地 Tesseract 引擎（离线）
+ * - fixture: 从目录读取预置结果（离线、确定性，用于测试和演示）
+ */
+
+import { env } from "../env";
+import { LayoutDetail, PageSize } from "@/types/document";
+
+/**
+ * OCR 输入
+ */
+export interface OcrInput {
+  // 本地文件路径
+  filePath?: string;
+  // 可访问的文件 URL
+  fileUrl?: string;
+  // 文件 MIME 类型
+  mimeType: string;
+}
+
+/**
+ * OCR 输出（统一格式）
+ */
+export interface OcrResult {
+  // Markdown 格式的识别结果
+  mdResults: string;
+  // 所有页面的布局块（page 从 1 开始）
+  layoutDetails: LayoutDetail[];
+  numPages: number;
+  // 每页尺寸，与 layoutDetails 中的 bbox_2d 同一坐标系
+  pages: PageSize[];
+  // 识别置信度（0-100）
+  confidence: number;
+  // 提供方名称
+  provider: string;
+}
+
+/**
+ * OCR 服务提供方
+ */
+export interface OcrProvider {
+  readonly name: string;
+  recognize(input: OcrInput): Promise<OcrResult>;
+}
+
+/**
+ * 已创建的提供方实例
+ */
+const providers = new Map<string, OcrProvider>();
+
+/**
+ * 创建提供方实例（按需加载，未使用的实现不会读取其配置）
+ */
+async function createProvider(name: string): Promise<OcrProvider> {
+  switch (name) {
+    case "glm": {
+      const { GlmOcrProvider } = await import("./glmOcr");
+      return new GlmOcrProvider();
+    }
+    case "tesseract": {
+      const { TesseractOcrProvider } = await import("./tesseractOcr");
+      return new TesseractOcrProvider();
+    }
+    case "fixture": {
+      const { FixtureOcrProvider } = await import("./fixtureOcr");
+      return new FixtureOcrProvider();
+    }
+    default:
+      throw new Error(`不支持的 OCR 服务: ${name}`);
+  }
+}
+
+/**
+ * 获取当前部署配置的 OCR 提供方
+ */
+export async function getOcrProvider(name: string = env.ocrProvider): Promise<OcrProvider> {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = await createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * 便捷函数：使用当前提供方识别文件
+ */
+export async function recognizeDocument(input: OcrInput): Promise<OcrResult> {
+  const provider = await getOcrProvider();
+  return provider.recognize(input);
+}
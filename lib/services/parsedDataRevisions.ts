@@ -0,0 +1,168 @@
+/**
+ * 解析结果版本历史
+ * 每次 AI 解析、人工修改和版本恢复都保存 parsedData 的完整快照，
+ * 提供字段级差异比较，并以最近一次机器解析结果与当前结果的差异衡量解析准确率
+ */
+
+import { ParsedDataRevision, RevisionSource } from "@/models";
+import { sameValue } from "./fieldSources";
+
+/**
+ * 不参与差异比较的键（二维码解码结果、字段来源和置信度记录、子文档 _id）
+ */
+const IGNORED_KEYS = ["invoiceQr", "fieldSources", "fieldConfidence", "_id"];
+
+/**
+ * 机器生成的版本来源
+ */
+const MACHINE_SOURCES: RevisionSource[] = ["ai", "structured"];
+
+/**
+ * 单个字段的差异
+ */
+export interface FieldChange {
+  // 字段路径，如 invoice.amount、invoice.items.0.name
+  path: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 机器解析准确率：以最近一次 AI / 结构化解析版本为基准，统计之后被人工改动的字段
+ */
+export interface ParseAccuracy {
+  baselineRevision: number;
+  baselineSource: RevisionSource;
+  // 基准版本中有值的字段数
+  fields: number;
+  // 被修改或删除的字段数
+  corrected: number;
+  // 人工补充的字段数
+  added: number;
+  // 未被改动的字段占比
+  accuracy: number;
+  changes: FieldChange[];
+}
+
+interface RevisionOptions {
+  user?: { id?: string; name?: string };
+  reason?: string;
+  restoredFrom?: number;
+}
+
+function plain(value: any): any {
+  return value && typeof value.toObject === "function" ? value.toObject() : value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * 展开为“字段路径 → 值”，数组元素以下标作为路径的一段，日期保留为 Date
+ */
+function flatten(value: any, prefix: string, result: Map<string, unknown>): Map<string, unknown> {
+  value = plain(value);
+  if (value instanceof Date || value === null || typeof value !== "object") {
+    if (prefix && !isEmpty(value)) result.set(prefix, value);
+    return result;
+  }
+  // ObjectId 等非普通对象按字符串比较
+  if (!Array.isArray(value) && typeof value.toHexString === "function") {
+    if (prefix) result.set(prefix, value.toString());
+    return result;
+  }
+
+  const entries: Array<[string, any]> = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+  for (const [key, item] of entries) {
+    if (IGNORED_KEYS.includes(key)) continue;
+    flatten(item, prefix ? `${prefix}.${key}` : key, result);
+  }
+  return result;
+}
+
+/**
+ * 比较两个版本的 parsedData，返回字段级差异（空值视为不存在）
+ */
+export function diffParsedData(before: any, after: any): FieldChange[] {
+  const previous = flatten(before, "", new Map());
+  const next = flatten(after, "", new Map());
+  const changes: FieldChange[] = [];
+
+  for (const [path, value] of previous) {
+    if (!next.has(path)) {
+      changes.push({ path, type: "removed", before: value });
+    } else if (!sameValue(value, next.get(path))) {
+      changes.push({ path, type: "changed", before: value, after: next.get(path) });
+    }
+  }
+  for (const [path, value] of next) {
+    if (!previous.has(path)) {
+      changes.push({ path, type: "added", after: value });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 保存文档当前解析结果为新版本
+ */
+export async function recordRevision(
+  document: any,
+  source: RevisionSource,
+  options: RevisionOptions = {}
+) {
+  return ParsedDataRevision.record({
+    documentId: document._id.toString(),
+    source,
+    documentType: document.documentType,
+    customType: document.documentType === "custom" ? document.customType : undefined,
+    parsedData: plain(document.parsedData) || {},
+    userId: options.user?.id,
+    userName: options.user?.name,
+    reason: options.reason,
+    restoredFrom: options.restoredFrom,
+  });
+}
+
+/**
+ * 为尚无版本记录的文档（版本历史上线前解析的文档）补存当前解析结果作为基准版本
+ */
+export async function ensureBaselineRevision(document: any): Promise<void> {
+  if (!document.parsedData) return;
+  const exists = await ParsedDataRevision.exists({ documentId: document._id.toString() });
+  if (exists) return;
+
+  const source = document.metadata?.source;
+  await recordRevision(document, source === "xml" || source === "ofd" ? "structured" : "ai", {
+    reason: "版本历史启用前的解析结果",
+  });
+}
+
+/**
+ * 计算机器解析准确率（无机器解析版本时返回 null）
+ */
+export function computeParseAccuracy(revisions: any[], current: any): ParseAccuracy | null {
+  const baseline = [...revisions]
+    .reverse()
+    .find((revision) => MACHINE_SOURCES.includes(revision.source));
+  if (!baseline) return null;
+
+  const fields = flatten(baseline.parsedData, "", new Map()).size;
+  const changes = diffParsedData(baseline.parsedData, current);
+  const corrected = changes.filter((change) => change.type !== "added").length;
+
+  return {
+    baselineRevision: baseline.revision,
+    baselineSource: baseline.source,
+    fields,
+    corrected,
+    added: changes.length - corrected,
+    accuracy: fields > 0 ? Math.round(((fields - corrected) / fields) * 10000) / 10000 : 1,
+    changes,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * 往来单位金额分析
+ * 按销售方或购买方（归并到往来单位）汇总发票金额和税额，支持 Top N、环比 / 同比和下钻到发票
+ */
+
+import { Document, CounterpartyRole } from "@/models";
+import { InvoiceReportFilters, buildInvoiceReportMatch, REPORT_DATE_FIELDS } from "@/lib/reportQuery";
+import { groupByCounterparty, resolveCounterpartyRows, CounterpartyRow } from "./counterparties";
+
+/**
+ * 对比方式：previous 环比（紧邻的上一周期），year 同比（去年同期）
+ */
+export type ComparisonMode = "previous" | "year";
+
+/**
+ * 北京时间与 UTC 的时差
+ */
+const SHANGHAI_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * 各角色对应的发票字段
+ */
+const PARTY_FIELDS: Record<CounterpartyRole, { taxId: string; name: string; label: string }> = {
+  seller: {
+    taxId: "parsedData.invoice.sellerTaxId",
+    name: "parsedData.invoice.sellerName",
+    label: "未知销售方",
+  },
+  buyer: {
+    taxId: "parsedData.invoice.buyerTaxId",
+    name: "parsedData.invoice.buyerName",
+    label: "未知购买方",
+  },
+};
+
+export interface PartyTotals {
+  count: number;
+  totalAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * 单个往来单位的分析结果
+ */
+export interface PartyStat extends PartyTotals {
+  key: string;
+  counterpartyId?: string;
+  taxId?: string;
+  name: string;
+  names: string[];
+  // 占当期金额的比例
+  share: number;
+  previous?: PartyTotals;
+  // 金额变化及变化率（上期金额为 0 时变化率为 null）
+  change?: number;
+  changeRate?: number | null;
+}
+
+export interface PartyAnalysis {
+  role: CounterpartyRole;
+  parties: PartyStat[];
+  // Top N 之外的其他单位合计
+  others: (PartyTotals & { parties: number }) | null;
+  total: PartyTotals;
+  comparison?: {
+    mode: ComparisonMode;
+    start: Date;
+    end: Date;
+    total: PartyTotals;
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function reportMatch(filters: InvoiceReportFilters): any {
+  return {
+    ...buildInvoiceReportMatch(filters),
+    "parsedData.invoice.amount": { $exists: true, $ne: null },
+  };
+}
+
+/**
+ * 按原始税号和名称聚合
+ */
+async function aggregatePartyRows(
+  filters: InvoiceReportFilters,
+  role: CounterpartyRole
+): Promise<CounterpartyRow[]> {
+  const fields = PARTY_FIELDS[role];
+  const rows = await Document.aggregate([
+    { $match: reportMatch(filters) },
+    {
+      $group: {
+        _id: { taxId: `$${fields.taxId}`, name: `$${fields.name}` },
+        count: { $sum: 1 },
+        amount: { $sum: "$parsedData.invoice.amount" },
+        taxAmount: { $sum: "$parsedData.invoice.taxAmount" },
+      },
+    },
+  ]);
+
+  return rows.map((row: any) => ({
+    taxId: row._id.taxId ?? undefined,
+    name: row._id.name ?? undefined,
+    count: row.count,
+    amount: row.amount,
+    taxAmount: row.taxAmount,
+  }));
+}
+
+/**
+ * 按北京时间的日历月平移日期（月末日期溢出时取目标月最后一天）
+ */
+function shiftMonths(date: Date, months: number): Date {
+  const local = new Date(date.getTime() + SHANGHAI_OFFSET_MS);
+  const day = local.getUTCDate();
+  local.setUTCDate(1);
+  local.setUTCMonth(local.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  local.setUTCDate(Math.min(day, lastDay));
+  return new Date(local.getTime() - SHANGHAI_OFFSET_MS);
+}
+
+/**
+ * 是否为北京时间某月 1 日 00:00
+ */
+function isMonthStart(date: Date): boolean {
+  const local = new Date(date.getTime() + SHANGHAI_OFFSET_MS);
+  return (
+    local.getUTCDate() === 1 &&
+    local.getUTCHours() === 0 &&
+    local.getUTCMinutes() === 0 &&
+    local.getUTCSeconds() === 0 &&
+    local.getUTCMilliseconds() === 0
+  );
+}
+
+function monthIndex(date: Date): number {
+  const local = new Date(date.getTime() + SHANGHAI_OFFSET_MS);
+  return local.getUTCFullYear() * 12 + local.getUTCMonth();
+}
+
+/**
+ * 计算对比周期
+ * 环比：查询范围为整月时取紧邻的相同月数，否则取紧邻的相同时长；同比：前移 12 个月
+ */
+export function comparisonPeriod(
+  start: Date,
+  end: Date,
+  mode: ComparisonMode
+): { start: Date; end: Date } {
+  // 以开区间结束时间计算，避免 23:59:59.999 平移后跨日
+  const endExclusive = new Date(end.getTime() + 1);
+
+  if (mode === "year") {
+    return {
+      start: shiftMonths(start, -12),
+      end: new Date(shiftMonths(endExclusive, -12).getTime() - 1),
+    };
+  }
+
+  if (isMonthStart(start) && isMonthStart(endExclusive)) {
+    const months = monthIndex(endExclusive) - monthIndex(start);
+    return { start: shiftMonths(start, -months), end: new Date(start.getTime() - 1) };
+  }
+
+  const duration = endExclusive.getTime() - start.getTime();
+  return { start: new Date(start.getTime() - duration), end: new Date(start.getTime() - 1) };
+}
+
+function totalsOf(items: PartyTotals[]): PartyTotals {
+  return items.reduce(
+    (sum, item) => ({
+      count: sum.count + item.count,
+      totalAmount: round2(sum.totalAmount + item.totalAmount),
+      taxAmount: round2(sum.taxAmount + item.taxAmount),
+    }),
+    { count: 0, totalAmount: 0, taxAmount: 0 }
+  );
+}
+
+/**
+ * 往来单位金额分析
+ * compare 需要筛选条件同时包含开始和结束日期
+ */
+export async function analyzeParties(
+  filters: InvoiceReportFilters,
+  role: CounterpartyRole,
+  top: number,
+  compare?: ComparisonMode
+): Promise<PartyAnalysis> {
+  const label = PARTY_FIELDS[role].label;
+  const groups = await groupByCounterparty(await aggregatePartyRows(filters, role), label);
+  const total = totalsOf(groups);
+
+  const parties: PartyStat[] = groups.slice(0, top).map((group) => ({
+    ...group,
+    totalAmount: round2(group.totalAmount),
+    taxAmount: round2(group.taxAmount),
+    share: total.totalAmount > 0 ? round2((group.totalAmount / total.totalAmount) * 10000) / 10000 : 0,
+  }));
+
+  const rest = groups.slice(top);
+  const analysis: PartyAnalysis = {
+    role,
+    parties,
+    others: rest.length > 0 ? { ...totalsOf(rest), parties: rest.length } : null,
+    total,
+  };
+
+  if (compare && filters.startDate && filters.endDate) {
+    const period = comparisonPeriod(filters.startDate, filters.endDate, compare);
+    const previousGroups = await groupByCounterparty(
+      await aggregatePartyRows({ ...filters, startDate: period.start, endDate: period.end }, role),
+      label
+    );
+    const previousByKey = new Map(previousGroups.map((group) => [group.key, group]));
+
+    for (const party of parties) {
+      const previous = previousByKey.get(party.key);
+      const previousTotals: PartyTotals = previous
+        ? {
+            count: previous.count,
+            totalAmount: round2(previous.totalAmount),
+            taxAmount: round2(previous.taxAmount),
+          }
+        : { count: 0, totalAmount: 0, taxAmount: 0 };
+      party.previous = previousTotals;
+      party.change = round2(party.totalAmount - previousTotals.totalAmount);
+      party.changeRate =
+        previousTotals.totalAmount > 0
+          ? round2((party.change / previousTotals.totalAmount) * 10000) / 10000
+          : null;
+    }
+
+    analysis.comparison = { mode: compare, ...period, total: totalsOf(previousGroups) };
+  }
+
+  return analysis;
+}
+
+/**
+ * 下钻：查询归入指定分组的发票
+ */
+export async function findPartyDocuments(
+  filters: InvoiceReportFilters,
+  role: CounterpartyRole,
+  key: string,
+  page: number,
+  limit: number
+): Promise<{ documents: any[]; total: number }> {
+  const fields = PARTY_FIELDS[role];
+  const rows = await aggregatePartyRows(filters, role);
+  const resolved = await resolveCounterpartyRows(rows);
+
+  // 按原始税号 + 名称精确匹配属于该分组的发票（null 同时匹配缺失字段）
+  const conditions = rows
+    .filter((_row, index) => resolved[index].key === key)
+    .map((row) => ({
+      [fields.taxId]: row.taxId ?? null,
+      [fields.name]: row.name ?? null,
+    }));
+  if (conditions.length === 0) {
+    return { documents: [], total: 0 };
+  }
+
+  const query = { ...reportMatch(filters), $or: conditions };
+  const [documents, total] = await Promise.all([
+    Document.find(query)
+      .select("fileName uploadDate parsedData.invoice duplicateOf verification.status")
+      .sort({ [REPORT_DATE_FIELDS[filters.basis]]: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    Document.countDocuments(query),
+  ]);
+
+  return { documents, total };
+}
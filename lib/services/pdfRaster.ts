@@ -0,0 +1,51 @@
+/**
+ * PDF 转图片
+ * 调用本机 pdftoppm（poppler-utils），供本地 OCR、二维码识别和详情页按页预览使用
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import path from "path";
+import { env } from "../env";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 转换超时
+ */
+const COMMAND_TIMEOUT_MS = 120000;
+
+/**
+ * 将 PDF 转换为 PNG 图片，返回按页码排序的图片路径
+ * firstPage / lastPage 指定时只转换该范围内的页
+ */
+export async function rasterizePdf(
+  pdfPath: string,
+  workDir: string,
+  options: { dpi?: number; firstPage?: number; lastPage?: number } = {}
+): Promise<string[]> {
+  const prefix = path.join(workDir, "page");
+  const args = ["-r", String(options.dpi || env.ocrDpi), "-png"];
+  if (options.firstPage) {
+    args.push("-f", String(options.firstPage));
+  }
+  if (options.lastPage) {
+    args.push("-l", String(options.lastPage));
+  }
+
+  try {
+    await execFileAsync(env.pdftoppmPath, [...args, pdfPath, prefix], {
+      timeout: COMMAND_TIMEOUT_MS,
+    });
+  } catch (error: any) {
+    throw new Error(`PDF 转换图片失败: ${error.message}`);
+  }
+
+  // pdftoppm 输出 page-1.png / page-01.png 等，按页码排序
+  const files = (await fs.readdir(workDir)).filter((file) => file.endsWith(".png"));
+  const pageNumber = (file: string) => parseInt(file.replace(/\D/g, ""), 10);
+  return files
+    .sort((a, b) => pageNumber(a) - pageNumber(b))
+    .map((file) => path.join(workDir, file));
+}
@@ -0,0 +1,51 @@
+/**
+ * 处理阶段重试策略
+ * 指数退避 + 随机抖动，按 HTTP 状态码 / 网络错误判断是否可重试
+ */
+
+import { env, RetryPolicyConfig } from "../env";
+import type { ProcessingStage } from "./documentProcessor";
+
+/**
+ * 可重试的网络错误码（超时、连接中断等）
+ */
+const RETRYABLE_NETWORK_CODES = [
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ERR_NETWORK",
+];
+
+/**
+ * 获取阶段重试策略
+ */
+export function getRetryPolicy(stage: ProcessingStage): RetryPolicyConfig {
+  return env.retryPolicies[stage];
+}
+
+/**
+ * 判断错误是否可重试
+ */
+export function isRetryableError(
+  error: { status?: number; code?: string },
+  policy: RetryPolicyConfig
+): boolean {
+  if (error.status !== undefined) {
+    return policy.retryableStatusCodes.includes(error.status);
+  }
+  return !!error.code && RETRYABLE_NETWORK_CODES.includes(error.code);
+}
+
+/**
+ * 计算第 n 次失败后的等待时间（n 从 1 开始）
+ */
+export function computeBackoffDelay(failureCount: number, policy: RetryPolicyConfig): number {
+  const exponential = policy.baseDelayMs * Math.pow(2, Math.max(0, failureCount - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+
+  // 在 [capped * (1 - jitterRatio), capped] 区间内随机
+  return Math.round(capped * (1 - policy.jitterRatio * Math.random()));
+}
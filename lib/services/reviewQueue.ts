@@ -0,0 +1,188 @@
+/**
+ * 人工审核队列
+ * 解析完成后按 OCR 置信度、类型识别置信度、校验警告和字段置信度判断是否需要人工审核；
+ * 需要审核的文档状态为 needs_review，审核通过（或修改后通过）前不计入报表
+ */
+
+import { AuditLog } from "@/models";
+import { env } from "../env";
+import { ReviewReason, ValidationSeverity } from "@/types/document";
+import { SEVERITY_ORDER, validateDocument } from "./invoiceValidation";
+import { checkDuplicateInvoice, recheckDuplicatesOf } from "./invoiceDuplicates";
+import { markEditedFieldSources } from "./fieldSources";
+import { syncInvoiceCounterparties } from "./counterparties";
+import { updateFieldConfidence, weakFields } from "./fieldConfidence";
+import { ensureBaselineRevision, recordRevision } from "./parsedDataRevisions";
+
+/**
+ * 审核人
+ */
+export interface Reviewer {
+  id: string;
+  name?: string;
+}
+
+/**
+ * 当前生效的审核阈值
+ */
+export function reviewThresholds() {
+  return {
+    enabled: env.reviewEnabled,
+    ocrConfidence: env.reviewOcrConfidence,
+    detectionConfidence: env.reviewDetectionConfidence,
+    validationSeverity: env.reviewValidationSeverity,
+    fieldConfidence: env.reviewFieldConfidence,
+  };
+}
+
+/**
+ * 判断文档是否需要人工审核，返回原因（为空表示无需审核）
+ * 数电票 XML / OFD 直接读取结构化数据，不检查置信度
+ */
+export function evaluateReview(document: any): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+  const structured = document.metadata?.source === "xml" || document.metadata?.source === "ofd";
+
+  const confidence = document.metadata?.confidence;
+  if (!structured && typeof confidence === "number" && confidence < env.reviewOcrConfidence) {
+    reasons.push({
+      code: "ocr_confidence",
+      message: `OCR 置信度 ${Math.round(confidence)} 低于 ${env.reviewOcrConfidence}`,
+    });
+  }
+
+  // 类型识别结果与当前类型一致时才检查（手动指定类型时不适用）
+  const detection = document.metadata?.detection;
+  if (
+    !structured &&
+    detection?.type === document.documentType &&
+    typeof detection.confidence === "number" &&
+    detection.confidence < env.reviewDetectionConfidence
+  ) {
+    reasons.push({
+      code: "detection_confidence",
+      message: `文档类型识别置信度 ${Math.round(detection.confidence)} 低于 ${env.reviewDetectionConfidence}`,
+    });
+  }
+
+  const threshold = env.reviewValidationSeverity;
+  if (threshold !== "none") {
+    const warnings = (document.validation?.warnings || []).filter(
+      (warning: any) =>
+        SEVERITY_ORDER[warning.severity as ValidationSeverity] >= SEVERITY_ORDER[threshold]
+    );
+    if (warnings.length > 0) {
+      reasons.push({
+        code: "validation",
+        message: `校验警告：${warnings.map((warning: any) => warning.message).join("；")}`,
+      });
+    }
+  }
+
+  const weak = weakFields(document.parsedData?.fieldConfidence, env.reviewFieldConfidence);
+  if (weak.length > 0) {
+    reasons.push({
+      code: "field_confidence",
+      message: `${weak.length} 个字段置信度低于 ${env.reviewFieldConfidence}：${weak
+        .slice(0, 5)
+        .map((field) => `${field.path}（${field.score}）`)
+        .join("、")}${weak.length > 5 ? " 等" : ""}`,
+    });
+  }
+
+  return reasons;
+}
+
+/**
+ * 解析完成后判断是否需要审核并设置最终状态（needs_review 或 completed）
+ * 解析结果保存时仍为 processing，需要审核的文档不会先以 completed 计入报表；
+ * 仅在解析结果被替换后调用：原有审核记录（包括已通过的）针对的是旧数据，不需要审核时一并清除
+ */
+export async function flagForReview(document: any): Promise<ReviewReason[]> {
+  const reasons = env.reviewEnabled ? evaluateReview(document) : [];
+
+  if (reasons.length > 0) {
+    document.status = "needs_review";
+    document.review = { status: "pending", reasons, flaggedAt: new Date() };
+    await document.save();
+    await AuditLog.log(
+      document._id.toString(),
+      document.fileName,
+      "reparse",
+      { stage: "review_required", reasons: reasons.map((reason) => reason.code) }
+    );
+  } else {
+    document.review = undefined;
+    document.status = "completed";
+    await document.save();
+  }
+
+  return reasons;
+}
+
+/**
+ * 完成审核
+ * 提交 parsedData 时按人工修改保存（字段来源记为 manual 并保存版本），审核状态为 corrected；
+ * 否则为 approved。审核后文档状态为 completed，计入报表
+ */
+export async function completeReview(
+  document: any,
+  reviewer: Reviewer,
+  input: { parsedData?: any; comment?: string }
+): Promise<any> {
+  const corrected = !!input.parsedData;
+
+  if (corrected) {
+    await ensureBaselineRevision(document);
+    const previous = document.parsedData;
+    document.parsedData = {
+      ...input.parsedData,
+      invoiceQr: input.parsedData.invoiceQr ?? previous?.invoiceQr,
+      fieldSources: markEditedFieldSources(previous, input.parsedData),
+    };
+    document.metadata.aiParsedAt = new Date();
+  }
+
+  document.status = "completed";
+  document.review = {
+    status: corrected ? "corrected" : "approved",
+    reasons: document.review?.reasons || [],
+    flaggedAt: document.review?.flaggedAt,
+    reviewedBy: reviewer.id,
+    reviewerName: reviewer.name,
+    reviewedAt: new Date(),
+    comment: input.comment,
+  };
+  await document.save();
+
+  const revision = corrected
+    ? await recordRevision(document, "manual", {
+        user: reviewer,
+        reason: input.comment || "审核修改",
+      })
+    : undefined;
+
+  await AuditLog.log(
+    document._id.toString(),
+    document.fileName,
+    "review",
+    {
+      status: document.review.status,
+      reasons: document.review.reasons.map((reason: any) => reason.code),
+      comment: input.comment,
+      ...(revision && { revision: revision.revision }),
+    },
+    reviewer.id
+  );
+
+  // 修改后重新校验、检查重复并登记往来单位（审核结论不因新的校验警告改变）
+  if (corrected) {
+    await validateDocument(document);
+    await updateFieldConfidence(document);
+    await checkDuplicateInvoice(document);
+    await recheckDuplicatesOf(document._id.toString());
+    await syncInvoiceCounterparties(document);
+  }
+
+  return document;
+}
@@ -0,0 +1,37 @@
+/**
+ * 外部服务调用错误
+ * 保留 HTTP 状态码和网络错误码，供重试策略判断
+ */
+
+import axios, { AxiosError } from "axios";
+
+/**
+ * 外部 API 调用失败
+ */
+export class ServiceApiError extends Error {
+  status?: number;
+  code?: string;
+
+  constructor(message: string, status?: number, code?: string) {
+    super(message);
+    this.name = "ServiceApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * 将 axios 错误转换为 ServiceApiError
+ */
+export function toServiceApiError(prefix: string, error: unknown): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+
+  const axiosError = error as AxiosError<any>;
+  return new ServiceApiError(
+    `${prefix}: ${axiosError.response?.data?.error?.message || axiosError.message}`,
+    axiosError.response?.status,
+    axiosError.code
+  );
+}
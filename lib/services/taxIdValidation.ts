@@ -0,0 +1,201 @@
+/**
+ * 纳税人识别号校验
+ * - 18 位统一社会信用代码：GB 32100-2015 校验码
+ * - 15 位（旧税务登记号：行政区划码 + 组织机构代码）、20 位（身份证号 + 2 位序号）：仅校验格式
+ */
+
+import { ValidationWarning } from "@/types/document";
+
+/**
+ * 统一社会信用代码字符集（不使用 I、O、Z、S、V）
+ */
+const USCC_CHARSET = "0123456789ABCDEFGHJKLMNPQRTUWXY";
+
+/**
+ * 各位加权因子
+ */
+const USCC_WEIGHTS = [1, 3, 9, 27, 19, 26, 16, 17, 20, 29, 25, 13, 8, 24, 10, 30, 28];
+
+/**
+ * 统一社会信用代码格式：登记管理部门码 + 机构类别码 + 6 位行政区划码 + 9 位组织机构代码 + 校验码
+ */
+const USCC_PATTERN = /^[1-9ANY]\d{7}[0-9A-HJ-NPQRTUWXY]{10}$/;
+
+const LEGACY_15_PATTERN = /^\d{6}[0-9A-Z]{8}[0-9X]$/;
+const LEGACY_20_PATTERN = /^\d{17}[0-9X]\d{2}$/;
+
+/**
+ * OCR 易混淆字符
+ */
+const CONFUSABLE: Record<string, string> = {
+  "0": "ODQU",
+  "1": "ILT7",
+  "2": "Z",
+  "3": "85",
+  "5": "S3",
+  "6": "G",
+  "7": "1T",
+  "8": "B3",
+  "9": "G",
+  B: "8",
+  D: "0",
+  G: "69",
+  Q: "0",
+  U: "0",
+  T: "17",
+  L: "1",
+};
+
+/**
+ * 最多给出的修正建议数
+ */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * 识别号类型
+ */
+export type TaxIdKind = "uscc" | "legacy15" | "legacy20";
+
+/**
+ * 校验结果
+ */
+export interface TaxIdCheck {
+  value: string;
+  normalized: string;
+  kind?: TaxIdKind;
+  valid: boolean;
+  reason?: "format" | "checksum";
+  suggestions: string[];
+}
+
+/**
+ * 规范化：去除空白和分隔符，统一大写
+ */
+export function normalizeTaxId(value: string): string {
+  return value.replace(/[\s\-－—_]/g, "").toUpperCase();
+}
+
+/**
+ * 计算统一社会信用代码校验码
+ */
+export function computeUsccCheckChar(first17: string): string | null {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const code = USCC_CHARSET.indexOf(first17[i]);
+    if (code < 0) return null;
+    sum += code * USCC_WEIGHTS[i];
+  }
+  const check = (31 - (sum % 31)) % 31;
+  return USCC_CHARSET[check];
+}
+
+/**
+ * 校验统一社会信用代码
+ */
+export function isValidUscc(value: string): boolean {
+  return USCC_PATTERN.test(value) && computeUsccCheckChar(value.slice(0, 17)) === value[17];
+}
+
+/**
+ * 生成单字符修正建议
+ * 逐位替换为字符集中的其他字符，保留能通过校验的结果，OCR 易混淆的替换优先
+ */
+export function suggestUsccCorrections(value: string): string[] {
+  if (value.length !== 18) return [];
+
+  const candidates: Array<{ code: string; score: number }> = [];
+  for (let i = 0; i < 18; i++) {
+    const original = value[i];
+    for (const replacement of USCC_CHARSET) {
+      if (replacement === original) continue;
+      const candidate = value.slice(0, i) + replacement + value.slice(i + 1);
+      if (!isValidUscc(candidate)) continue;
+
+      const confusable =
+        (CONFUSABLE[original] || "").includes(replacement) ||
+        (CONFUSABLE[replacement] || "").includes(original);
+      // 字符集外的字符（如 O、I）必然是误识别
+      const outOfCharset = !USCC_CHARSET.includes(original);
+      candidates.push({
+        code: candidate,
+        score: (outOfCharset ? 2 : 0) + (confusable ? 1 : 0),
+      });
+    }
+  }
+
+  // 没有易混淆依据时候选过多，不给出建议
+  const likely = candidates.filter((candidate) => candidate.score > 0);
+  return likely
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((candidate) => candidate.code);
+}
+
+/**
+ * 校验纳税人识别号
+ */
+export function checkTaxId(value: string): TaxIdCheck {
+  const normalized = normalizeTaxId(value);
+  const result: TaxIdCheck = { value, normalized, valid: false, suggestions: [] };
+
+  if (normalized.length === 18) {
+    result.kind = "uscc";
+    if (isValidUscc(normalized)) {
+      result.valid = true;
+    } else {
+      result.reason = USCC_PATTERN.test(normalized) ? "checksum" : "format";
+      result.suggestions = suggestUsccCorrections(normalized);
+    }
+    return result;
+  }
+
+  if (normalized.length === 15) {
+    result.kind = "legacy15";
+    result.valid = LEGACY_15_PATTERN.test(normalized);
+  } else if (normalized.length === 20) {
+    result.kind = "legacy20";
+    result.valid = LEGACY_20_PATTERN.test(normalized);
+  }
+
+  if (!result.valid) {
+    result.reason = "format";
+  }
+  return result;
+}
+
+/**
+ * 校验发票中的销售方、购买方税号
+ */
+export function validateInvoiceTaxIds(invoice: {
+  sellerTaxId?: string;
+  buyerTaxId?: string;
+}): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+  const fields = [
+    { field: "sellerTaxId", label: "销售方税号" },
+    { field: "buyerTaxId", label: "购买方税号" },
+  ] as const;
+
+  for (const { field, label } of fields) {
+    const value = invoice[field];
+    if (value === undefined || value === null || String(value).trim() === "") continue;
+
+    const check = checkTaxId(String(value));
+    if (check.valid) continue;
+
+    const hint = check.suggestions.length > 0 ? `，可能为 ${check.suggestions.join(" / ")}` : "";
+    warnings.push({
+      code: check.reason === "checksum" ? "tax_id_checksum" : "tax_id_format",
+      severity: "high",
+      field,
+      message:
+        check.reason === "checksum"
+          ? `${label} ${check.normalized} 校验码错误${hint}`
+          : `${label} ${check.normalized} 格式不正确（应为 18 位统一社会信用代码或 15/20 位纳税人识别号）${hint}`,
+      actual: check.normalized,
+      ...(check.suggestions.length > 0 && { suggestions: check.suggestions }),
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,201 @@
+/**
+ * 本地 Tesseract OCR 服务
+ * 调用本机 tesseract 命令行（PDF 先经 pdftoppm 转为图片），无需访问外部网络
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { env } from "../env";
+import { LayoutDetail, PageSize } from "@/types/document";
+import type { OcrInput, OcrProvider, OcrResult } from "./ocrProvider";
+import { rasterizePdf } from "./pdfRaster";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 单次命令超时
+ */
+const COMMAND_TIMEOUT_MS = 120000;
+
+/**
+ * 命令输出上限
+ */
+const MAX_BUFFER = 32 * 1024 * 1024;
+
+/**
+ * TSV 输出中的一行（tesseract 的 level: 1 页, 2 块, 3 段落, 4 行, 5 词）
+ */
+interface TsvRow {
+  level: number;
+  block: number;
+  line: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  conf: number;
+  text: string;
+}
+
+/**
+ * 单页识别结果
+ */
+interface PageRecognition {
+  size: PageSize;
+  blocks: LayoutDetail[];
+  wordConfidences: number[];
+}
+
+/**
+ * 解析 tesseract TSV 输出
+ */
+function parseTsv(tsv: string): TsvRow[] {
+  const rows: TsvRow[] = [];
+  const lines = tsv.split("\n");
+
+  // 第一行为表头
+  for (const line of lines.slice(1)) {
+    const cols = line.split("\t");
+    if (cols.length < 12) continue;
+    rows.push({
+      level: parseInt(cols[0], 10),
+      block: parseInt(cols[2], 10),
+      line: `${cols[2]}-${cols[3]}-${cols[4]}`,
+      left: parseInt(cols[6], 10),
+      top: parseInt(cols[7], 10),
+      width: parseInt(cols[8], 10),
+      height: parseInt(cols[9], 10),
+      conf: parseFloat(cols[10]),
+      text: cols.slice(11).join("\t").trim(),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * 拼接一行中的词（中文字符之间不加空格）
+ */
+function joinWords(words: string[]): string {
+  return words
+    .join(" ")
+    .replace(/([\u3000-\u9fff\uff00-\uffef])\s+(?=[\u3000-\u9fff\uff00-\uffef])/g, "$1");
+}
+
+/**
+ * 将 TSV 行整理为按块划分的布局详情
+ */
+function buildPage(rows: TsvRow[], pageNumber: number): PageRecognition {
+  const pageRow = rows.find((row) => row.level === 1);
+  const size: PageSize = {
+    page: pageNumber,
+    width: pageRow?.width || 0,
+    height: pageRow?.height || 0,
+  };
+
+  const blocks: LayoutDetail[] = [];
+  const wordConfidences: number[] = [];
+
+  for (const blockRow of rows.filter((row) => row.level === 2)) {
+    const words = rows.filter(
+      (row) => row.level === 5 && row.block === blockRow.block && row.text
+    );
+    if (words.length === 0) continue;
+
+    // 按行分组
+    const lines = new Map<string, string[]>();
+    const blockConfidences: number[] = [];
+    for (const word of words) {
+      if (!lines.has(word.line)) lines.set(word.line, []);
+      lines.get(word.line)!.push(word.text);
+      if (word.conf >= 0) blockConfidences.push(word.conf);
+    }
+    wordConfidences.push(...blockConfidences);
+
+    blocks.push({
+      index: blocks.length,
+      label: "text",
+      bbox_2d: [
+        blockRow.left,
+        blockRow.top,
+        blockRow.left + blockRow.width,
+        blockRow.top + blockRow.height,
+      ],
+      content: [...lines.values()].map(joinWords).join("\n"),
+      width: size.width,
+      height: size.height,
+      page: pageNumber,
+      ...(blockConfidences.length > 0 && {
+        confidence: Math.round(
+          blockConfidences.reduce((sum, conf) => sum + conf, 0) / blockConfidences.length
+        ),
+      }),
+    });
+  }
+
+  return { size, blocks, wordConfidences };
+}
+
+/**
+ * Tesseract 服务提供方
+ */
+export class TesseractOcrProvider implements OcrProvider {
+  readonly name = "tesseract";
+
+  async recognize(input: OcrInput): Promise<OcrResult> {
+    if (!input.filePath) {
+      throw new Error("本地 OCR 需要文件存储路径");
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "ocr-"));
+    try {
+      const images =
+        input.mimeType === "application/pdf"
+          ? await rasterizePdf(input.filePath, workDir)
+          : [input.filePath];
+
+      const pages: PageRecognition[] = [];
+      for (let i = 0; i < images.length; i++) {
+        pages.push(await this.recognizeImage(images[i], i + 1));
+      }
+
+      const confidences = pages.flatMap((page) => page.wordConfidences);
+      const confidence =
+        confidences.length > 0
+          ? Math.round(confidences.reduce((sum, conf) => sum + conf, 0) / confidences.length)
+          : 0;
+
+      return {
+        mdResults: pages
+          .map((page) => page.blocks.map((block) => block.content).join("\n\n"))
+          .join("\n\n---\n\n"),
+        layoutDetails: pages.flatMap((page) => page.blocks),
+        numPages: pages.length,
+        pages: pages.map((page) => page.size),
+        confidence,
+        provider: this.name,
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * 识别单张图片
+   */
+  private async recognizeImage(imagePath: string, pageNumber: number): Promise<PageRecognition> {
+    try {
+      const { stdout } = await execFileAsync(
+        env.tesseractPath,
+        [imagePath, "stdout", "-l", env.tesseractLang, "tsv"],
+        { timeout: COMMAND_TIMEOUT_MS, maxBuffer: MAX_BUFFER }
+      );
+      return buildPage(parseTsv(stdout), pageNumber);
+    } catch (error: any) {
+      throw new Error(`Tesseract 识别失败: ${error.message}`);
+    }
+  }
+}
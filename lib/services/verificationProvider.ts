@@ -0,0 +1,69 @@
+/**
+ * 发票查验服务接口
+ * 查验流程只依赖该接口，具体实现按部署选择（VERIFICATION_PROVIDER）：
+ * - none: 不启用查验
+ * - api: 第三方发票查验 API（本地测试可指向 scripts/verification-stub.ts 启动的模拟服务）
+ */
+
+import { env } from "../env";
+import { VerificationRequest, VerificationStatus } from "@/types/document";
+
+/**
+ * 查验结果（统一格式）
+ */
+export interface VerificationOutcome {
+  // 服务返回业务错误（参数错误、次数超限等）时为 error
+  status: VerificationStatus;
+  message?: string;
+  // 查验服务的原始响应
+  rawResponse: unknown;
+}
+
+/**
+ * 发票查验服务
+ * 无法得到响应（网络错误、超时、HTTP 错误）时抛出异常
+ */
+export interface InvoiceVerifier {
+  readonly name: string;
+  verify(request: VerificationRequest): Promise<VerificationOutcome>;
+}
+
+/**
+ * 已创建的服务实例
+ */
+const verifiers = new Map<string, InvoiceVerifier>();
+
+/**
+ * 创建服务实例（按需加载）
+ */
+async function createVerifier(name: string): Promise<InvoiceVerifier> {
+  switch (name) {
+    case "api": {
+      const { ApiInvoiceVerifier } = await import("./apiVerifier");
+      return new ApiInvoiceVerifier();
+    }
+    default:
+      throw new Error(`不支持的发票查验服务: ${name}`);
+  }
+}
+
+/**
+ * 是否已启用发票查验
+ */
+export function isVerificationEnabled(): boolean {
+  return env.verificationProvider !== "none";
+}
+
+/**
+ * 获取当前部署配置的查验服务
+ */
+export async function getInvoiceVerifier(
+  name: string = env.verificationProvider
+): Promise<InvoiceVerifier> {
+  let verifier = verifiers.get(name);
+  if (!verifier) {
+    verifier = await createVerifier(name);
+    verifiers.set(name, verifier);
+  }
+  return verifier;
+}
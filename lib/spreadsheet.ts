@@ -0,0 +1,143 @@
+/**
+ * 表格文件生成（CSV / XLSX）
+ * XLSX 只包含表头和数据（行内字符串、数字），不含样式，用 fflate 打包
+ */
+
+import { strToU8, zipSync } from "fflate";
+
+export type CellValue = string | number | boolean | null | undefined;
+
+/**
+ * 工作表
+ */
+export interface Sheet {
+  name: string;
+  headers: string[];
+  rows: CellValue[][];
+}
+
+/**
+ * 生成 CSV（带 BOM，Excel 打开中文不乱码）
+ */
+export function buildCsv(headers: string[], rows: CellValue[][]): string {
+  const escape = (value: CellValue) => {
+    const text = value === null || value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [headers, ...rows].map((row) => row.map(escape).join(","));
+  return "\uFEFF" + lines.join("\r\n");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // 去除 XML 不允许的控制字符
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+/**
+ * 列号转列名（0 → A，26 → AA）
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function renderCell(value: CellValue, ref: string): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function renderSheet(sheet: Sheet): string {
+  const rows = [sheet.headers, ...sheet.rows]
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, colIndex) => renderCell(value, `${columnName(colIndex)}${rowIndex + 1}`))
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * 工作表名称：不超过 31 个字符，不含 []:*?/\
+ */
+function sheetName(name: string, index: number): string {
+  const cleaned = name.replace(/[[\]:*?/\\]/g, "").slice(0, 31);
+  return cleaned || `Sheet${index + 1}`;
+}
+
+/**
+ * 生成 XLSX 文件
+ */
+export function buildXlsx(sheets: Sheet[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets
+          .map(
+            (_sheet, index) =>
+              `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        "</Types>"
+    ),
+    "_rels/.rels": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>"
+    ),
+    "xl/workbook.xml": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        "<sheets>" +
+        sheets
+          .map(
+            (sheet, index) =>
+              `<sheet name="${escapeXml(sheetName(sheet.name, index))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+          )
+          .join("") +
+        "</sheets></workbook>"
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            (_sheet, index) =>
+              `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+          )
+          .join("") +
+        "</Relationships>"
+    ),
+  };
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(renderSheet(sheet));
+  });
+
+  return zipSync(files);
+}
@@ -4,6 +4,7 @@
  */
 
 import fs from "fs/promises";
+import { createHash } from "crypto";
 import path from "path";
 import { env } from "../env";
 import { v4 as uuidv4 } from "uuid";
@@ -18,6 +19,8 @@ export interface UploadedFile {
   size: number;
   url: string;
   path: string;
+  // 文件内容的 SHA-256（十六进制）
+  sha256: string;
 }
 
 /**
@@ -68,6 +71,7 @@ export async function saveFile(
     size: buffer.length,
     url,
     path: filePath,
+    sha256: createHash("sha256").update(buffer).digest("hex"),
   };
 }
 
@@ -107,6 +111,18 @@ export async function saveFileFromUrl(
   return saveFile(buffer, filename, contentType);
 }
 
+/**
+ * 获取已存储文件的本地路径
+ * 早期文档未保存 filePath 时，按 fileUrl 中的文件名在上传目录中查找
+ */
+export function resolveStoredFilePath(filePath?: string, fileUrl?: string): string | undefined {
+  if (filePath) return filePath;
+  if (!fileUrl) return undefined;
+
+  const filename = decodeURIComponent(fileUrl.split("?")[0].split("/").pop() || "");
+  return filename ? path.join(env.uploadDir, filename) : undefined;
+}
+
 /**
  * 删除文件
  */
@@ -32,7 +32,10 @@ export type AuditAction =
   | "reparse"
   | "export"
   | "batch_delete"
-  | "batch_export";
+  | "batch_export"
+  | "verify"
+  | "restore"
+  | "review";
 
 /**
  * 审计日志接口
@@ -58,7 +61,19 @@ const AuditLogSchema = new Schema<IAuditLog>(
     fileName: { type: String, required: true },
     action: {
       type: String,
-      enum: ["upload", "view", "update", "delete", "reparse", "export", "batch_delete", "batch_export"],
+      enum: [
+        "upload",
+        "view",
+        "update",
+        "delete",
+        "reparse",
+        "export",
+        "batch_delete",
+        "batch_export",
+        "verify",
+        "restore",
+        "review",
+      ],
       required: true,
     },
     userId: String,
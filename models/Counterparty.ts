@@ -0,0 +1,164 @@
+/**
+ * Counterparty Mongoose Schema
+ * 往来单位（销售方 / 购买方）主数据，以税号为键，由解析完成的发票自动维护
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+/**
+ * 往来单位角色
+ */
+export type CounterpartyRole = "seller" | "buyer";
+
+/**
+ * Counterparty Model 接口扩展
+ */
+export interface ICounterpartyModel extends Model<ICounterparty> {
+  upsertFromInvoice(
+    taxId: string,
+    name: string | undefined,
+    role: CounterpartyRole,
+    seenAt?: Date
+  ): Promise<any>;
+  resolveCanonical(taxIds: string[]): Promise<Map<string, any>>;
+}
+
+/**
+ * 往来单位接口
+ */
+export interface ICounterparty {
+  _id: string;
+  // 规范化后的税号（去除空白和分隔符、统一大写）
+  taxId: string;
+  // 规范名称
+  name: string;
+  // 发票中出现过的名称写法（含 OCR 识别差异）
+  aliases: string[];
+  roles: CounterpartyRole[];
+  // 已合并到的往来单位税号，报表按合并后的单位统计
+  mergedInto?: string;
+  // 名称是否经人工确认（确认后不再被发票中的名称覆盖）
+  nameLocked: boolean;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Counterparty Schema
+ */
+const CounterpartySchema = new Schema<ICounterparty>(
+  {
+    taxId: { type: String, required: true, unique: true },
+    name: { type: String, required: true, trim: true },
+    aliases: { type: [String], default: [] },
+    roles: {
+      type: [String],
+      enum: ["seller", "buyer"],
+      default: [],
+    },
+    mergedInto: String,
+    nameLocked: { type: Boolean, default: false },
+    firstSeenAt: Date,
+    lastSeenAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * 索引定义
+ */
+CounterpartySchema.index({ aliases: 1 });
+CounterpartySchema.index({ mergedInto: 1 });
+CounterpartySchema.index({ roles: 1, lastSeenAt: -1 });
+
+/**
+ * 静态方法：根据发票中的税号和名称新增或更新往来单位
+ * 税号需已规范化；名称首次出现时作为规范名称，之后只记录为别名
+ */
+CounterpartySchema.statics.upsertFromInvoice = async function (
+  taxId: string,
+  name: string | undefined,
+  role: CounterpartyRole,
+  seenAt: Date = new Date()
+) {
+  const trimmedName = name?.trim();
+
+  const counterparty = await this.findOneAndUpdate(
+    { taxId },
+    {
+      $setOnInsert: { name: trimmedName || taxId },
+      $addToSet: {
+        roles: role,
+        ...(trimmedName && { aliases: trimmedName }),
+      },
+      $min: { firstSeenAt: seenAt },
+      $max: { lastSeenAt: seenAt },
+    },
+    { upsert: true, new: true }
+  );
+
+  // 首次登记时没有名称，以税号占位，之后出现名称时补上
+  if (trimmedName && counterparty.name === taxId && !counterparty.nameLocked) {
+    counterparty.name = trimmedName;
+    await counterparty.save();
+  }
+
+  return counterparty;
+};
+
+/**
+ * 静态方法：查找税号对应的往来单位，已合并的返回合并后的单位
+ * 返回 Map<税号, 往来单位>，未登记的税号不在结果中
+ */
+CounterpartySchema.statics.resolveCanonical = async function (taxIds: string[]) {
+  const result = new Map<string, any>();
+  if (taxIds.length === 0) return result;
+
+  const found = await this.find({ taxId: { $in: taxIds } }).lean();
+  const byTaxId = new Map<string, any>(found.map((item: any) => [item.taxId, item]));
+
+  // 合并时会把指向被合并单位的记录一并改指，合并链只有一层
+  const targets = [
+    ...new Set(found.map((item: any) => item.mergedInto).filter(Boolean)),
+  ].filter((taxId) => !byTaxId.has(taxId as string));
+  if (targets.length > 0) {
+    const merged = await this.find({ taxId: { $in: targets } }).lean();
+    for (const item of merged) {
+      byTaxId.set(item.taxId, item);
+    }
+  }
+
+  for (const item of found) {
+    const canonical = item.mergedInto ? byTaxId.get(item.mergedInto) : item;
+    result.set(item.taxId, canonical || item);
+  }
+  return result;
+};
+
+/**
+ * Model 导出
+ */
+let CounterpartyModel: ICounterpartyModel;
+
+if (mongoose.models.Counterparty) {
+  CounterpartyModel = mongoose.models.Counterparty as unknown as ICounterpartyModel;
+} else {
+  CounterpartyModel = mongoose.model<ICounterparty, ICounterpartyModel>(
+    "Counterparty",
+    CounterpartySchema
+  );
+}
+
+export default CounterpartyModel;
@@ -0,0 +1,101 @@
+/**
+ * CustomDocumentType Mongoose Schema
+ * 管理员自定义的文档类型：以 JSON Schema 描述要提取的字段，解析提示词由 Schema 生成
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+import { CustomFieldSchema } from "@/types/document";
+
+/**
+ * CustomDocumentType Model 接口扩展
+ */
+export interface ICustomDocumentTypeModel extends Model<ICustomDocumentType> {
+  findByKey(key: string): Promise<any>;
+  listEnabled(): Promise<any[]>;
+}
+
+/**
+ * 自定义文档类型接口
+ */
+export interface ICustomDocumentType {
+  _id: string;
+  // 类型标识（小写字母开头，仅含小写字母、数字和下划线），创建后不可修改
+  key: string;
+  // 显示名称，如 合同、银行回单
+  name: string;
+  // 类型说明，用于文档类型识别
+  description?: string;
+  // 字段定义（JSON Schema，根节点为 object；schema 为 Mongoose 保留字段名）
+  jsonSchema: CustomFieldSchema;
+  // 附加到解析提示词中的说明
+  instructions?: string;
+  // 停用后不再参与类型识别，也不能作为上传 / 处理的指定类型
+  enabled: boolean;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * CustomDocumentType Schema
+ */
+const CustomDocumentTypeSchema = new Schema<ICustomDocumentType>(
+  {
+    key: { type: String, required: true, unique: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true },
+    jsonSchema: { type: Schema.Types.Mixed, required: true },
+    instructions: String,
+    enabled: { type: Boolean, default: true },
+    createdBy: String,
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+    minimize: false,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * 索引定义
+ */
+CustomDocumentTypeSchema.index({ enabled: 1, name: 1 });
+
+/**
+ * 静态方法：按 key 查找
+ */
+CustomDocumentTypeSchema.statics.findByKey = function (key: string) {
+  return this.findOne({ key });
+};
+
+/**
+ * 静态方法：获取已启用的类型（按名称排序）
+ */
+CustomDocumentTypeSchema.statics.listEnabled = function () {
+  return this.find({ enabled: true }).sort({ name: 1 }).lean();
+};
+
+/**
+ * Model 导出
+ */
+let CustomDocumentTypeModel: ICustomDocumentTypeModel;
+
+if (mongoose.models.CustomDocumentType) {
+  CustomDocumentTypeModel = mongoose.models.CustomDocumentType as unknown as ICustomDocumentTypeModel;
+} else {
+  CustomDocumentTypeModel = mongoose.model<ICustomDocumentType, ICustomDocumentTypeModel>(
+    "CustomDocumentType",
+    CustomDocumentTypeSchema
+  );
+}
+
+export default CustomDocumentTypeModel;
@@ -5,7 +5,9 @@
 import mongoose, { Schema, Model, Document as MongooseDocument } from "mongoose";
 import {
   DocumentType,
+  DOCUMENT_TYPES,
   DocumentStatus,
+  DOCUMENT_STATUSES,
   IDocument,
   LayoutDetail,
   InvoiceData,
@@ -53,6 +55,7 @@ const LayoutDetailSchema = new Schema<LayoutDetail>(
     height: { type: Number, required: true },
     width: { type: Number, required: true },
     page: { type: Number },
+    confidence: { type: Number },
   },
   { _id: false }
 );
@@ -67,6 +70,7 @@ const InvoiceItemSchema = new Schema(
     unitPrice: Number,
     amount: Number,
     taxRate: Number,
+    taxAmount: Number,
   },
   { _id: false }
 );
@@ -120,6 +124,16 @@ const OcrResultSchema = new Schema(
     mdResults: { type: String, required: true },
     layoutDetails: [LayoutDetailSchema],
     numPages: Number,
+    pages: [
+      {
+        _id: false,
+        page: Number,
+        width: Number,
+        height: Number,
+      },
+    ],
+    // 识别所用的 OCR 服务
+    provider: String,
   },
   { _id: false }
 );
@@ -140,8 +154,38 @@ const ParsedDataSchema = new Schema(
       sellerTaxId: String,
       buyerName: String,
       buyerTaxId: String,
+      checkCode: String,
+      invoiceType: String,
+      deductible: Boolean,
       items: [InvoiceItemSchema],
     },
+    invoiceQr: {
+      type: {
+        _id: false,
+        raw: String,
+        invoiceType: String,
+        invoiceCode: String,
+        invoiceNo: String,
+        invoiceDate: Date,
+        amount: Number,
+        amountWithoutTax: Number,
+        checkCode: String,
+        page: Number,
+        decodedAt: Date,
+        conflicts: [
+          {
+            _id: false,
+            field: String,
+            parsed: Schema.Types.Mixed,
+            qr: Schema.Types.Mixed,
+          },
+        ],
+      },
+      default: undefined,
+    },
+    // 键为字段路径，包含 "." 无法使用 Map
+    fieldSources: Schema.Types.Mixed,
+    fieldConfidence: Schema.Types.Mixed,
     certificate: {
       certName: String,
       certNo: String,
@@ -182,6 +226,8 @@ const ParsedDataSchema = new Schema(
       equity: Number,
       items: [FinancialReportItemSchema],
     },
+    // 自定义文档类型的解析结果，字段由类型的 JSON Schema 定义
+    custom: Schema.Types.Mixed,
   },
   { _id: false }
 );
@@ -201,6 +247,22 @@ const ErrorSchema = new Schema(
   { _id: false }
 );
 
+/**
+ * Validation Warning 子文档 Schema
+ */
+const ValidationWarningSchema = new Schema(
+  {
+    code: { type: String, required: true },
+    severity: { type: String, enum: ["low", "medium", "high"], required: true },
+    field: String,
+    message: { type: String, required: true },
+    expected: Schema.Types.Mixed,
+    actual: Schema.Types.Mixed,
+    suggestions: { type: [String], default: undefined },
+  },
+  { _id: false }
+);
+
 /**
  * Metadata 子文档 Schema
  */
@@ -225,14 +287,16 @@ const DocumentSchema = new Schema<IDocument>(
     fileType: { type: String, required: true },
     documentType: {
       type: String,
-      enum: ["invoice", "certificate", "resume", "handwritten", "financial_report", "other"],
+      enum: DOCUMENT_TYPES,
       default: "other",
       required: true,
     },
+    // 自定义文档类型 key（documentType 为 custom 时）
+    customType: String,
     uploadDate: { type: Date, default: Date.now },
     status: {
       type: String,
-      enum: ["processing", "completed", "failed"],
+      enum: DOCUMENT_STATUSES,
       default: "processing",
       required: true,
     },
@@ -246,11 +310,110 @@ const DocumentSchema = new Schema<IDocument>(
       confidence: Number,
       ocrProcessedAt: Date,
       aiParsedAt: Date,
+      detection: {
+        type: { type: String },
+        customType: String,
+        confidence: Number,
+        reason: String,
+        detectedAt: Date,
+      },
+      // 结果复用自相同文件的其他文档
+      cache: {
+        type: {
+          _id: false,
+          sourceDocumentId: String,
+          stages: [String],
+          hitAt: Date,
+        },
+        default: undefined,
+      },
+      // 数据来源（ocr / xml / ofd）
+      source: { type: String, enum: ["ocr", "xml", "ofd"] },
+    },
+
+    // 解析结果校验
+    validation: {
+      type: {
+        _id: false,
+        warnings: { type: [ValidationWarningSchema], default: [] },
+        maxSeverity: { type: String, enum: ["low", "medium", "high"] },
+        checkedAt: Date,
+      },
+      default: undefined,
+    },
+
+    // 发票查验结果
+    verification: {
+      type: {
+        _id: false,
+        status: {
+          type: String,
+          enum: ["genuine", "mismatch", "not_found", "voided", "error"],
+          required: true,
+        },
+        provider: String,
+        message: String,
+        request: {
+          invoiceCode: String,
+          invoiceNo: String,
+          invoiceDate: Date,
+          amount: Number,
+          checkCode: String,
+        },
+        rawResponse: Schema.Types.Mixed,
+        verifiedAt: Date,
+      },
+      default: undefined,
+    },
+
+    // 人工审核
+    review: {
+      type: {
+        _id: false,
+        status: {
+          type: String,
+          enum: ["pending", "approved", "corrected"],
+          required: true,
+        },
+        reasons: {
+          type: [
+            {
+              _id: false,
+              code: {
+                type: String,
+                enum: ["ocr_confidence", "detection_confidence", "validation", "field_confidence"],
+                required: true,
+              },
+              message: { type: String, required: true },
+            },
+          ],
+          default: [],
+        },
+        flaggedAt: Date,
+        reviewedBy: String,
+        reviewerName: String,
+        reviewedAt: Date,
+        comment: String,
+      },
+      default: undefined,
     },
 
     error: ErrorSchema,
 
     filePath: { type: String }, // 文件存储路径
+    fileHash: { type: String }, // 文件内容 SHA-256
+
+    // 疑似重复发票
+    duplicateOf: {
+      type: {
+        _id: false,
+        documentId: { type: String, required: true },
+        fileName: String,
+        matchedBy: { type: String, enum: ["code_no", "seller_no_amount"] },
+        detectedAt: Date,
+      },
+      default: undefined,
+    },
   },
   {
     timestamps: true,
@@ -269,12 +432,18 @@ const DocumentSchema = new Schema<IDocument>(
 // 添加 filePath 索引
 DocumentSchema.index({ filePath: 1 });
 
+// 文件内容哈希索引（用于查找缓存结果）
+DocumentSchema.index({ fileHash: 1, status: 1 });
+
 /**
  * 索引定义
  */
 // 文档类型索引
 DocumentSchema.index({ documentType: 1 });
 
+// 自定义文档类型索引
+DocumentSchema.index({ customType: 1 }, { sparse: true });
+
 // 状态索引
 DocumentSchema.index({ status: 1 });
 
@@ -290,6 +459,20 @@ DocumentSchema.index({ "parsedData.invoice.amount": 1 });
 // 发票日期索引
 DocumentSchema.index({ "parsedData.invoice.invoiceDate": -1 });
 
+// 重复发票检测索引
+DocumentSchema.index({ "parsedData.invoice.invoiceNo": 1, "parsedData.invoice.invoiceCode": 1 });
+DocumentSchema.index({ "duplicateOf.documentId": 1 });
+
+// 校验结果索引
+DocumentSchema.index({ "validation.maxSeverity": 1 });
+
+// 查验状态索引
+DocumentSchema.index({ "verification.status": 1 });
+
+// 审核队列索引
+DocumentSchema.index({ status: 1, "review.flaggedAt": 1 });
+DocumentSchema.index({ "review.status": 1, "review.reviewedAt": -1 });
+
 // 文本搜索索引
 DocumentSchema.index({ fileName: "text", "ocrResult.mdResults": "text" });
 
@@ -326,17 +509,19 @@ DocumentSchema.methods.updateOcrResult = function (ocrResult: any) {
   if (ocrResult.numPages) {
     this.metadata.pageCount = ocrResult.numPages;
   }
+  if (typeof ocrResult.confidence === "number") {
+    this.metadata.confidence = ocrResult.confidence;
+  }
   return this.save();
 };
 
-// 更新解析结果
+// 更新解析结果（不修改状态：解析后检查决定为 completed 或 needs_review，见 flagForReview）
 DocumentSchema.methods.updateParsedData = function (parsedData: any, documentType?: DocumentType) {
   this.parsedData = parsedData;
   this.metadata.aiParsedAt = new Date();
   if (documentType) {
     this.documentType = documentType;
   }
-  this.status = "completed";
   return this.save();
 };
 
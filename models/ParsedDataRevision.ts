@@ -0,0 +1,136 @@
+/**
+ * ParsedDataRevision Mongoose Schema
+ * 解析结果（parsedData）的历史版本：每次 AI 解析、人工修改和版本恢复都保存一份完整快照
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+/**
+ * 版本来源
+ * - ai: OCR + AI 解析（含二维码、结果复用）
+ * - structured: 数电票 XML / OFD 结构化数据
+ * - manual: 人工修改
+ * - restore: 恢复历史版本
+ */
+export type RevisionSource = "ai" | "structured" | "manual" | "restore";
+
+/**
+ * 同一文档并发写入版本号冲突时的重试次数
+ */
+const RECORD_RETRIES = 3;
+
+/**
+ * ParsedDataRevision Model 接口扩展
+ */
+export interface IParsedDataRevisionModel extends Model<IParsedDataRevision> {
+  record(
+    revision: Omit<IParsedDataRevision, "_id" | "revision" | "createdAt">
+  ): Promise<any>;
+  getHistory(documentId: string): Promise<any[]>;
+}
+
+/**
+ * 解析结果版本接口
+ */
+export interface IParsedDataRevision {
+  _id: string;
+  documentId: string;
+  // 文档内递增的版本号，从 1 开始
+  revision: number;
+  source: RevisionSource;
+  documentType: string;
+  // 自定义文档类型 key（documentType 为 custom 时）
+  customType?: string;
+  parsedData: Record<string, any>;
+  userId?: string;
+  userName?: string;
+  // 修改原因 / 版本说明
+  reason?: string;
+  // 恢复自的版本号
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+/**
+ * ParsedDataRevision Schema
+ */
+const ParsedDataRevisionSchema = new Schema<IParsedDataRevision>(
+  {
+    documentId: { type: String, required: true },
+    revision: { type: Number, required: true, min: 1 },
+    source: {
+      type: String,
+      enum: ["ai", "structured", "manual", "restore"],
+      required: true,
+    },
+    documentType: { type: String, required: true },
+    customType: String,
+    parsedData: { type: Schema.Types.Mixed, default: {} },
+    userId: String,
+    userName: String,
+    reason: String,
+    restoredFrom: Number,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * 索引定义
+ */
+ParsedDataRevisionSchema.index({ documentId: 1, revision: 1 }, { unique: true });
+
+/**
+ * 静态方法：保存新版本（版本号为该文档当前最大版本号 + 1）
+ */
+ParsedDataRevisionSchema.statics.record = async function (
+  revision: Omit<IParsedDataRevision, "_id" | "revision" | "createdAt">
+) {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await this.findOne({ documentId: revision.documentId })
+      .sort({ revision: -1 })
+      .select("revision")
+      .lean();
+    try {
+      return await this.create({ ...revision, revision: (latest?.revision || 0) + 1 });
+    } catch (error: any) {
+      // 并发写入时版本号唯一索引冲突，重新取版本号
+      if (error?.code !== 11000 || attempt >= RECORD_RETRIES) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * 静态方法：获取文档的全部版本（按版本号升序）
+ */
+ParsedDataRevisionSchema.statics.getHistory = function (documentId: string) {
+  return this.find({ documentId }).sort({ revision: 1 }).lean();
+};
+
+/**
+ * Model 导出
+ */
+let ParsedDataRevisionModel: IParsedDataRevisionModel;
+
+if (mongoose.models.ParsedDataRevision) {
+  ParsedDataRevisionModel = mongoose.models.ParsedDataRevision as unknown as IParsedDataRevisionModel;
+} else {
+  ParsedDataRevisionModel = mongoose.model<IParsedDataRevision, IParsedDataRevisionModel>(
+    "ParsedDataRevision",
+    ParsedDataRevisionSchema
+  );
+}
+
+export default ParsedDataRevisionModel;
@@ -0,0 +1,87 @@
+/**
+ * ProcessingBatch Mongoose Schema
+ * 批量重新处理记录，批次内任务共享并发上限
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+/**
+ * ProcessingBatch Model 接口扩展
+ */
+export interface IProcessingBatchModel extends Model<IProcessingBatch> {}
+
+/**
+ * 批量处理接口
+ */
+export interface IProcessingBatch {
+  _id: string;
+  filters: Record<string, any>;
+  options: {
+    stages?: string[];
+    documentType?: string;
+    customType?: string;
+    bypassCache?: boolean;
+  };
+  concurrency: number;
+  matched: number;
+  enqueued: number;
+  skipped: number;
+  requestedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ProcessingBatch Schema
+ */
+const ProcessingBatchSchema = new Schema<IProcessingBatch>(
+  {
+    filters: { type: Schema.Types.Mixed, default: {} },
+    options: {
+      stages: { type: [String], default: undefined },
+      documentType: String,
+      customType: String,
+      bypassCache: Boolean,
+    },
+    concurrency: { type: Number, required: true, min: 1 },
+    // 匹配筛选条件的文档数
+    matched: { type: Number, default: 0 },
+    // 实际创建的任务数
+    enqueued: { type: Number, default: 0 },
+    // 已有未结束任务而跳过的文档数
+    skipped: { type: Number, default: 0 },
+    requestedBy: String,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * 索引定义
+ */
+ProcessingBatchSchema.index({ createdAt: -1 });
+
+/**
+ * Model 导出
+ */
+let ProcessingBatchModel: IProcessingBatchModel;
+
+if (mongoose.models.ProcessingBatch) {
+  ProcessingBatchModel = mongoose.models.ProcessingBatch as unknown as IProcessingBatchModel;
+} else {
+  ProcessingBatchModel = mongoose.model<IProcessingBatch, IProcessingBatchModel>(
+    "ProcessingBatch",
+    ProcessingBatchSchema
+  );
+}
+
+export default ProcessingBatchModel;
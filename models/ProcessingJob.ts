@@ -0,0 +1,199 @@
+/**
+ * ProcessingJob Mongoose Schema
+ * 文档处理任务队列（OCR + AI 解析），基于租约领取，服务重启后可恢复
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+/**
+ * ProcessingJob Model 接口扩展
+ * 包含所有静态方法
+ */
+export interface IProcessingJobModel extends Model<IProcessingJob> {
+  getLatestForDocument(documentId: string): Promise<any>;
+  findActiveForDocument(documentId: string): Promise<any>;
+}
+
+/**
+ * 任务状态
+ * failed: 不可重试的错误；dead_letter: 重试次数耗尽
+ */
+export type JobStatus = "pending" | "running" | "completed" | "failed" | "dead_letter";
+
+/**
+ * 单次执行记录
+ */
+export interface JobAttempt {
+  attempt: number;
+  workerId: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  outcome?: "completed" | "failed" | "lease_expired";
+  stage?: string;
+  error?: string;
+  errorStatus?: number;
+  errorCode?: string;
+  retryAt?: Date;
+}
+
+/**
+ * 处理任务接口
+ */
+export interface IProcessingJob {
+  _id: string;
+  documentId: string;
+  fileName: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  options: {
+    stages?: string[];
+    documentType?: string;
+    customType?: string;
+    bypassCache?: boolean;
+  };
+  skipStages: string[];
+  attemptHistory: JobAttempt[];
+  lastError?: {
+    message: string;
+    stage?: string;
+  };
+  batchId?: string;
+  priority: number;
+  requestedBy?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Attempt 子文档 Schema
+ */
+const JobAttemptSchema = new Schema<JobAttempt>(
+  {
+    attempt: { type: Number, required: true },
+    workerId: { type: String, required: true },
+    startedAt: { type: Date, required: true },
+    finishedAt: Date,
+    outcome: {
+      type: String,
+      enum: ["completed", "failed", "lease_expired"],
+    },
+    stage: String,
+    error: String,
+    errorStatus: Number,
+    errorCode: String,
+    retryAt: Date,
+  },
+  { _id: false }
+);
+
+/**
+ * ProcessingJob Schema
+ */
+const ProcessingJobSchema = new Schema<IProcessingJob>(
+  {
+    documentId: { type: String, required: true },
+    fileName: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "running", "completed", "failed", "dead_letter"],
+      default: "pending",
+      required: true,
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    runAt: { type: Date, default: Date.now },
+    leaseOwner: String,
+    leaseExpiresAt: Date,
+    options: {
+      stages: { type: [String], default: undefined },
+      documentType: String,
+      customType: String,
+      bypassCache: Boolean,
+    },
+    // 重试时跳过已完成的步骤（如 AI 解析失败后不再重复 OCR）
+    skipStages: { type: [String], default: [] },
+    attemptHistory: { type: [JobAttemptSchema], default: [] },
+    lastError: {
+      message: String,
+      stage: String,
+    },
+    // 批量处理批次
+    batchId: String,
+    // 优先级，数值越大越先执行（批量任务低于单个文档任务）
+    priority: { type: Number, default: 0 },
+    requestedBy: String,
+    startedAt: Date,
+    finishedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: any) => {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * 索引定义
+ */
+// 领取待处理任务
+ProcessingJobSchema.index({ status: 1, priority: -1, runAt: 1 });
+
+// 批次进度统计
+ProcessingJobSchema.index({ batchId: 1, status: 1 });
+
+// 回收租约过期任务
+ProcessingJobSchema.index({ status: 1, leaseExpiresAt: 1 });
+
+// 按文档查询任务
+ProcessingJobSchema.index({ documentId: 1, createdAt: -1 });
+
+// 每个文档最多一个未结束的任务（并发入队时由唯一索引拒绝重复任务）
+ProcessingJobSchema.index(
+  { documentId: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ["pending", "running"] } } }
+);
+
+/**
+ * 静态方法
+ */
+
+// 获取文档最近一次任务
+ProcessingJobSchema.statics.getLatestForDocument = function (documentId: string) {
+  return this.findOne({ documentId }).sort({ createdAt: -1 });
+};
+
+// 获取文档未结束的任务
+ProcessingJobSchema.statics.findActiveForDocument = function (documentId: string) {
+  return this.findOne({
+    documentId,
+    status: { $in: ["pending", "running"] },
+  });
+};
+
+/**
+ * Model 导出
+ */
+let ProcessingJobModel: IProcessingJobModel;
+
+if (mongoose.models.ProcessingJob) {
+  ProcessingJobModel = mongoose.models.ProcessingJob as unknown as IProcessingJobModel;
+} else {
+  ProcessingJobModel = mongoose.model<IProcessingJob, IProcessingJobModel>(
+    "ProcessingJob",
+    ProcessingJobSchema
+  );
+}
+
+export default ProcessingJobModel;
@@ -5,10 +5,20 @@
 export { default as Document } from "./Document";
 export { default as AuditLog } from "./AuditLog";
 export { default as User } from "./User";
+export { default as ProcessingJob } from "./ProcessingJob";
+export { default as ProcessingBatch } from "./ProcessingBatch";
+export { default as Counterparty } from "./Counterparty";
+export { default as ParsedDataRevision } from "./ParsedDataRevision";
+export { default as CustomDocumentType } from "./CustomDocumentType";
 
 // 重新导出所有类型
 export * from "./Document";
 export * from "./AuditLog";
 export * from "./User";
+export * from "./ProcessingJob";
+export * from "./ProcessingBatch";
+export * from "./Counterparty";
+export * from "./ParsedDataRevision";
+export * from "./CustomDocumentType";
 export * from "@/types/user";
 export * from "@/types/document";
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * 发票查验模拟服务
+ * 实现与第三方查验 API 相同的接口（见 lib/services/apiVerifier.ts），用于本地开发和测试
+ *
+ * 启动：npm run verify:stub（默认端口 4010，可用 VERIFICATION_STUB_PORT 修改）
+ * 配置：VERIFICATION_PROVIDER=api
+ *      VERIFICATION_API_URL=http://localhost:4010/api/verify
+ *
+ * 按发票号码和金额返回确定的结果：
+ * - 号码以 0000 结尾：1002 查无此票
+ * - 号码以 9999 结尾：0000 查验成功，发票已作废（fpzt=2）
+ * - 号码以 8888 结尾：0000 查验成功，发票已红冲（fpzt=3）
+ * - 号码以 7777 结尾：9001 查验次数超限
+ * - 金额分位为 .99：1001 发票信息不一致
+ * - 其余：0000 查验成功
+ */
+
+import http from "http";
+
+const port = parseInt(process.env.VERIFICATION_STUB_PORT || "4010", 10);
+
+interface VerifyBody {
+  fpdm?: string;
+  fphm?: string;
+  kprq?: string;
+  je?: string;
+  jym?: string;
+}
+
+/**
+ * 按规则生成查验响应
+ */
+function buildResponse(body: VerifyBody) {
+  const invoiceNo = body.fphm || "";
+
+  if (!invoiceNo || !/^\d{8}$/.test(body.kprq || "") || (!body.je && !body.jym)) {
+    return { code: "9000", message: "参数错误" };
+  }
+  if (invoiceNo.endsWith("0000")) {
+    return { code: "1002", message: "查无此票" };
+  }
+  if (invoiceNo.endsWith("7777")) {
+    return { code: "9001", message: "查验次数超限" };
+  }
+  if (body.je && body.je.endsWith(".99")) {
+    return { code: "1001", message: "发票信息不一致" };
+  }
+
+  const fpzt = invoiceNo.endsWith("9999") ? "2" : invoiceNo.endsWith("8888") ? "3" : "0";
+  return {
+    code: "0000",
+    message: "查验成功",
+    data: {
+      fpdm: body.fpdm || "",
+      fphm: invoiceNo,
+      kprq: body.kprq,
+      je: body.je,
+      fpzt,
+      cycs: 1,
+    },
+  };
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== "POST" || req.url !== "/api/verify") {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ code: "404", message: "Not Found" }));
+    return;
+  }
+
+  let raw = "";
+  req.on("data", (chunk) => {
+    raw += chunk;
+  });
+  req.on("end", () => {
+    let body: VerifyBody;
+    try {
+      body = JSON.parse(raw || "{}");
+    } catch {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ code: "9000", message: "请求格式错误" }));
+      return;
+    }
+
+    const response = buildResponse(body);
+    console.log(`[verify] ${body.fpdm || "-"} ${body.fphm || "-"} → ${response.code}`);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(response));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🧾 发票查验模拟服务已启动: http://localhost:${port}/api/verify`);
+});
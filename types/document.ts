@@ -2,15 +2,40 @@
  * 文档类型定义
  */
 
+/**
+ * custom: 管理员自定义的文档类型，具体类型见 customType（CustomDocumentType.key）
+ */
 export type DocumentType =
   | "invoice"
   | "certificate"
   | "resume"
   | "handwritten"
   | "financial_report"
+  | "custom"
   | "other";
 
-export type DocumentStatus = "processing" | "completed" | "failed";
+export const DOCUMENT_TYPES: DocumentType[] = [
+  "invoice",
+  "certificate",
+  "resume",
+  "handwritten",
+  "financial_report",
+  "custom",
+  "other",
+];
+
+/**
+ * 文档状态
+ * needs_review: 解析完成但置信度低或校验有问题，人工审核通过前不计入报表
+ */
+export type DocumentStatus = "processing" | "completed" | "needs_review" | "failed";
+
+export const DOCUMENT_STATUSES: DocumentStatus[] = [
+  "processing",
+  "completed",
+  "needs_review",
+  "failed",
+];
 
 /**
  * 基础文档接口
@@ -21,15 +46,32 @@ export interface IDocument {
   fileUrl: string;
   fileType: string;
   documentType: DocumentType;
+  // 自定义文档类型的 key（documentType 为 custom 时）
+  customType?: string;
   uploadDate: Date;
   status: DocumentStatus;
   filePath?: string; // 文件存储路径
+  fileHash?: string; // 文件内容 SHA-256
+
+  // 疑似重复发票（关联更早上传的原始文档）
+  duplicateOf?: DuplicateInfo;
+
+  // 解析结果校验
+  validation?: DocumentValidation;
+
+  // 发票查验结果
+  verification?: InvoiceVerification;
+
+  // 人工审核
+  review?: DocumentReview;
 
   // OCR 结果
   ocrResult?: {
     mdResults: string;
     layoutDetails: LayoutDetail[];
     numPages?: number;
+    pages?: PageSize[];
+    provider?: string;
   };
 
   // AI 解析后的结构化数据
@@ -39,6 +81,14 @@ export interface IDocument {
     resume?: ResumeData;
     handwritten?: HandwrittenData;
     financialReport?: FinancialReportData;
+    // 自定义文档类型的解析结果（按该类型的 JSON Schema 规范化）
+    custom?: Record<string, any>;
+    // 发票二维码解码结果
+    invoiceQr?: InvoiceQrData;
+    // 各字段的数据来源，键为字段路径（如 invoice.invoiceNo）
+    fieldSources?: Record<string, FieldSource>;
+    // 各字段的置信度和来源区域，键与 fieldSources 相同（明细为 invoice.items.0.amount）
+    fieldConfidence?: Record<string, FieldConfidence>;
   };
 
   // 元数据
@@ -48,6 +98,10 @@ export interface IDocument {
     confidence?: number;
     ocrProcessedAt?: Date;
     aiParsedAt?: Date;
+    detection?: TypeDetection;
+    cache?: CacheHit;
+    // 数据来源：ocr 为 OCR + AI 解析，xml / ofd 为直接读取数电票结构化数据
+    source?: DocumentSource;
   };
 
   // 错误信息（处理失败时）
@@ -66,6 +120,166 @@ export interface IDocument {
   updateParsedData(parsedData: any, documentType?: DocumentType): Promise<any>;
 }
 
+/**
+ * 文档类型识别结果
+ */
+export interface TypeDetection {
+  type: DocumentType;
+  customType?: string;
+  confidence: number;
+  reason?: string;
+  detectedAt: Date;
+}
+
+/**
+ * 重复发票匹配规则
+ * - code_no: 发票代码 + 发票号码
+ * - seller_no_amount: 销售方税号 + 发票号码 + 价税合计
+ */
+export type DuplicateMatch = "code_no" | "seller_no_amount";
+
+/**
+ * 疑似重复信息
+ */
+export interface DuplicateInfo {
+  documentId: string;
+  fileName: string;
+  matchedBy: DuplicateMatch;
+  detectedAt: Date;
+}
+
+/**
+ * 校验警告严重程度
+ */
+export type ValidationSeverity = "low" | "medium" | "high";
+
+/**
+ * 校验警告
+ */
+export interface ValidationWarning {
+  code: string;
+  severity: ValidationSeverity;
+  // 字段路径，如 amount、items.0.amount
+  field: string;
+  message: string;
+  expected?: number | string;
+  actual?: number | string;
+  // 可能的修正值
+  suggestions?: string[];
+}
+
+/**
+ * 文档校验结果
+ */
+export interface DocumentValidation {
+  warnings: ValidationWarning[];
+  maxSeverity?: ValidationSeverity;
+  checkedAt: Date;
+}
+
+/**
+ * 发票查验状态
+ * - genuine: 查验一致
+ * - mismatch: 发票信息不一致
+ * - not_found: 查无此票
+ * - voided: 已作废或已红冲
+ * - error: 查验服务调用失败
+ */
+export type VerificationStatus = "genuine" | "mismatch" | "not_found" | "voided" | "error";
+
+export const VERIFICATION_STATUSES: VerificationStatus[] = [
+  "genuine",
+  "mismatch",
+  "not_found",
+  "voided",
+  "error",
+];
+
+/**
+ * 查验请求参数
+ * amount 为不含税金额（数电票为价税合计），checkCode 为校验码后 6 位
+ */
+export interface VerificationRequest {
+  invoiceCode?: string;
+  invoiceNo: string;
+  invoiceDate: Date;
+  amount?: number;
+  checkCode?: string;
+}
+
+/**
+ * 发票查验结果
+ */
+export interface InvoiceVerification {
+  status: VerificationStatus;
+  provider: string;
+  message?: string;
+  request: VerificationRequest;
+  // 查验服务的原始响应
+  rawResponse?: unknown;
+  verifiedAt: Date;
+}
+
+/**
+ * 需要人工审核的原因
+ * - ocr_confidence: OCR 置信度低于阈值
+ * - detection_confidence: 文档类型识别置信度低于阈值
+ * - validation: 解析结果校验警告达到阈值严重程度
+ * - field_confidence: 存在置信度低于阈值的字段
+ */
+export type ReviewReasonCode =
+  | "ocr_confidence"
+  | "detection_confidence"
+  | "validation"
+  | "field_confidence";
+
+export const REVIEW_REASON_CODES: ReviewReasonCode[] = [
+  "ocr_confidence",
+  "detection_confidence",
+  "validation",
+  "field_confidence",
+];
+
+export interface ReviewReason {
+  code: ReviewReasonCode;
+  message: string;
+}
+
+/**
+ * 审核状态
+ * - pending: 待审核
+ * - approved: 审核通过（未修改）
+ * - corrected: 修改后通过
+ */
+export type ReviewStatus = "pending" | "approved" | "corrected";
+
+/**
+ * 人工审核信息
+ */
+export interface DocumentReview {
+  status: ReviewStatus;
+  reasons: ReviewReason[];
+  flaggedAt: Date;
+  reviewedBy?: string;
+  reviewerName?: string;
+  reviewedAt?: Date;
+  comment?: string;
+}
+
+/**
+ * 文档数据来源
+ */
+export type DocumentSource = "ocr" | "xml" | "ofd";
+
+/**
+ * 结果复用记录
+ */
+export interface CacheHit {
+  sourceDocumentId: string;
+  stages: string[];
+  hitAt: Date;
+}
+
 /**
  * 布局详情
  */
@@ -77,6 +291,35 @@ export interface LayoutDetail {
   height: number;
   width: number;
   page?: number;
+  // 版面块的 OCR 置信度（0-100，OCR 服务提供时记录）
+  confidence?: number;
+}
+
+/**
+ * 字段来源区域：字段值所在的版面块
+ */
+export interface FieldRegion {
+  page: number;
+  // 对应 LayoutDetail.index
+  index: number;
+  bbox_2d: [number, number, number, number];
+}
+
+/**
+ * 字段置信度（0-100）及来源区域（在版面中找不到时为空）
+ */
+export interface FieldConfidence {
+  score: number;
+  regions: FieldRegion[];
+}
+
+/**
+ * 页面尺寸（与 bbox_2d 同一坐标系）
+ */
+export interface PageSize {
+  page: number;
+  width: number;
+  height: number;
 }
 
 /**
@@ -93,6 +336,11 @@ export interface InvoiceData {
   sellerTaxId?: string;
   buyerName?: string;
   buyerTaxId?: string;
+  checkCode?: string;
+  // 发票种类（票面标题，如 增值税专用发票、电子发票（普通发票））
+  invoiceType?: string;
+  // 进项税额是否可抵扣（人工指定，未指定时按发票种类和查验结果判断）
+  deductible?: boolean;
   items?: InvoiceItem[];
 }
 
@@ -102,6 +350,43 @@ export interface InvoiceItem {
   unitPrice?: number;
   amount?: number;
   taxRate?: number;
+  taxAmount?: number;
+}
+
+/**
+ * 字段数据来源
+ * - llm: AI 解析 OCR 文本
+ * - qr: 发票二维码
+ * - xml / ofd: 数电票结构化数据
+ * - manual: 人工修改
+ */
+export type FieldSource = "llm" | "qr" | "xml" | "ofd" | "manual";
+
+/**
+ * 发票二维码内容
+ * 格式：版本,发票种类,发票代码,发票号码,不含税金额,开票日期,校验码,加密信息
+ */
+export interface InvoiceQrData {
+  raw: string;
+  invoiceType?: string;
+  invoiceCode?: string;
+  invoiceNo?: string;
+  invoiceDate?: Date;
+  // 价税合计（数电票）
+  amount?: number;
+  // 不含税金额（其他发票）
+  amountWithoutTax?: number;
+  checkCode?: string;
+  page?: number;
+  decodedAt: Date;
+  // 与 AI 解析结果不一致的字段（已采用二维码的值）
+  conflicts?: QrFieldConflict[];
+}
+
+export interface QrFieldConflict {
+  field: string;
+  parsed: unknown;
+  qr: unknown;
 }
 
 /**
@@ -183,15 +468,54 @@ export interface FinancialReportItem {
   category?: string;
 }
 
+/**
+ * 自定义文档类型的字段定义（JSON Schema 子集）
+ * 支持 type、title、description、examples、enum、format（date / date-time）、
+ * pattern、minimum、maximum，以及 object 的 properties / required 和 array 的 items
+ */
+export type CustomFieldType = "string" | "number" | "integer" | "boolean" | "array" | "object";
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "array",
+  "object",
+];
+
+export interface CustomFieldSchema {
+  type: CustomFieldType;
+  // 字段名称（用于提示词和页面展示）
+  title?: string;
+  description?: string;
+  examples?: unknown[];
+  enum?: Array<string | number>;
+  format?: "date" | "date-time";
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, CustomFieldSchema>;
+  required?: string[];
+  items?: CustomFieldSchema;
+}
+
 /**
  * 文档列表查询参数
  */
 export interface DocumentQuery {
   documentType?: DocumentType | DocumentType[];
+  customType?: string;
   status?: DocumentStatus;
   startDate?: Date;
   endDate?: Date;
   search?: string;
+  // true: 只看疑似重复；false: 排除疑似重复
+  duplicate?: boolean;
+  // passed: 无警告；warning: 有警告；high: 有高严重程度警告
+  validation?: "passed" | "warning" | "high";
+  // unverified: 未查验；其余为查验状态
+  verification?: VerificationStatus | "unverified";
   page?: number;
   limit?: number;
   sortBy?: keyof IDocument;